@@ -1,8 +1,34 @@
 import { Request, Response } from 'express';
 import logger from '../utils/logger.util';
-import { challengeModel } from '../models/challenges.model';
-import { ChallengeStatus } from '../types/challenges.types';
+import {
+  challengeModel,
+  InviteUserInput,
+  JoinByCodeInput,
+  TransferOwnershipInput,
+  UpdateChallengeInput,
+} from '../models/challenges.model';
+import {
+  ChallengeStatus,
+  ChallengeVisibility,
+  DiscoverChallengesQuery,
+  IChallenge,
+  InvitationStatus,
+  InvitationStatusType,
+  JOINABLE_STATUSES,
+  OWNER_STATUS_CHANGES,
+} from '../types/challenges.types';
+import { friendModel } from '../models/friends.model';
 import SocketEvents from '../utils/socket.events';
+import { leaderboardService } from '../services/leaderboard.service';
+import { challengeResultsModel } from '../models/challengeResults.model';
+import { challengeInvitationsModel } from '../models/challengeInvitations.model';
+import { gameLockService } from '../services/gameLock.service';
+import { challengeForViewer } from '../utils/challengeView.util';
+import { challengeInvitationService } from '../services/challengeInvitation.service';
+import {
+  challengeStatusService,
+  StatusTransitionResult,
+} from '../services/challengeStatus.service';
 
 export class ChallengesController {
   // Create a new challenge
@@ -15,8 +41,29 @@ export class ChallengesController {
         });
       }
 
-      const challenge = await challengeModel.create(req.body, req.user.id);
-      logger.info(`Challenge created: ${challenge.id} by user: ${req.user.id}`);
+      // Only the owner's own ticket for this game can be entered
+      const { ticketId, gameId } = req.body;
+      if (
+        ticketId &&
+        !(await challengeModel.findEntryTicket(ticketId, req.user.id, gameId))
+      ) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Ticket not found for this game',
+        });
+      }
+
+      const created = await challengeModel.create(req.body, req.user.id);
+      logger.info(`Challenge created: ${created.id} by user: ${req.user.id}`);
+
+      // Invitations are stored separately and mirrored on the challenge
+      const invitedUserIds: string[] = req.body.invitedUserIds ?? [];
+      const challenge =
+        invitedUserIds.length > 0
+          ? ((await challengeInvitationService.invite(created.id, req.user.id, [
+              ...new Set(invitedUserIds),
+            ])) ?? created)
+          : created;
 
       // Emit socket event for real-time updates
       SocketEvents.challengeCreated(challenge);
@@ -37,56 +84,575 @@ export class ChallengesController {
     }
   }
 
-  // Get all challenges (with pagination)
+  // Get all challenges the user can see (with pagination)
   async getAll(req: Request, res: Response) {
     try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
 
-      const result = await challengeModel.findAll(page, limit);
+      const result = await challengeModel.findAll(page, limit, {
+        userId: req.user.id,
+        friendIds: await friendModel.getFriendIds(req.user.id),
+      });
+
+      const challenges = await gameLockService.withChallengeLocks(
+        result.challenges
+      );
+      res.status(200).json({
+        success: true,
+        data: challenges.map(c => challengeForViewer(c, req.user!.id)),
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          pages: Math.ceil(result.total / limit),
+        },
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error fetching challenges: ${message}`);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message,
+      });
+    }
+  }
+
+  // Search public challenges that still have room
+  async discover(req: Request, res: Response) {
+    try {
+      const query = req.query as unknown as DiscoverChallengesQuery;
+      const result = await challengeModel.discover(query);
+
+      const challenges = await gameLockService.withChallengeLocks(
+        result.challenges
+      );
+      res.status(200).json({
+        success: true,
+        data: challenges.map(c => challengeForViewer(c, req.user!.id)),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+          pages: Math.ceil(result.total / query.limit),
+        },
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error discovering challenges: ${message}`);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message,
+      });
+    }
+  }
+
+  // Get challenge by ID
+  async getById(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { id } = req.params;
+      const found = await challengeModel.findById(id);
+
+      const challenge =
+        found && (await challengeInvitationService.refresh(found));
+
+      // Challenges the user may not see are reported as missing
+      if (!challenge || !(await this.canView(challenge, req.user.id))) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge not found',
+        });
+      }
+
+      const [withLock] = await gameLockService.withChallengeLocks([challenge]);
+      res.status(200).json({
+        success: true,
+        data: challengeForViewer(withLock, req.user.id),
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error fetching challenge by ID: ${message}`);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message,
+      });
+    }
+  }
+
+  // Get ranked standings for a challenge
+  async getLeaderboard(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { id } = req.params;
+      const challenge = await challengeModel.findById(id);
+
+      // Challenges the user may not see are reported as missing
+      if (!challenge || !(await this.canView(challenge, req.user.id))) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge not found',
+        });
+      }
+
+      const leaderboard = await leaderboardService.getLeaderboard(challenge);
+
+      res.status(200).json({
+        success: true,
+        data: leaderboard,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error fetching challenge leaderboard: ${message}`);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message,
+      });
+    }
+  }
+
+  // Get the final result of a finished challenge
+  async getResult(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { id } = req.params;
+      const challenge = await challengeModel.findById(id);
+
+      // Challenges the user may not see are reported as missing
+      if (!challenge || !(await this.canView(challenge, req.user.id))) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge not found',
+        });
+      }
+
+      const result = await challengeResultsModel.findByChallengeId(id);
+
+      if (!result) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge result not found',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error fetching challenge result: ${message}`);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message,
+      });
+    }
+  }
+
+  // Get user's challenges
+  async getUserChallenges(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const userId = req.user.id;
+      const status = req.query.status as string;
+      const challenges = (
+        await gameLockService.withChallengeLocks(
+          await challengeModel.getUserChallenges(userId, status)
+        )
+      ).map(c => challengeForViewer(c, userId)); // Invitees don't get the join code
+
+      // Group challenges by status for easier frontend consumption
+      const groupedChallenges = {
+        pending: challenges.filter(c => c.status === ChallengeStatus.PENDING),
+        active: challenges.filter(c => c.status === ChallengeStatus.ACTIVE),
+        live: challenges.filter(c => c.status === ChallengeStatus.LIVE),
+        finished: challenges.filter(c => c.status === ChallengeStatus.FINISHED),
+        cancelled: challenges.filter(
+          c => c.status === ChallengeStatus.CANCELLED
+        ),
+      };
+
+      res.status(200).json({
+        success: true,
+        data: status ? challenges : groupedChallenges,
+        total: challenges.length,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error fetching user challenges: ${message}`);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message,
+      });
+    }
+  }
+
+  // Join a challenge
+  async joinChallenge(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { id: challengeId } = req.params; // Destructure 'id' and rename to 'challengeId'
+      const { ticketId } = req.body;
+
+      const existing = await challengeModel.findById(challengeId);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge not found',
+        });
+      }
+
+      // Private challenges need an invitation or the join code
+      const denied = await this.joinDeniedReason(existing, req.user.id);
+      if (denied) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: denied,
+        });
+      }
+
+      return await this.completeJoin(req, res, existing, ticketId);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error joining challenge: ${message}`);
+      res.status(400).json({
+        error: 'Bad Request',
+        message,
+      });
+    }
+  }
+
+  // Join a challenge with its join code, whatever its visibility
+  async joinByCode(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { joinCode, ticketId } = req.body as JoinByCodeInput;
+
+      const existing = await challengeModel.findByJoinCode(joinCode);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'No challenge found for this join code',
+        });
+      }
+
+      return await this.completeJoin(req, res, existing, ticketId);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error joining challenge by code: ${message}`);
+      res.status(400).json({
+        error: 'Bad Request',
+        message,
+      });
+    }
+  }
+
+  // Invite more of the owner's friends to a challenge (owner only)
+  async inviteUsers(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { id } = req.params;
+      const userIds = [...new Set((req.body as InviteUserInput).userIds)];
+
+      const found = await challengeModel.findById(id);
+      if (!found) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge not found',
+        });
+      }
+
+      // Expired invitations no longer hold a seat
+      const existing = await challengeInvitationService.refresh(found);
+      if (existing.ownerId !== req.user.id) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only challenge owner can invite users',
+        });
+      }
+
+      if (
+        (existing.status !== ChallengeStatus.PENDING &&
+          existing.status !== ChallengeStatus.ACTIVE) ||
+        (await this.isLocked(existing))
+      ) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'Users can only be invited before the game starts',
+        });
+      }
+
+      const friendIds = new Set(await friendModel.getFriendIds(req.user.id));
+      const notFriends = userIds.filter(userId => !friendIds.has(userId));
+      if (notFriends.length > 0) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'You can only invite your friends',
+          userIds: notFriends,
+        });
+      }
+
+      const alreadyIn = userIds.filter(
+        userId =>
+          existing.memberIds.includes(userId) ||
+          existing.invitedUserIds.includes(userId)
+      );
+      if (alreadyIn.length > 0) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Some users are already members or invited',
+          userIds: alreadyIn,
+        });
+      }
+
+      if (
+        existing.maxMembers &&
+        existing.memberIds.length +
+          existing.invitedUserIds.length +
+          userIds.length >
+          existing.maxMembers
+      ) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: `Challenge is limited to ${existing.maxMembers} members, including pending invitations`,
+        });
+      }
+
+      const challenge = await challengeInvitationService.invite(
+        id,
+        req.user.id,
+        userIds
+      );
+
+      // Filled up, closed or deleted in the meantime
+      if (!challenge) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'Challenge changed while inviting. Please try again',
+        });
+      }
+
+      logger.info(
+        `User ${req.user.id} invited ${userIds.length} user(s) to challenge ${id}`
+      );
+
+      // Emit socket events for real-time updates
+      SocketEvents.usersInvited(id, userIds, challenge);
+      SocketEvents.challengeUpdated(id, challenge);
+
+      const [withLock] = await gameLockService.withChallengeLocks([challenge]);
+      res.status(200).json({
+        success: true,
+        data: withLock,
+        message: 'Users invited successfully',
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error inviting users to challenge: ${message}`);
+      res.status(400).json({
+        error: 'Bad Request',
+        message,
+      });
+    }
+  }
+
+  // Leave a challenge
+  async leaveChallenge(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { id } = req.params;
+
+      const existing = await challengeModel.findById(id);
+      if (existing && (await this.isLocked(existing))) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'Challenge is locked because the game has started',
+        });
+      }
+
+      const challenge = await challengeModel.leaveChallenge(id, req.user.id);
+
+      if (!challenge) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message:
+            'Unable to leave challenge. You may not be a member, be the owner, or the challenge may be live/finished.',
+        });
+      }
+
+      logger.info(`User ${req.user.id} left challenge ${id}`);
+
+      res.status(200).json({
+        success: true,
+        data: challengeForViewer(challenge, req.user.id),
+        message: 'Successfully left challenge',
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'An error occurred';
+      logger.error(`Error leaving challenge: ${message}`);
+      res.status(400).json({
+        error: 'Bad Request',
+        message,
+      });
+    }
+  }
+
+  // Decline challenge invitation
+  async declineInvitation(req: Request, res: Response) {
+    try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const { id } = req.params;
+      const challenge = await challengeInvitationService.decline(
+        id,
+        req.user.id
+      );
+
+      if (!challenge) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message:
+            'Unable to decline invitation. You may not be invited to this challenge.',
+        });
+      }
+
+      logger.info(`User ${req.user.id} declined invitation to challenge ${id}`);
+
+      // Emit socket event to notify owner (status changes notify on their own)
+      SocketEvents.invitationDeclined(id, req.user, challenge);
 
       res.status(200).json({
         success: true,
-        data: result.challenges,
-        pagination: {
-          page,
-          limit,
-          total: result.total,
-          pages: Math.ceil(result.total / limit),
-        },
+        data: challengeForViewer(challenge, req.user.id),
+        message: 'Successfully declined invitation',
       });
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'An error occurred';
-      logger.error(`Error fetching challenges: ${message}`);
-      res.status(500).json({
-        error: 'Internal Server Error',
+      logger.error(`Error declining invitation: ${message}`);
+      res.status(400).json({
+        error: 'Bad Request',
         message,
       });
     }
   }
 
-  // Get challenge by ID
-  async getById(req: Request, res: Response) {
+  // Get the current user's invitations: open ones and past answers
+  async getInvitations(req: Request, res: Response) {
     try {
-      const { id } = req.params;
-      const challenge = await challengeModel.findById(id);
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
 
-      if (!challenge) {
-        return res.status(404).json({
-          error: 'Not Found',
-          message: 'Challenge not found',
+      const status = req.query.status as InvitationStatusType | undefined;
+      if (
+        status &&
+        !Object.values(InvitationStatus).includes(
+          status as InvitationStatusType
+        )
+      ) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid invitation status',
         });
       }
 
+      const invitations = await challengeInvitationService.getInbox(
+        req.user.id,
+        status
+      );
+
       res.status(200).json({
         success: true,
-        data: challenge,
+        data: status
+          ? invitations
+          : {
+              pending: invitations.filter(
+                i => i.status === InvitationStatus.PENDING
+              ),
+              history: invitations.filter(
+                i => i.status !== InvitationStatus.PENDING
+              ),
+            },
+        total: invitations.length,
       });
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'An error occurred';
-      logger.error(`Error fetching challenge by ID: ${message}`);
+      logger.error(`Error fetching invitations: ${message}`);
       res.status(500).json({
         error: 'Internal Server Error',
         message,
@@ -94,8 +660,8 @@ export class ChallengesController {
     }
   }
 
-  // Get user's challenges
-  async getUserChallenges(req: Request, res: Response) {
+  // Give an invitation a fresh expiry and notify the invitee again (owner only)
+  async resendInvitation(req: Request, res: Response) {
     try {
       if (!req.user || !req.user.id) {
         return res.status(401).json({
@@ -104,41 +670,66 @@ export class ChallengesController {
         });
       }
 
-      const status = req.query.status as string;
-      const challenges = await challengeModel.getUserChallenges(
-        req.user.id,
-        status
-      );
+      const { id, userId } = req.params;
+      const existing = await this.findOwnOpenChallenge(req, res);
+      if (!existing) return;
 
-      // Group challenges by status for easier frontend consumption
-      const groupedChallenges = {
-        pending: challenges.filter(c => c.status === ChallengeStatus.PENDING),
-        active: challenges.filter(c => c.status === ChallengeStatus.ACTIVE),
-        live: challenges.filter(c => c.status === ChallengeStatus.LIVE),
-        finished: challenges.filter(c => c.status === ChallengeStatus.FINISHED),
-        cancelled: challenges.filter(
-          c => c.status === ChallengeStatus.CANCELLED
-        ),
-      };
+      const invitation = await challengeInvitationsModel.findOne(id, userId);
+      if (
+        !invitation ||
+        (invitation.status !== InvitationStatus.PENDING &&
+          invitation.status !== InvitationStatus.EXPIRED)
+      ) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'No pending or expired invitation for this user',
+        });
+      }
+
+      // Reopening an expired invitation takes a seat again
+      if (
+        invitation.status === InvitationStatus.EXPIRED &&
+        existing.maxMembers &&
+        existing.memberIds.length + existing.invitedUserIds.length + 1 >
+          existing.maxMembers
+      ) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: `Challenge is limited to ${existing.maxMembers} members, including pending invitations`,
+        });
+      }
+
+      const challenge = await challengeInvitationService.resend(id, userId);
+      if (!challenge) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'Challenge changed while resending. Please try again',
+        });
+      }
+
+      logger.info(`Invitation to challenge ${id} resent to user ${userId}`);
+
+      SocketEvents.usersInvited(id, [userId], challenge);
+      SocketEvents.challengeUpdated(id, challenge);
 
       res.status(200).json({
         success: true,
-        data: status ? challenges : groupedChallenges,
-        total: challenges.length,
+        data: challenge,
+        message: 'Invitation resent successfully',
       });
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'An error occurred';
-      logger.error(`Error fetching user challenges: ${message}`);
-      res.status(500).json({
-        error: 'Internal Server Error',
+      logger.error(`Error resending invitation: ${message}`);
+      res.status(400).json({
+        error: 'Bad Request',
         message,
       });
     }
   }
 
-  // Join a challenge
-  async joinChallenge(req: Request, res: Response) {
+  // Withdraw a pending invitation (owner only)
+  async revokeInvitation(req: Request, res: Response) {
     try {
       if (!req.user || !req.user.id) {
         return res.status(401).json({
@@ -147,49 +738,32 @@ export class ChallengesController {
         });
       }
 
-      const { id: challengeId } = req.params; // Destructure 'id' and rename to 'challengeId'
-      const { ticketId } = req.body;
-
-      const challenge = await challengeModel.joinChallenge(
-        challengeId,
-        req.user.id,
-        ticketId
-      );
+      const { id, userId } = req.params;
+      const existing = await this.findOwnOpenChallenge(req, res);
+      if (!existing) return;
 
+      const challenge = await challengeInvitationService.revoke(id, userId);
       if (!challenge) {
-        return res.status(400).json({
-          error: 'Bad Request',
-          message:
-            'Unable to join challenge. It may be full, you may already be a member, or it may not exist.',
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'No pending invitation for this user',
         });
       }
 
-      logger.info(`User ${req.user.id} joined challenge ${challengeId}`);
-
-      // Emit socket event for real-time updates
-      SocketEvents.userJoinedChallenge(challengeId, req.user, challenge);
+      logger.info(`Invitation to challenge ${id} revoked for user ${userId}`);
 
-      // If status changed to ACTIVE, emit status change event
-      if (
-        challenge.status === ChallengeStatus.ACTIVE &&
-        challenge.invitedUserIds.length === 0
-      ) {
-        SocketEvents.challengeStatusChanged(
-          challengeId,
-          ChallengeStatus.ACTIVE,
-          challenge
-        );
-      }
+      SocketEvents.invitationRevoked(id, userId, challenge);
+      SocketEvents.challengeUpdated(id, challenge);
 
       res.status(200).json({
         success: true,
         data: challenge,
-        message: 'Successfully joined challenge',
+        message: 'Invitation revoked successfully',
       });
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'An error occurred';
-      logger.error(`Error joining challenge: ${message}`);
+      logger.error(`Error revoking invitation: ${message}`);
       res.status(400).json({
         error: 'Bad Request',
         message,
@@ -197,8 +771,8 @@ export class ChallengesController {
     }
   }
 
-  // Leave a challenge
-  async leaveChallenge(req: Request, res: Response) {
+  // Remove a member and their ticket (owner only, before the game starts)
+  async removeMember(req: Request, res: Response) {
     try {
       if (!req.user || !req.user.id) {
         return res.status(401).json({
@@ -207,28 +781,76 @@ export class ChallengesController {
         });
       }
 
-      const { id } = req.params;
-      const challenge = await challengeModel.leaveChallenge(id, req.user.id);
+      const { id, userId } = req.params;
 
-      if (!challenge) {
+      const existing = await challengeModel.findById(id);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge not found',
+        });
+      }
+
+      if (existing.ownerId !== req.user.id) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only challenge owner can remove members',
+        });
+      }
+
+      if (userId === existing.ownerId) {
         return res.status(400).json({
           error: 'Bad Request',
           message:
-            'Unable to leave challenge. You may not be a member, be the owner, or the challenge may be live/finished.',
+            'The owner cannot be removed; transfer ownership or delete the challenge instead',
         });
       }
 
-      logger.info(`User ${req.user.id} left challenge ${id}`);
+      if (!existing.memberIds.includes(userId)) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'User is not a member of this challenge',
+        });
+      }
+
+      // Standings are frozen from puck drop
+      if (
+        (existing.status !== ChallengeStatus.PENDING &&
+          existing.status !== ChallengeStatus.ACTIVE) ||
+        (await this.isLocked(existing))
+      ) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'Members can only be removed before the game starts',
+        });
+      }
 
+      const challenge = await challengeModel.removeMember(id, userId);
+
+      // Membership changed in the meantime
+      if (!challenge) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message:
+            'Challenge changed while removing the member, please try again',
+        });
+      }
+
+      logger.info(`User ${userId} removed from challenge ${id} by owner`);
+
+      SocketEvents.memberRemoved(id, userId, challenge);
+      SocketEvents.challengeUpdated(id, challenge);
+
+      const [withLock] = await gameLockService.withChallengeLocks([challenge]);
       res.status(200).json({
         success: true,
-        data: challenge,
-        message: 'Successfully left challenge',
+        data: withLock,
+        message: 'Member removed successfully',
       });
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'An error occurred';
-      logger.error(`Error leaving challenge: ${message}`);
+      logger.error(`Error removing challenge member: ${message}`);
       res.status(400).json({
         error: 'Bad Request',
         message,
@@ -236,8 +858,8 @@ export class ChallengesController {
     }
   }
 
-  // Decline challenge invitation
-  async declineInvitation(req: Request, res: Response) {
+  // Hand the challenge over to another member (owner only)
+  async transferOwnership(req: Request, res: Response) {
     try {
       if (!req.user || !req.user.id) {
         return res.status(401).json({
@@ -247,42 +869,79 @@ export class ChallengesController {
       }
 
       const { id } = req.params;
-      const challenge = await challengeModel.declineInvitation(id, req.user.id);
+      const { newOwnerId } = req.body as TransferOwnershipInput;
 
-      if (!challenge) {
+      const existing = await challengeModel.findById(id);
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Challenge not found',
+        });
+      }
+
+      if (existing.ownerId !== req.user.id) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only challenge owner can transfer ownership',
+        });
+      }
+
+      if (newOwnerId === req.user.id) {
         return res.status(400).json({
           error: 'Bad Request',
-          message:
-            'Unable to decline invitation. You may not be invited to this challenge.',
+          message: 'You already own this challenge',
         });
       }
 
-      logger.info(`User ${req.user.id} declined invitation to challenge ${id}`);
-
-      // Emit socket event to notify owner
-      SocketEvents.invitationDeclined(id, req.user, challenge);
+      if (!existing.memberIds.includes(newOwnerId)) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Ownership can only be transferred to a member',
+        });
+      }
 
-      // If status changed to ACTIVE, emit status change event
+      // Nothing left to manage once the challenge is over
       if (
-        challenge.status === ChallengeStatus.ACTIVE &&
-        challenge.invitedUserIds.length === 0
+        existing.status === ChallengeStatus.FINISHED ||
+        existing.status === ChallengeStatus.CANCELLED
       ) {
-        SocketEvents.challengeStatusChanged(
-          id,
-          ChallengeStatus.ACTIVE,
-          challenge
-        );
+        return res.status(409).json({
+          error: 'Conflict',
+          message: `Ownership cannot be transferred once the challenge is ${existing.status}`,
+        });
+      }
+
+      const challenge = await challengeModel.transferOwnership(
+        id,
+        req.user.id,
+        newOwnerId
+      );
+
+      if (!challenge) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message:
+            'Challenge changed while transferring ownership, please try again',
+        });
       }
 
+      logger.info(
+        `Challenge ${id} ownership transferred from ${req.user.id} to ${newOwnerId}`
+      );
+
+      SocketEvents.ownershipTransferred(id, req.user.id, challenge);
+      SocketEvents.challengeUpdated(id, challenge);
+
+      const [withLock] = await gameLockService.withChallengeLocks([challenge]);
       res.status(200).json({
         success: true,
-        data: challenge,
-        message: 'Successfully declined invitation',
+        data: withLock,
+        message: 'Ownership transferred successfully',
       });
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'An error occurred';
-      logger.error(`Error declining invitation: ${message}`);
+      logger.error(`Error transferring challenge ownership: ${message}`);
       res.status(400).json({
         error: 'Bad Request',
         message,
@@ -318,7 +977,30 @@ export class ChallengesController {
         });
       }
 
-      const challenge = await challengeModel.update(id, req.body);
+      // A status change must be one the owner may make and a legal transition;
+      // it is written together with the other fields
+      const { status, ...fields } = req.body as UpdateChallengeInput;
+      let challenge: IChallenge | null;
+      if (status && status !== existingChallenge.status) {
+        if (!OWNER_STATUS_CHANGES.includes(status)) {
+          return this.sendOwnerStatusError(res);
+        }
+        const result = await challengeStatusService.transition(
+          id,
+          status,
+          fields
+        );
+        if (!result.success) {
+          return this.sendTransitionError(res, result);
+        }
+        challenge =
+          status === ChallengeStatus.CANCELLED
+            ? ((await challengeInvitationService.revokeAll(id)) ??
+              result.challenge)
+            : result.challenge;
+      } else {
+        challenge = await challengeModel.update(id, fields);
+      }
 
       logger.info(`Challenge ${id} updated by user ${req.user.id}`);
 
@@ -364,6 +1046,7 @@ export class ChallengesController {
       }
 
       await challengeModel.delete(id, req.user.id);
+      await challengeInvitationService.revokeAll(id);
 
       logger.info(`Challenge ${id} deleted by user ${req.user.id}`);
 
@@ -385,9 +1068,16 @@ export class ChallengesController {
     }
   }
 
-  // Update challenge status (for system updates)
+  // Activate or cancel a challenge (owner only), following the transition table
   async updateStatus(req: Request, res: Response) {
     try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
       const { id } = req.params;
       const { status } = req.body;
 
@@ -398,19 +1088,36 @@ export class ChallengesController {
         });
       }
 
-      const challenge = await challengeModel.updateStatus(id, status);
-
-      if (!challenge) {
+      const existing = await challengeModel.findById(id);
+      if (!existing) {
         return res.status(404).json({
           error: 'Not Found',
           message: 'Challenge not found',
         });
       }
 
-      logger.info(`Challenge ${id} status updated to ${status}`);
+      if (existing.ownerId !== req.user.id) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Only challenge owner can change its status',
+        });
+      }
+
+      if (!OWNER_STATUS_CHANGES.includes(status)) {
+        return this.sendOwnerStatusError(res);
+      }
 
-      // Emit socket event for real-time updates
-      SocketEvents.challengeUpdated(id, status);
+      const result = await challengeStatusService.transition(id, status);
+      if (!result.success) {
+        return this.sendTransitionError(res, result);
+      }
+
+      // Nobody can join a cancelled challenge, so its invitations are withdrawn
+      const challenge =
+        status === ChallengeStatus.CANCELLED
+          ? ((await challengeInvitationService.revokeAll(id)) ??
+            result.challenge)
+          : result.challenge;
 
       res.status(200).json({
         success: true,
@@ -431,12 +1138,24 @@ export class ChallengesController {
   // Get challenges by game ID
   async getByGameId(req: Request, res: Response) {
     try {
+      if (!req.user || !req.user.id) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'User authentication required',
+        });
+      }
+
+      const userId = req.user.id;
       const { gameId } = req.params;
-      const challenges = await challengeModel.findByGameId(gameId);
+      const challenges = await challengeModel.findByGameId(gameId, {
+        userId,
+        friendIds: await friendModel.getFriendIds(userId),
+      });
 
+      const withLocks = await gameLockService.withChallengeLocks(challenges);
       res.status(200).json({
         success: true,
-        data: challenges,
+        data: withLocks.map(c => challengeForViewer(c, userId)),
         total: challenges.length,
       });
     } catch (error) {
@@ -449,4 +1168,184 @@ export class ChallengesController {
       });
     }
   }
+
+  // Owner-only invitation changes before the game starts; replies 404/403/409 otherwise
+  private async findOwnOpenChallenge(
+    req: Request,
+    res: Response
+  ): Promise<IChallenge | null> {
+    const found = await challengeModel.findById(req.params.id);
+    if (!found) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Challenge not found',
+      });
+      return null;
+    }
+
+    const challenge = await challengeInvitationService.refresh(found);
+
+    if (challenge.ownerId !== req.user!.id) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only challenge owner can manage invitations',
+      });
+      return null;
+    }
+
+    if (
+      (challenge.status !== ChallengeStatus.PENDING &&
+        challenge.status !== ChallengeStatus.ACTIVE) ||
+      (await this.isLocked(challenge))
+    ) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Invitations can only be changed before the game starts',
+      });
+      return null;
+    }
+
+    return challenge;
+  }
+
+  // Same rules as the viewer filter on challengeModel.findAll
+  private async canView(
+    challenge: IChallenge,
+    userId: string
+  ): Promise<boolean> {
+    const visibility = challenge.visibility ?? ChallengeVisibility.PRIVATE;
+    if (
+      visibility === ChallengeVisibility.PUBLIC ||
+      challenge.ownerId === userId ||
+      challenge.memberIds.includes(userId) ||
+      challenge.invitedUserIds.includes(userId)
+    ) {
+      return true;
+    }
+    return (
+      visibility === ChallengeVisibility.FRIENDS_ONLY &&
+      (await friendModel.getFriendIds(userId)).includes(challenge.ownerId)
+    );
+  }
+
+  // Why the user may not join this challenge by ID, or null if they may
+  private async joinDeniedReason(
+    challenge: IChallenge,
+    userId: string
+  ): Promise<string | null> {
+    const visibility = challenge.visibility ?? ChallengeVisibility.PRIVATE;
+    if (
+      visibility === ChallengeVisibility.PUBLIC ||
+      challenge.memberIds.includes(userId) || // Rejected later as already joined
+      (await challengeInvitationsModel.findOpen(challenge.id, userId))
+    ) {
+      return null;
+    }
+    if (visibility === ChallengeVisibility.FRIENDS_ONLY) {
+      const friendIds = await friendModel.getFriendIds(challenge.ownerId);
+      return friendIds.includes(userId)
+        ? null
+        : "Only the owner's friends can join this challenge";
+    }
+    return 'This challenge is private. Join with an invitation or its join code';
+  }
+
+  // Shared by join and join-by-code once access is settled
+  private async completeJoin(
+    req: Request,
+    res: Response,
+    existing: IChallenge,
+    ticketId: string
+  ) {
+    const user = req.user!;
+    const challengeId = existing.id;
+
+    if (!JOINABLE_STATUSES.includes(existing.status)) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: `Cannot join a challenge that is ${existing.status}`,
+      });
+    }
+
+    // Membership and tickets are frozen once the game starts
+    if (await this.isLocked(existing)) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Challenge is locked because the game has started',
+      });
+    }
+
+    // Only the user's own ticket for this game can be entered
+    if (
+      !(await challengeModel.findEntryTicket(
+        ticketId,
+        user.id,
+        existing.gameId
+      ))
+    ) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Ticket not found for this game',
+      });
+    }
+
+    const joined = await challengeModel.joinChallenge(
+      challengeId,
+      user.id,
+      ticketId
+    );
+
+    // Accept the user's invitation, if they had one
+    const challenge = joined
+      ? ((await challengeInvitationService.accept(challengeId, user.id)) ??
+        joined)
+      : null;
+
+    if (!challenge) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message:
+          'Unable to join challenge. It may be full, you may already be a member, or it may not exist.',
+      });
+    }
+
+    logger.info(`User ${user.id} joined challenge ${challengeId}`);
+
+    // Emit socket event for real-time updates (status changes notify on their own)
+    SocketEvents.userJoinedChallenge(challengeId, user, challenge);
+
+    const [withLock] = await gameLockService.withChallengeLocks([challenge]);
+    return res.status(200).json({
+      success: true,
+      data: withLock,
+      message: 'Successfully joined challenge',
+    });
+  }
+
+  // Live and finished are left to the game status sync job
+  private sendOwnerStatusError(res: Response) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message:
+        'Owners can only activate or cancel a challenge; live and finished follow the game',
+    });
+  }
+
+  // 404 for a missing challenge, 409 for a transition the table does not allow
+  private sendTransitionError(
+    res: Response,
+    result: Extract<StatusTransitionResult, { success: false }>
+  ) {
+    return result.error === 'not_found'
+      ? res.status(404).json({ error: 'Not Found', message: result.message })
+      : res.status(409).json({ error: 'Conflict', message: result.message });
+  }
+
+  private async isLocked(challenge: IChallenge): Promise<boolean> {
+    const lock = await gameLockService.getLockState(
+      challenge.gameId,
+      challenge.gameStartTime
+    );
+    return lock.isLocked;
+  }
 }
@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { Ticket } from '../models/tickets.model';
+import {
+  ImportTicketsBody,
+  MAX_IMPORT_TICKETS,
+  TicketAccess,
+  TicketExportQuery,
+  TicketFileFormat,
+} from '../types/tickets.types';
+import { ticketAccessService } from '../services/ticketAccess.service';
+import { ticketFileService } from '../services/ticketFile.service';
+import { ticketOddsService } from '../services/ticketOdds.service';
+import { gameLockService } from '../services/gameLock.service';
+import { ticketCardService } from '../services/ticketCard.service';
+
+// Download a ticket as JSON (createTicketSchema input) or CSV (one row per square)
+export const exportTicket = async (req: Request, res: Response) => {
+  try {
+    const { format } = req.query as unknown as TicketExportQuery;
+    const ticket = await Ticket.findById(req.params.id);
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+
+    const access = await ticketAccessService.getAccess(
+      ticket,
+      req.user!._id.toString()
+    );
+    if (access === TicketAccess.NONE) {
+      return res
+        .status(403)
+        .json({ message: 'You do not have access to this ticket' });
+    }
+
+    res.attachment(`ticket-${ticket._id}.${format}`);
+    if (format === TicketFileFormat.CSV) {
+      return res.send(ticketFileService.toCsv(ticket));
+    }
+    res.json(ticketFileService.toDefinition(ticket));
+  } catch (error) {
+    console.error('Error exporting ticket:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Render the ticket as an image for sharing: card.svg or card.png
+export const getTicketCard = async (req: Request, res: Response) => {
+  try {
+    const ticket = await Ticket.findById(req.params.id);
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+
+    const access = await ticketAccessService.getAccess(
+      ticket,
+      req.user!._id.toString(),
+      typeof req.query.shareCode === 'string' ? req.query.shareCode : undefined
+    );
+    if (access === TicketAccess.NONE) {
+      return res
+        .status(403)
+        .json({ message: 'You do not have access to this ticket' });
+    }
+
+    if (req.params.format === 'png') {
+      res.type('png').send(await ticketCardService.renderPng(ticket));
+    } else {
+      res.type('svg').send(await ticketCardService.renderSvg(ticket));
+    }
+  } catch (error) {
+    console.error('Error rendering ticket card:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Create tickets from a JSON or CSV export. Nothing is created unless
+// every ticket is valid.
+export const importTickets = async (req: Request, res: Response) => {
+  try {
+    const body = req.body as ImportTicketsBody;
+    const { candidates, errors } =
+      body.format === TicketFileFormat.CSV
+        ? ticketFileService.fromCsv(body.csv)
+        : { candidates: ticketFileService.fromJson(body.tickets), errors: [] };
+
+    if (candidates.length > MAX_IMPORT_TICKETS) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: `At most ${MAX_IMPORT_TICKETS} tickets can be imported at once`,
+        details: [],
+      });
+    }
+
+    const validated = await ticketFileService.validate(candidates);
+    const details = [...errors, ...validated.errors];
+    if (details.length > 0 || validated.tickets.length === 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: 'Some tickets could not be imported',
+        details,
+      });
+    }
+
+    const ownerId = req.user!._id.toString();
+    const created = [];
+    for (const ticket of validated.tickets) {
+      created.push(
+        await Ticket.create({
+          ...ticket,
+          userId: ownerId,
+          squareWeights: await ticketOddsService.squareWeights(ticket.events),
+        })
+      );
+    }
+
+    res
+      .status(201)
+      .json(
+        await ticketOddsService.withTicketOdds(
+          await gameLockService.withTicketLocks(created)
+        )
+      );
+  } catch (error) {
+    console.error('Error importing tickets:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { Ticket } from '../models/tickets.model';
+import {
+  CloneTicketBody,
+  createTicketSchema,
+  TicketAccess,
+} from '../types/tickets.types';
+import { ticketShareService } from '../services/ticketShare.service';
+import { ticketFileService } from '../services/ticketFile.service';
+import { ticketValidationService } from '../services/ticketValidation.service';
+import { ticketOddsService } from '../services/ticketOdds.service';
+import { gameLockService } from '../services/gameLock.service';
+
+const SHARED_NOT_FOUND = { message: 'Shared ticket not found' };
+const FORBIDDEN_WRITE = {
+  message: 'Only the ticket owner can change this ticket',
+};
+
+// Owner-only: look up the ticket and reply 404/403 if the caller can't share it
+const findOwnTicket = async (req: Request, res: Response) => {
+  const ticket = await Ticket.findById(req.params.id);
+  if (!ticket) {
+    res.status(404).json({ message: 'Ticket not found' });
+    return null;
+  }
+  if (ticket.userId !== req.user!._id.toString()) {
+    res.status(403).json(FORBIDDEN_WRITE);
+    return null;
+  }
+  return ticket;
+};
+
+export const shareTicket = async (req: Request, res: Response) => {
+  try {
+    const ticket = await findOwnTicket(req, res);
+    if (!ticket) return;
+
+    const shareCode = await ticketShareService.share(String(ticket._id));
+    if (!shareCode) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+    res.json({ shareCode });
+  } catch (error) {
+    console.error('Error sharing ticket:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+export const unshareTicket = async (req: Request, res: Response) => {
+  try {
+    const ticket = await findOwnTicket(req, res);
+    if (!ticket) return;
+
+    await ticketShareService.unshare(String(ticket._id));
+    res.json({ message: 'Ticket is no longer shared' });
+  } catch (error) {
+    console.error('Error unsharing ticket:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Read-only view of a shared ticket, including its progress and score
+export const getSharedTicket = async (req: Request, res: Response) => {
+  try {
+    const ticket = await Ticket.findOne({ shareCode: req.params.code });
+    if (!ticket) {
+      return res.status(404).json(SHARED_NOT_FOUND);
+    }
+
+    const isOwner = ticket.userId === req.user!._id.toString();
+    const [withLock] = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks([ticket])
+    );
+    res.json({
+      ...ticketShareService.hideShareCode(withLock, isOwner),
+      access: isOwner ? TicketAccess.OWNER : TicketAccess.READ_ONLY,
+    });
+  } catch (error) {
+    console.error('Error fetching shared ticket:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Copy a shared ticket's squares into a new ticket owned by the caller,
+// for the same game or another one
+export const cloneSharedTicket = async (req: Request, res: Response) => {
+  try {
+    const { name, game } = req.body as CloneTicketBody;
+    const ticket = await Ticket.findOne({ shareCode: req.params.code });
+    if (!ticket) {
+      return res.status(404).json(SHARED_NOT_FOUND);
+    }
+
+    const original = ticketFileService.toDefinition(ticket);
+    const events =
+      game && game.id !== original.game.id
+        ? ticketShareService.retarget(original.events, original.game, game)
+        : original.events;
+
+    // Same checks as POST /api/tickets
+    const parsed = createTicketSchema.safeParse({
+      name: name ?? original.name,
+      game: game ?? original.game,
+      gridSize: original.gridSize,
+      events,
+    });
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid input data',
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const squareErrors = await ticketValidationService.validateSquares(
+      parsed.data.game,
+      parsed.data.events
+    );
+    if (squareErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: 'Ticket contains squares that can never be completed',
+        details: squareErrors,
+      });
+    }
+
+    const lock = await gameLockService.getLockState(
+      parsed.data.game.id,
+      parsed.data.game.startTimeUTC
+    );
+    if (lock.isLocked) {
+      return res
+        .status(409)
+        .json({ message: 'Ticket events are locked once the game starts' });
+    }
+
+    // A fresh card: new owner, nothing crossed off, not shared
+    const newTicket = await Ticket.create({
+      ...parsed.data,
+      userId: req.user!._id.toString(),
+      squareWeights: await ticketOddsService.squareWeights(parsed.data.events),
+    });
+
+    const [clone] = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks([newTicket])
+    );
+    res.status(201).json(clone);
+  } catch (error) {
+    console.error('Error cloning shared ticket:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { Ticket } from '../models/tickets.model';
+import { ticketTemplatesModel } from '../models/ticketTemplates.model';
+import {
+  CreateTemplateBody,
+  CreateTicketFromTemplateBody,
+  createTicketSchema,
+} from '../types/tickets.types';
+import { ticketTemplateService } from '../services/ticketTemplate.service';
+import { ticketValidationService } from '../services/ticketValidation.service';
+import { gameLockService } from '../services/gameLock.service';
+import { ticketOddsService } from '../services/ticketOdds.service';
+
+const TEMPLATE_NOT_FOUND = { message: 'Template not found' };
+
+export const createTemplate = async (req: Request, res: Response) => {
+  try {
+    const template = await ticketTemplatesModel.create(
+      req.body as CreateTemplateBody,
+      req.user!._id.toString()
+    );
+    res.status(201).json(template);
+  } catch (error) {
+    console.error('Error creating ticket template:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+export const getTemplates = async (req: Request, res: Response) => {
+  try {
+    const templates = await ticketTemplatesModel.findByUserId(
+      req.user!._id.toString()
+    );
+    res.json(templates);
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+export const deleteTemplate = async (req: Request, res: Response) => {
+  try {
+    const deleted = await ticketTemplatesModel.delete(
+      req.params.id,
+      req.user!._id.toString()
+    );
+    if (!deleted) {
+      return res.status(404).json(TEMPLATE_NOT_FOUND);
+    }
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Build a ticket for a game from one of the user's templates
+export const createTicketFromTemplate = async (req: Request, res: Response) => {
+  try {
+    const { templateId, name, game } = req.body as CreateTicketFromTemplateBody;
+    const ownerId = req.user!._id.toString();
+
+    // Templates are private, so someone else's looks the same as a missing one
+    const template = await ticketTemplatesModel.findById(templateId);
+    if (!template || template.userId !== ownerId) {
+      return res.status(404).json(TEMPLATE_NOT_FOUND);
+    }
+
+    const resolved = await ticketTemplateService.resolve(template, game);
+    if (resolved.errors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: 'Template could not be resolved for this game',
+        details: resolved.errors,
+      });
+    }
+
+    // Same checks as POST /api/tickets
+    const parsed = createTicketSchema.safeParse({
+      name: name ?? template.name,
+      game,
+      gridSize: template.gridSize,
+      events: resolved.events,
+    });
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: 'Invalid input data',
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const squareErrors = await ticketValidationService.validateSquares(
+      game,
+      parsed.data.events
+    );
+    if (squareErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: 'Ticket contains squares that can never be completed',
+        details: squareErrors,
+      });
+    }
+
+    const lock = await gameLockService.getLockState(game.id, game.startTimeUTC);
+    if (lock.isLocked) {
+      return res
+        .status(409)
+        .json({ message: 'Ticket events are locked once the game starts' });
+    }
+
+    const newTicket = await Ticket.create({
+      ...parsed.data,
+      userId: ownerId,
+      squareWeights: await ticketOddsService.squareWeights(parsed.data.events),
+    });
+
+    const [ticket] = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks([newTicket])
+    );
+    res.status(201).json(ticket);
+  } catch (error) {
+    console.error('Error creating ticket from template:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
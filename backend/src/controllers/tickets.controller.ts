@@ -1,32 +1,186 @@
 import { Request, Response } from 'express';
 import { Ticket } from '../models/tickets.model';
-import { TicketType } from '../types/tickets.types';
-import { computeTicketScore } from '../utils/score.util';
+import {
+  CreateTicketBody,
+  DEFAULT_GRID_SIZE,
+  GenerateTicketBody,
+  EVENT_CATALOGUE,
+  MAX_PERIOD,
+  TicketAccess,
+  TicketHistorySource,
+  TicketListQuery,
+} from '../types/tickets.types';
+import { computeTicketScore, SCORING_PROFILES } from '../utils/score.util';
+import { leaderboardService } from '../services/leaderboard.service';
+import { ticketValidationService } from '../services/ticketValidation.service';
+import { gameLockService } from '../services/gameLock.service';
+import { ticketHistoryModel } from '../models/ticketHistory.model';
+import { challengeModel } from '../models/challenges.model';
+import { ticketAccessService } from '../services/ticketAccess.service';
+import { ticketGeneratorService } from '../services/ticketGenerator.service';
+import { ticketOddsService } from '../services/ticketOdds.service';
+import { ticketQueryService } from '../services/ticketQuery.service';
+import { ticketShareService } from '../services/ticketShare.service';
+
+const FORBIDDEN_READ = { message: 'You do not have access to this ticket' };
+const FORBIDDEN_WRITE = {
+  message: 'Only the ticket owner can change this ticket',
+};
 
 export const createBingoTicket = async (req: Request, res: Response) => {
   try {
-    const { userId, name, game, events } = req.body as TicketType;
+    const { userId, name, game, events, gridSize } =
+      req.body as CreateTicketBody;
+    const ownerId = req.user!._id.toString();
+
+    if (userId && userId !== ownerId) {
+      return res
+        .status(403)
+        .json({ message: 'Cannot create tickets for another user' });
+    }
+
+    // Teams and players must belong to this game
+    const squareErrors = await ticketValidationService.validateSquares(
+      game,
+      events
+    );
+    if (squareErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation error',
+        message: 'Ticket contains squares that can never be completed',
+        details: squareErrors,
+      });
+    }
+
+    // Same rule as edits and imports: no new squares once the game starts
+    const lock = await gameLockService.getLockState(game.id, game.startTimeUTC);
+    if (lock.isLocked) {
+      return res
+        .status(409)
+        .json({ message: 'Ticket events are locked once the game starts' });
+    }
 
     // create simple ticket
     const newTicket = await Ticket.create({
-      userId,
+      userId: ownerId,
       name,
       game,
+      gridSize,
       events,
+      squareWeights: await ticketOddsService.squareWeights(events),
     });
 
-    res.status(201).json(newTicket);
+    const [ticket] = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks([newTicket])
+    );
+    res.status(201).json(ticket);
   } catch (error) {
     console.error('Error creating bingo ticket:', error);
     res.status(500).json({ message: 'Server error' });
   }
 };
 
+// Build a balanced card for a game at the requested difficulty
+export const generateTicket = async (req: Request, res: Response) => {
+  try {
+    const { name, game, difficulty, gridSize } = req.body as GenerateTicketBody;
+
+    // Same rule as hand-built tickets: no new tickets once the game starts
+    const lock = await gameLockService.getLockState(game.id, game.startTimeUTC);
+    if (lock.isLocked) {
+      return res
+        .status(409)
+        .json({ message: 'Ticket events are locked once the game starts' });
+    }
+
+    const events = await ticketGeneratorService.generate(
+      game,
+      difficulty,
+      gridSize
+    );
+
+    const newTicket = await Ticket.create({
+      userId: req.user!._id.toString(),
+      name:
+        name ??
+        `${game.awayTeam.abbrev} @ ${game.homeTeam.abbrev} (${difficulty})`,
+      game,
+      gridSize,
+      events,
+      squareWeights: await ticketOddsService.squareWeights(events),
+    });
+
+    const [ticket] = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks([newTicket])
+    );
+    res.status(201).json(ticket);
+  } catch (error) {
+    // Small rosters cannot always fill a large grid
+    if (
+      error instanceof Error &&
+      error.message === 'Not enough distinct squares to fill the ticket'
+    ) {
+      return res.status(422).json({ message: error.message });
+    }
+    console.error('Error generating bingo ticket:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Valid subjects, comparisons and threshold ranges for the ticket builder
+export const getEventCatalogue = async (req: Request, res: Response) => {
+  res.json({ categories: EVENT_CATALOGUE, maxPeriod: MAX_PERIOD });
+};
+
+// Filters, sorting and cursor pagination come from the query string; the
+// cursor for the next page (if any) is returned in X-Next-Cursor
 export const getUserTickets = async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
-    const tickets = await Ticket.find({ userId }).sort({ createdAt: -1 });
-    res.json(tickets);
+    const viewerId = req.user!._id.toString();
+    const query = req.query as unknown as TicketListQuery;
+
+    const cursor = query.cursor
+      ? ticketQueryService.decodeCursor(query.cursor, query.sort)
+      : null;
+    if (query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    // Other users only see the tickets entered in challenges shared with them
+    const visibleIds =
+      userId !== viewerId
+        ? await ticketAccessService.getSharedTicketIds(userId, viewerId)
+        : undefined;
+
+    const filter = await ticketQueryService.buildFilter(
+      userId,
+      query,
+      cursor,
+      visibleIds
+    );
+    const find = Ticket.find(filter).sort(ticketQueryService.sortFor(query));
+    // One extra ticket tells us whether there is another page
+    const tickets = query.limit
+      ? await find.limit(query.limit + 1)
+      : await find;
+
+    if (query.limit && tickets.length > query.limit) {
+      tickets.length = query.limit;
+      res.set(
+        'X-Next-Cursor',
+        ticketQueryService.encodeCursor(tickets[tickets.length - 1], query.sort)
+      );
+    }
+
+    const withOdds = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks(tickets)
+    );
+    res.json(
+      withOdds.map(ticket =>
+        ticketShareService.hideShareCode(ticket, userId === viewerId)
+      )
+    );
   } catch (error) {
     res.status(500).json({ message: 'Server error' });
   }
@@ -39,7 +193,26 @@ export const getTicketById = async (req: Request, res: Response) => {
     if (!ticket) {
       return res.status(404).json({ message: 'Ticket not found' });
     }
-    res.json(ticket);
+
+    const access = await ticketAccessService.getAccess(
+      ticket,
+      req.user!._id.toString(),
+      typeof req.query.shareCode === 'string' ? req.query.shareCode : undefined
+    );
+    if (access === TicketAccess.NONE) {
+      return res.status(403).json(FORBIDDEN_READ);
+    }
+
+    const [withLock] = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks([ticket])
+    );
+    res.json({
+      ...ticketShareService.hideShareCode(
+        withLock,
+        access === TicketAccess.OWNER
+      ),
+      access,
+    });
   } catch (error) {
     console.error('Error fetching ticket:', error);
     res.status(500).json({ message: 'Server error' });
@@ -49,6 +222,36 @@ export const getTicketById = async (req: Request, res: Response) => {
 export const deleteTicket = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const ticket = await Ticket.findById(id);
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+    if (ticket.userId !== req.user!._id.toString()) {
+      return res.status(403).json(FORBIDDEN_WRITE);
+    }
+    if (ticket.isFinalized) {
+      return res
+        .status(409)
+        .json({ message: 'Ticket is finalized and cannot be changed' });
+    }
+
+    // Challenge entries are frozen once the game starts, tickets included
+    const entered = await challengeModel.findByTicket(ticket.userId, id);
+    if (
+      entered.length > 0 &&
+      (
+        await gameLockService.getLockState(
+          ticket.game?.id,
+          ticket.game?.startTimeUTC
+        )
+      ).isLocked
+    ) {
+      return res.status(409).json({
+        message:
+          'Ticket is entered in a challenge and cannot be deleted once the game starts',
+      });
+    }
+
     const deleted = await Ticket.findByIdAndDelete(id);
     if (!deleted) {
       return res.status(404).json({ message: 'Ticket not found' });
@@ -65,11 +268,53 @@ export const updateCrossedOff = async (req: Request, res: Response) => {
     // Handle either { crossedOff: [...] } or [...] directly
     const crossedOff = Array.isArray(req.body) ? req.body : req.body.crossedOff;
 
-    if (!Array.isArray(crossedOff)) {
+    if (
+      !Array.isArray(crossedOff) ||
+      !crossedOff.every(square => typeof square === 'boolean')
+    ) {
       return res.status(400).json({ message: 'Invalid crossedOff format' });
     }
 
-    const score = computeTicketScore(crossedOff);
+    const ticket = await Ticket.findById(id);
+    if (!ticket) return res.status(404).json({ message: 'Ticket not found' });
+    if (ticket.userId !== req.user!._id.toString()) {
+      return res.status(403).json(FORBIDDEN_WRITE);
+    }
+    if (ticket.isFinalized) {
+      return res
+        .status(409)
+        .json({ message: 'Ticket is finalized and cannot be changed' });
+    }
+
+    // Once the game starts, or once the ticket competes in a challenge, only
+    // the evaluator may cross squares off
+    const lock = await gameLockService.getLockState(
+      ticket.game?.id,
+      ticket.game?.startTimeUTC
+    );
+    if (
+      lock.isLocked ||
+      (await challengeModel.findByTicket(ticket.userId, id)).length > 0
+    ) {
+      return res.status(409).json({
+        message:
+          'Squares are crossed off automatically once the game starts or the ticket is in a challenge',
+      });
+    }
+
+    const gridSize = ticket.gridSize ?? DEFAULT_GRID_SIZE;
+    if (crossedOff.length !== gridSize * gridSize) {
+      return res.status(400).json({
+        message: `crossedOff must have ${gridSize * gridSize} entries`,
+      });
+    }
+
+    const score = computeTicketScore(
+      crossedOff,
+      gridSize,
+      SCORING_PROFILES.classic,
+      ticket.squareWeights ?? undefined
+    );
     const updated = await Ticket.findByIdAndUpdate(
       id,
       { crossedOff, score },
@@ -77,8 +322,47 @@ export const updateCrossedOff = async (req: Request, res: Response) => {
     );
     if (!updated) return res.status(404).json({ message: 'Ticket not found' });
 
-    res.json(updated);
+    await ticketHistoryModel.record(
+      { ticketId: id, userId: updated.userId },
+      {
+        before: ticket.crossedOff,
+        after: crossedOff,
+        scoreBefore: ticket.score ?? undefined,
+        scoreAfter: score,
+        source: TicketHistorySource.MANUAL,
+      }
+    );
+    await leaderboardService.publishForTicket(updated.userId, id);
+
+    const [withLock] = await ticketOddsService.withTicketOdds(
+      await gameLockService.withTicketLocks([updated])
+    );
+    res.json(withLock);
   } catch (err) {
     res.status(500).json({ error: (err as Error).message });
   }
 };
+
+export const getTicketHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const ticket = await Ticket.findById(id);
+    if (!ticket) {
+      return res.status(404).json({ message: 'Ticket not found' });
+    }
+
+    const access = await ticketAccessService.getAccess(
+      ticket,
+      req.user!._id.toString()
+    );
+    if (access === TicketAccess.NONE) {
+      return res.status(403).json(FORBIDDEN_READ);
+    }
+
+    const history = await ticketHistoryModel.findByTicketId(id);
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching ticket history:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
@@ -2,8 +2,10 @@ import { NextFunction, Request, Response } from 'express';
 
 import logger from '../utils/logger.util';
 import { MediaService } from '../services/media.service';
+import { userStatsService } from '../services/userStats.service';
 import {
   GetProfileResponse,
+  GetUserStatsResponse,
   PublicUserInfo,
   UpdateProfileRequest,
 } from '../types/user.types';
@@ -53,6 +55,41 @@ export class UserController {
     }
   }
 
+  // get ticket and challenge statistics for a user's profile
+  async getUserStats(
+    req: Request,
+    res: Response<GetUserStatsResponse>,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.params.id;
+      const userInfo = await userModel.findUserInfoById(userId);
+
+      if (!userInfo) {
+        return res.status(404).json({
+          message: 'User not found',
+        });
+      }
+
+      const stats = await userStatsService.getStats(userId);
+
+      res.status(200).json({
+        message: 'User stats fetched successfully',
+        data: { stats },
+      });
+    } catch (error) {
+      logger.error('Failed to fetch user stats:', error);
+
+      if (error instanceof Error) {
+        return res.status(500).json({
+          message: error.message || 'Failed to fetch user stats',
+        });
+      }
+
+      next(error);
+    }
+  }
+
   async updateProfile(
     req: Request<unknown, unknown, UpdateProfileRequest>,
     res: Response<GetProfileResponse>,
@@ -10,6 +10,7 @@ import {
 import router from './routes/routes';
 import SocketService from './services/socket.service';
 import { gameStatusSyncJob } from './jobs/gameStatusSync.job';
+import { ticketEvaluationJob } from './jobs/ticketEvaluation.job';
 import path from 'path';
 
 dotenv.config();
@@ -43,4 +44,8 @@ server.listen(PORT, () => {
   // Poll every 60 seconds (1 minute)
   gameStatusSyncJob.start(60000);
   console.log(`🏒 Game status sync job started`);
+
+  // Evaluate bingo squares for live games against NHL boxscores
+  ticketEvaluationJob.start(60000);
+  console.log(`🎯 Ticket evaluation job started`);
 });
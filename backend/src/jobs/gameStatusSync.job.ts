@@ -4,7 +4,9 @@ import {
   ChallengeStatusType,
 } from '../types/challenges.types';
 import { nhlService } from '../services/nhl.service';
-import SocketEvents from '../utils/socket.events';
+import { challengeStatusService } from '../services/challengeStatus.service';
+import { challengeInvitationService } from '../services/challengeInvitation.service';
+import { challengeFinalizationService } from '../services/challengeFinalization.service';
 import logger from '../utils/logger.util';
 
 export class GameStatusSyncJob {
@@ -59,6 +61,12 @@ export class GameStatusSyncJob {
     try {
       logger.debug('🔄 Running game status sync...');
 
+      // Expired invitations free their seats and may let a pending challenge start
+      await challengeInvitationService.expireStale();
+
+      // Retry finished challenges whose finalization failed
+      await this.finalizeUnfinalized();
+
       // Get all challenges that need status checking
       // Only check PENDING, ACTIVE, and LIVE challenges
       const challenges = await challengeModel.findAll(1, 1000); // Get up to 1000 challenges
@@ -96,6 +104,34 @@ export class GameStatusSyncJob {
     }
   }
 
+  /**
+   * Finalize finished challenges that have no stored result yet
+   */
+  async finalizeUnfinalized() {
+    try {
+      const challenges = await challengeModel.findUnfinalized();
+      if (challenges.length === 0) {
+        return;
+      }
+
+      logger.info(`Finalizing ${challenges.length} finished challenge(s)`);
+      await Promise.all(
+        challenges.map(challenge =>
+          challengeFinalizationService
+            .finalize(challenge)
+            .catch(error =>
+              logger.error(
+                `Error finalizing challenge ${challenge.id}:`,
+                error instanceof Error ? error.message : error
+              )
+            )
+        )
+      );
+    } catch (error) {
+      logger.error('Error finalizing finished challenges:', error);
+    }
+  }
+
   /**
    * Update status for a single challenge based on game state
    */
@@ -137,30 +173,22 @@ export class GameStatusSyncJob {
         );
       }
 
-      // Update challenge if status changed
+      // Move the challenge along its lifecycle; the status service notifies
+      // members and finalizes finished challenges
       if (newStatus) {
-        const updatedChallenge = await challengeModel.update(challenge.id, {
-          status: newStatus,
-        });
-
-        if (updatedChallenge) {
-          // Emit socket event to notify all members
-          SocketEvents.challengeStatusChanged(
-            challenge.id,
-            newStatus,
-            updatedChallenge
-          );
-
-          // Also notify members individually
-          if (updatedChallenge.memberIds?.length > 0) {
-            logger.info(
-              `Notifying ${updatedChallenge.memberIds.length} member(s) of status change`
-            );
-          }
+        const result = await challengeStatusService.advanceTo(
+          challenge,
+          newStatus
+        );
 
+        if (result.success) {
           logger.info(
             `✅ Challenge ${challenge.id} status updated: ${challenge.status} → ${newStatus}`
           );
+        } else {
+          logger.warn(
+            `Challenge ${challenge.id} not updated to ${newStatus}: ${result.message}`
+          );
         }
       } else {
         logger.debug(
@@ -0,0 +1,112 @@
+import { Ticket } from '../models/tickets.model';
+import { nhlService } from '../services/nhl.service';
+import { GAME_WINDOW_MS } from '../services/gameLock.service';
+import { ticketEvaluatorService } from '../services/ticketEvaluator.service';
+import logger from '../utils/logger.util';
+
+export class TicketEvaluationJob {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private readonly DEFAULT_INTERVAL = 60000; // 1 minute default
+
+  /**
+   * Start the ticket evaluation job
+   * @param interval - Polling interval in milliseconds (default: 60000ms = 1 minute)
+   */
+  start(interval: number = this.DEFAULT_INTERVAL) {
+    if (this.isRunning) {
+      logger.warn('Ticket evaluation job is already running');
+      return;
+    }
+
+    logger.info(
+      `🎯 Starting ticket evaluation job (interval: ${interval / 1000}s)`
+    );
+    this.isRunning = true;
+
+    // Run immediately on start
+    this.evaluateLiveGames().catch(error => {
+      logger.error('Error in initial ticket evaluation:', error);
+    });
+
+    // Then run on interval
+    this.intervalId = setInterval(() => {
+      this.evaluateLiveGames().catch(error => {
+        logger.error('Error in ticket evaluation interval:', error);
+      });
+    }, interval);
+  }
+
+  /**
+   * Stop the ticket evaluation job
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.isRunning = false;
+      logger.info('🛑 Ticket evaluation job stopped');
+    }
+  }
+
+  /**
+   * Evaluate tickets for every game that is live (or just finished)
+   */
+  async evaluateLiveGames() {
+    try {
+      logger.debug('🔄 Running ticket evaluation...');
+
+      // startTimeUTC is stored as an ISO string, so a string range works.
+      // Older tickets were saved without it; keep checking their games until
+      // the tickets are finalized, and let the NHL status decide.
+      const now = new Date();
+      const windowStart = new Date(now.getTime() - GAME_WINDOW_MS);
+      const [recentGameIds, undatedGameIds]: number[][] = await Promise.all([
+        Ticket.distinct('game.id', {
+          'game.startTimeUTC': {
+            $gte: windowStart.toISOString(),
+            $lte: now.toISOString(),
+          },
+        }),
+        Ticket.distinct('game.id', {
+          'game.startTimeUTC': { $exists: false },
+          isFinalized: { $ne: true },
+        }),
+      ]);
+      const gameIds = [...new Set([...recentGameIds, ...undatedGameIds])];
+
+      if (gameIds.length === 0) {
+        logger.debug('No games with tickets require evaluation');
+        return;
+      }
+
+      const evaluations = gameIds.map(async gameId => {
+        const gameStatus = await nhlService.getGameStatus(gameId.toString());
+        if (!gameStatus || !(gameStatus.isLive || gameStatus.isFinished)) {
+          return;
+        }
+        await ticketEvaluatorService.evaluateGame(gameId.toString());
+      });
+
+      await Promise.allSettled(evaluations);
+
+      logger.debug('✅ Ticket evaluation completed');
+    } catch (error) {
+      logger.error('Error evaluating tickets:', error);
+    }
+  }
+
+  /**
+   * Get job status
+   */
+  getStatus() {
+    return {
+      isRunning: this.isRunning,
+      interval: this.intervalId ? this.DEFAULT_INTERVAL : null,
+    };
+  }
+}
+
+// Export singleton instance
+export const ticketEvaluationJob = new TicketEvaluationJob();
+export default ticketEvaluationJob;
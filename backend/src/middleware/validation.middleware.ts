@@ -9,21 +9,37 @@ export const validateBody = <T>(schema: z.ZodSchema<T>): RequestHandler => {
       req.body = validatedData;
       next();
     } catch (error) {
-      if (error instanceof ZodError) {
-        return res.status(400).json({
-          error: 'Validation error',
-          message: 'Invalid input data',
-          details: error.issues.map(issue => ({
-            field: issue.path.join('.'),
-            message: issue.message,
-          })),
-        });
-      }
+      return handleValidationError(error, res);
+    }
+  };
+};
 
-      return res.status(500).json({
-        error: 'Internal server error',
-        message: 'Validation processing failed',
-      });
+// Same as validateBody, for the query string
+export const validateQuery = <T>(schema: z.ZodSchema<T>): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      req.query = schema.parse(req.query) as Request['query'];
+      next();
+    } catch (error) {
+      return handleValidationError(error, res);
     }
   };
 };
+
+const handleValidationError = (error: unknown, res: Response) => {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      error: 'Validation error',
+      message: 'Invalid input data',
+      details: error.issues.map(issue => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })),
+    });
+  }
+
+  return res.status(500).json({
+    error: 'Internal server error',
+    message: 'Validation processing failed',
+  });
+};
@@ -0,0 +1,257 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+  IChallengeInvitation,
+  INVITATION_EXPIRY_MS,
+  InvitationStatus,
+  InvitationStatusType,
+} from '../types/challenges.types';
+import logger from '../utils/logger.util';
+
+const challengeInvitationSchema = new Schema<IChallengeInvitation>(
+  {
+    challengeId: { type: String, required: true },
+    invitedUserId: { type: String, required: true },
+    invitedUserName: { type: String, default: 'Unknown User' },
+    invitedByUserId: { type: String, required: true },
+    status: {
+      type: String,
+      enum: Object.values(InvitationStatus),
+      default: InvitationStatus.PENDING,
+    },
+    expiresAt: { type: Date, required: true },
+    respondedAt: { type: Date },
+    resendCount: { type: Number, default: 0 },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// One invitation per challenge and user; inviting again reopens it
+challengeInvitationSchema.index(
+  { challengeId: 1, invitedUserId: 1 },
+  { unique: true }
+);
+challengeInvitationSchema.index({ invitedUserId: 1, createdAt: -1 });
+
+const newExpiry = () => new Date(Date.now() + INVITATION_EXPIRY_MS);
+
+// Pending and still answerable
+const openFilter = () => ({
+  status: InvitationStatus.PENDING,
+  expiresAt: { $gt: new Date() },
+});
+
+export class ChallengeInvitationsModel {
+  private invitation: mongoose.Model<IChallengeInvitation>;
+
+  constructor() {
+    this.invitation = mongoose.model<IChallengeInvitation>(
+      'ChallengeInvitation',
+      challengeInvitationSchema
+    );
+  }
+
+  // Create (or reopen) pending invitations for the given users
+  async invite(
+    challengeId: string,
+    invitedByUserId: string,
+    userIds: string[]
+  ): Promise<void> {
+    try {
+      // Get invited users' names
+      const User = mongoose.model('User');
+      const users = await User.find({ _id: { $in: userIds } });
+      const names = new Map(
+        users.map(u => [u._id.toString(), u.name || 'Unknown User'])
+      );
+
+      await this.invitation.bulkWrite(
+        userIds.map(userId => ({
+          updateOne: {
+            filter: { challengeId, invitedUserId: userId },
+            update: {
+              $set: {
+                invitedUserName: names.get(userId) ?? 'Unknown User',
+                invitedByUserId,
+                status: InvitationStatus.PENDING,
+                expiresAt: newExpiry(),
+                resendCount: 0,
+              },
+              $unset: { respondedAt: '' },
+            },
+            upsert: true,
+          },
+        }))
+      );
+    } catch (error) {
+      logger.error('Error creating challenge invitations:', error);
+      throw new Error('Failed to create challenge invitations');
+    }
+  }
+
+  // Find the invitation a user has for a challenge, whatever its status
+  async findOne(
+    challengeId: string,
+    userId: string
+  ): Promise<IChallengeInvitation | null> {
+    try {
+      return await this.invitation.findOne({
+        challengeId,
+        invitedUserId: userId,
+      });
+    } catch (error) {
+      logger.error('Error finding challenge invitation:', error);
+      throw new Error('Failed to find challenge invitation');
+    }
+  }
+
+  // The user's pending, unexpired invitation to a challenge, if any
+  async findOpen(
+    challengeId: string,
+    userId: string
+  ): Promise<IChallengeInvitation | null> {
+    try {
+      return await this.invitation.findOne({
+        challengeId,
+        invitedUserId: userId,
+        ...openFilter(),
+      });
+    } catch (error) {
+      logger.error('Error finding open challenge invitation:', error);
+      throw new Error('Failed to find open challenge invitation');
+    }
+  }
+
+  // Pending, unexpired invitations for a challenge, oldest first
+  async findOpenByChallenge(
+    challengeId: string
+  ): Promise<IChallengeInvitation[]> {
+    try {
+      return await this.invitation
+        .find({ challengeId, ...openFilter() })
+        .sort({ createdAt: 1 });
+    } catch (error) {
+      logger.error('Error finding open challenge invitations:', error);
+      throw new Error('Failed to find open challenge invitations');
+    }
+  }
+
+  // A user's invitations, newest first, optionally with one status
+  async findByUser(
+    userId: string,
+    status?: InvitationStatusType
+  ): Promise<IChallengeInvitation[]> {
+    try {
+      const query: any = { invitedUserId: userId };
+      if (status) {
+        query.status = status;
+      }
+      return await this.invitation
+        .find(query)
+        .sort({ createdAt: -1 })
+        .lean<IChallengeInvitation[]>();
+    } catch (error) {
+      logger.error('Error finding user invitations:', error);
+      throw new Error('Failed to find user invitations');
+    }
+  }
+
+  /**
+   * Answer an open invitation (accepted or declined) or withdraw it (revoked).
+   * Returns null if there is no open invitation.
+   */
+  async respond(
+    challengeId: string,
+    userId: string,
+    status: InvitationStatusType
+  ): Promise<IChallengeInvitation | null> {
+    try {
+      return await this.invitation.findOneAndUpdate(
+        { challengeId, invitedUserId: userId, ...openFilter() },
+        { status, respondedAt: new Date() },
+        { new: true }
+      );
+    } catch (error) {
+      logger.error('Error responding to challenge invitation:', error);
+      throw new Error('Failed to respond to challenge invitation');
+    }
+  }
+
+  // Close every open invitation to a challenge at once
+  async closeAll(
+    challengeId: string,
+    status: InvitationStatusType
+  ): Promise<void> {
+    try {
+      await this.invitation.updateMany(
+        { challengeId, ...openFilter() },
+        { status, respondedAt: new Date() }
+      );
+    } catch (error) {
+      logger.error('Error closing challenge invitations:', error);
+      throw new Error('Failed to close challenge invitations');
+    }
+  }
+
+  // Restart the expiry of a pending or expired invitation
+  async resend(
+    challengeId: string,
+    userId: string
+  ): Promise<IChallengeInvitation | null> {
+    try {
+      return await this.invitation.findOneAndUpdate(
+        {
+          challengeId,
+          invitedUserId: userId,
+          status: { $in: [InvitationStatus.PENDING, InvitationStatus.EXPIRED] },
+        },
+        {
+          $set: { status: InvitationStatus.PENDING, expiresAt: newExpiry() },
+          $inc: { resendCount: 1 },
+        },
+        { new: true }
+      );
+    } catch (error) {
+      logger.error('Error resending challenge invitation:', error);
+      throw new Error('Failed to resend challenge invitation');
+    }
+  }
+
+  /**
+   * Mark pending invitations past their expiry, optionally only one user's or
+   * one challenge's. Returns the affected challenges.
+   */
+  async expireStale(
+    scope: { userId?: string; challengeId?: string } = {}
+  ): Promise<string[]> {
+    try {
+      const query: any = {
+        status: InvitationStatus.PENDING,
+        expiresAt: { $lte: new Date() },
+      };
+      if (scope.userId) {
+        query.invitedUserId = scope.userId;
+      }
+      if (scope.challengeId) {
+        query.challengeId = scope.challengeId;
+      }
+
+      const challengeIds: string[] = await this.invitation.distinct(
+        'challengeId',
+        query
+      );
+      if (challengeIds.length > 0) {
+        await this.invitation.updateMany(query, {
+          status: InvitationStatus.EXPIRED,
+        });
+      }
+      return challengeIds;
+    } catch (error) {
+      logger.error('Error expiring challenge invitations:', error);
+      throw new Error('Failed to expire challenge invitations');
+    }
+  }
+}
+
+export const challengeInvitationsModel = new ChallengeInvitationsModel();
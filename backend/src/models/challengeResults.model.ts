@@ -0,0 +1,102 @@
+import mongoose, { Schema } from 'mongoose';
+import { IChallengeResult } from '../types/challenges.types';
+import logger from '../utils/logger.util';
+
+const challengeResultSchema = new Schema<IChallengeResult>({
+  challengeId: {
+    type: String,
+    required: true,
+    unique: true, // One result per challenge
+    immutable: true,
+  },
+  gameId: {
+    type: String,
+    required: true,
+    immutable: true,
+  },
+  standings: {
+    type: [Object],
+    required: true,
+    immutable: true,
+  },
+  winnerIds: {
+    type: [String],
+    default: [],
+    immutable: true,
+  },
+  podium: {
+    type: [Object],
+    default: [],
+    immutable: true,
+  },
+  finalizedAt: {
+    type: Date,
+    default: Date.now,
+    immutable: true,
+  },
+});
+
+// Results are write-once: reject any update or delete query
+const rejectWrite = () => {
+  throw new Error('Challenge results are immutable');
+};
+challengeResultSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  rejectWrite
+);
+
+export class ChallengeResultsModel {
+  private result: mongoose.Model<IChallengeResult>;
+
+  constructor() {
+    this.result = mongoose.model<IChallengeResult>(
+      'ChallengeResult',
+      challengeResultSchema
+    );
+  }
+
+  // Store the result for a challenge
+  async create(data: IChallengeResult): Promise<IChallengeResult> {
+    try {
+      return await this.result.create(data);
+    } catch (error) {
+      logger.error('Error creating challenge result:', error);
+      throw new Error('Failed to create challenge result');
+    }
+  }
+
+  // Find the result for a challenge
+  async findByChallengeId(
+    challengeId: string
+  ): Promise<IChallengeResult | null> {
+    try {
+      return await this.result.findOne({ challengeId });
+    } catch (error) {
+      logger.error('Error finding challenge result:', error);
+      throw new Error('Failed to find challenge result');
+    }
+  }
+
+  // Find the results for several challenges; unfinalized ones are missing
+  async findByChallengeIds(
+    challengeIds: string[]
+  ): Promise<IChallengeResult[]> {
+    try {
+      return await this.result.find({ challengeId: { $in: challengeIds } });
+    } catch (error) {
+      logger.error('Error finding challenge results:', error);
+      throw new Error('Failed to find challenge results');
+    }
+  }
+}
+
+export const challengeResultsModel = new ChallengeResultsModel();
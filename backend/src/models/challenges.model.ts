@@ -1,12 +1,26 @@
 import mongoose, { Schema } from 'mongoose';
+import { randomInt } from 'crypto';
 import {
   createChallengeSchema,
   IChallenge,
   updateChallengeSchema,
   ChallengeStatus,
+  ChallengeStatusType,
   joinChallengeSchema,
+  inviteUserSchema,
+  transferOwnershipSchema,
+  joinByCodeSchema,
+  ScoringProfile,
+  ChallengeVisibility,
+  ChallengeVisibilityType,
+  DiscoverChallengesQuery,
+  JOIN_CODE_ALPHABET,
+  JOIN_CODE_LENGTH,
+  JOINABLE_STATUSES,
 } from '../types/challenges.types';
+import { Game } from '../types/tickets.types';
 import logger from '../utils/logger.util';
+import { resolveScoringWeights, SCORING_PROFILES } from '../utils/score.util';
 import z from 'zod';
 import { log } from 'console';
 
@@ -14,6 +28,33 @@ import { log } from 'console';
 export type CreateChallengeInput = z.infer<typeof createChallengeSchema>;
 export type UpdateChallengeInput = z.infer<typeof updateChallengeSchema>;
 export type JoinChallengeInput = z.infer<typeof joinChallengeSchema>;
+export type InviteUserInput = z.infer<typeof inviteUserSchema>;
+export type TransferOwnershipInput = z.infer<typeof transferOwnershipSchema>;
+export type JoinByCodeInput = z.infer<typeof joinByCodeSchema>;
+
+// Someone looking for challenges, with the friends whose challenges they may see
+export type ChallengeViewer = { userId: string; friendIds: string[] };
+
+// Public challenges, friends-only ones owned by a friend, and any the viewer
+// owns, joined or was invited to
+const visibleTo = (viewer: ChallengeViewer) => ({
+  $or: [
+    { visibility: ChallengeVisibility.PUBLIC },
+    {
+      visibility: ChallengeVisibility.FRIENDS_ONLY,
+      ownerId: { $in: viewer.friendIds },
+    },
+    { ownerId: viewer.userId },
+    { memberIds: viewer.userId },
+    { invitedUserIds: viewer.userId },
+  ],
+});
+
+const generateJoinCode = (): string =>
+  Array.from(
+    { length: JOIN_CODE_LENGTH },
+    () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+  ).join('');
 
 const challengeSchema = new Schema<IChallenge>(
   {
@@ -46,6 +87,20 @@ const challengeSchema = new Schema<IChallenge>(
       enum: Object.values(ChallengeStatus),
       default: ChallengeStatus.PENDING,
     },
+    visibility: {
+      type: String,
+      enum: Object.values(ChallengeVisibility),
+      default: ChallengeVisibility.PRIVATE,
+    },
+    joinCode: {
+      type: String,
+      unique: true,
+      sparse: true, // Only private challenges have one
+    },
+    teamAbbrevs: {
+      type: [String],
+      default: [],
+    },
     memberIds: {
       type: [String],
       default: [],
@@ -75,6 +130,24 @@ const challengeSchema = new Schema<IChallenge>(
     gameStartTime: {
       type: Date,
     },
+    scoring: {
+      profile: {
+        type: String,
+        enum: Object.values(ScoringProfile),
+        default: ScoringProfile.CLASSIC,
+      },
+      weights: {
+        perSquare: {
+          type: Number,
+          default: SCORING_PROFILES.classic.perSquare,
+        },
+        perLine: { type: Number, default: SCORING_PROFILES.classic.perLine },
+        fullCardBonus: {
+          type: Number,
+          default: SCORING_PROFILES.classic.fullCardBonus,
+        },
+      },
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -101,25 +174,47 @@ export class ChallengesModel {
       const owner = await User.findOne({ _id: ownerId });
       const ownerName = owner?.name || 'Unknown User';
 
-      // Get invited users' names if there are invited users
-      let invitedUserNames: string[] = [];
-      if (validated.invitedUserIds && validated.invitedUserIds.length > 0) {
-        const invitedUsers = await User.find({
-          _id: { $in: validated.invitedUserIds },
-        });
-        invitedUserNames = invitedUsers.map(u => u.name || 'Unknown User');
-      }
+      // The owner's ticket tells us which teams are playing, for discovery
+      const ticket = validated.ticketId
+        ? await this.findEntryTicket(
+            validated.ticketId,
+            ownerId,
+            validated.gameId
+          )
+        : null;
+      const game = ticket?.game;
+
+      const scoringProfile =
+        validated.scoring?.profile ?? ScoringProfile.CLASSIC;
 
       const challengeData = {
         ...validated,
         id: new mongoose.Types.ObjectId().toString(),
         ownerId,
         status: ChallengeStatus.PENDING,
+        joinCode:
+          validated.visibility === ChallengeVisibility.PRIVATE
+            ? generateJoinCode()
+            : undefined,
+        teamAbbrevs: game
+          ? [game.homeTeam?.abbrev, game.awayTeam?.abbrev].filter(Boolean)
+          : [],
+        gameStartTime:
+          validated.gameStartTime ??
+          (game?.startTimeUTC ? new Date(game.startTimeUTC) : undefined),
         maxMembers: validated.maxMembers || 10, // Use validated data or default to 10
         memberIds: [ownerId], // Owner is automatically a member
         memberNames: [ownerName], // Owner's name
-        invitedUserNames: invitedUserNames, // Invited users' names
-        ticketIds: validated.ticketId ? { [ownerId]: validated.ticketId } : {}, // Add owner's ticket if provided
+        invitedUserIds: [], // Filled in from the invitations created next
+        invitedUserNames: [],
+        ticketIds: ticket ? { [ownerId]: validated.ticketId } : {}, // Add owner's ticket if it is theirs for this game
+        scoring: {
+          profile: scoringProfile,
+          weights: resolveScoringWeights(
+            scoringProfile,
+            validated.scoring?.weights
+          ),
+        },
       };
 
       const challenge = new this.challenge(challengeData);
@@ -134,6 +229,28 @@ export class ChallengesModel {
     }
   }
 
+  // The user's own ticket for the given game, the only kind they may enter
+  async findEntryTicket(
+    ticketId: string,
+    userId: string,
+    gameId: string
+  ): Promise<{ game: Game } | null> {
+    try {
+      if (!mongoose.isValidObjectId(ticketId)) {
+        return null;
+      }
+      const Ticket = mongoose.model('Ticket');
+      return await Ticket.findOne({
+        _id: ticketId,
+        userId,
+        'game.id': Number(gameId),
+      });
+    } catch (error) {
+      logger.error('Error finding entry ticket:', error);
+      throw new Error('Failed to find ticket');
+    }
+  }
+
   // Update an existing challenge
   async update(
     id: string,
@@ -142,10 +259,11 @@ export class ChallengesModel {
     try {
       logger.info('Updating challenge with data:', data);
       logger.info('data:', data);
-      const validated = updateChallengeSchema.parse(data);
-      const updated = await this.challenge.findOneAndUpdate({ id }, validated, {
-        new: true,
-      });
+      const updated = await this.challenge.findOneAndUpdate(
+        { id },
+        await this.fieldsUpdate(id, data),
+        { new: true }
+      );
       return updated;
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -157,6 +275,29 @@ export class ChallengesModel {
     }
   }
 
+  // The validated update for a challenge's editable fields
+  private async fieldsUpdate(id: string, data: Partial<IChallenge>) {
+    // Status changes go through challengeStatus.service instead
+    const validated = updateChallengeSchema.omit({ status: true }).parse(data);
+    const update = await this.withJoinCode(id, validated.visibility);
+    return { ...update, $set: { ...update.$set, ...validated } };
+  }
+
+  // Private challenges keep their join code; any other visibility drops it
+  private async withJoinCode(
+    id: string,
+    visibility?: ChallengeVisibilityType
+  ): Promise<{ $set?: { joinCode: string }; $unset?: { joinCode: '' } }> {
+    if (!visibility) {
+      return {};
+    }
+    if (visibility !== ChallengeVisibility.PRIVATE) {
+      return { $unset: { joinCode: '' } };
+    }
+    const current = await this.challenge.findOne({ id }).select('joinCode');
+    return current?.joinCode ? {} : { $set: { joinCode: generateJoinCode() } };
+  }
+
   // Delete a challenge (only by owner)
   async delete(id: string, ownerId: string): Promise<void> {
     try {
@@ -180,21 +321,49 @@ export class ChallengesModel {
     }
   }
 
-  // Get all challenges (paginated)
+  // Find several challenges by ID (plain objects)
+  async findByIds(ids: string[]): Promise<IChallenge[]> {
+    try {
+      return await this.challenge
+        .find({ id: { $in: ids } })
+        .lean<IChallenge[]>();
+    } catch (error) {
+      logger.error('Error finding challenges by IDs:', error);
+      throw new Error('Failed to find challenges');
+    }
+  }
+
+  // Find a challenge by its join code
+  async findByJoinCode(joinCode: string): Promise<IChallenge | null> {
+    try {
+      return await this.challenge.findOne({ joinCode });
+    } catch (error) {
+      logger.error('Error finding challenge by join code:', error);
+      throw new Error('Failed to find challenge');
+    }
+  }
+
+  /**
+   * Get all challenges (paginated). With a viewer, only the ones they can
+   * see: public ones, friends-only ones owned by a friend, and any they own,
+   * joined or were invited to.
+   */
   async findAll(
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: ChallengeViewer
   ): Promise<{ challenges: IChallenge[]; total: number }> {
     try {
+      const query = viewer ? visibleTo(viewer) : {};
       const skip = (page - 1) * limit;
       const [challenges, total] = await Promise.all([
         this.challenge
-          .find() // Find all challenges
+          .find(query)
           .sort({ createdAt: -1 }) // Newest first
           .skip(skip) // Skip previous pages
           .limit(limit), // Take only 'limit' results
 
-        this.challenge.countDocuments(), // Total count for pagination
+        this.challenge.countDocuments(query), // Total count for pagination
       ]);
       return { challenges, total };
     } catch (error) {
@@ -203,6 +372,61 @@ export class ChallengesModel {
     }
   }
 
+  // Public challenges that can still be joined, soonest game first
+  async discover(
+    query: DiscoverChallengesQuery
+  ): Promise<{ challenges: IChallenge[]; total: number }> {
+    try {
+      const filter: Record<string, unknown> = {
+        visibility: ChallengeVisibility.PUBLIC,
+        status: { $in: JOINABLE_STATUSES },
+        // Seats taken by members and pending invitations
+        $or: [
+          { maxMembers: { $exists: false } }, // No limit set
+          {
+            $expr: {
+              $lte: [
+                {
+                  $add: [
+                    { $size: '$memberIds' },
+                    { $size: '$invitedUserIds' },
+                    query.openSeats,
+                  ],
+                },
+                '$maxMembers',
+              ],
+            },
+          },
+        ],
+      };
+      if (query.team) {
+        filter.teamAbbrevs = query.team;
+      }
+      if (query.date) {
+        const start = new Date(query.date);
+        const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+        filter.gameStartTime = { $gte: start, $lt: end };
+      }
+      if (query.scoring) {
+        filter['scoring.profile'] = query.scoring;
+      }
+
+      const skip = (query.page - 1) * query.limit;
+      const [challenges, total] = await Promise.all([
+        this.challenge
+          .find(filter)
+          .sort({ gameStartTime: 1, createdAt: -1 })
+          .skip(skip)
+          .limit(query.limit),
+        this.challenge.countDocuments(filter),
+      ]);
+      return { challenges, total };
+    } catch (error) {
+      logger.error('Error discovering challenges:', error);
+      throw new Error('Failed to discover challenges');
+    }
+  }
+
   // Get user's challenges (owner or member)
   async getUserChallenges(
     userId: string,
@@ -246,10 +470,29 @@ export class ChallengesModel {
       const challenge = await this.challenge.findOneAndUpdate(
         {
           id: challengeId,
+          status: { $in: JOINABLE_STATUSES }, // Not started, finished or cancelled
           memberIds: { $nin: [userId] }, // User not already a member
           $or: [
             { maxMembers: { $exists: false } }, // No limit set
-            { $expr: { $lt: [{ $size: '$memberIds' }, '$maxMembers'] } }, // Under limit
+            {
+              // Members plus other users' open invitations stay under the limit;
+              // the joining user's own invitation is the seat they take
+              $expr: {
+                $lt: [
+                  {
+                    $add: [
+                      { $size: '$memberIds' },
+                      {
+                        $size: {
+                          $setDifference: ['$invitedUserIds', [userId]],
+                        },
+                      },
+                    ],
+                  },
+                  '$maxMembers',
+                ],
+              },
+            },
           ],
         },
         {
@@ -257,10 +500,6 @@ export class ChallengesModel {
             memberIds: userId,
             memberNames: userName,
           },
-          $pull: {
-            invitedUserIds: userId,
-            invitedUserNames: userName,
-          },
           $set: { [`ticketIds.${userId}`]: ticketId },
         },
         { new: true }
@@ -272,18 +511,6 @@ export class ChallengesModel {
         );
       }
 
-      // Check if there are no more invited users and update status to ACTIVE
-      if (
-        challenge.invitedUserIds.length === 0 &&
-        challenge.status === ChallengeStatus.PENDING
-      ) {
-        challenge.status = ChallengeStatus.ACTIVE;
-        await challenge.save();
-        logger.info(
-          `Challenge ${challengeId} status changed to ACTIVE (no more invited users)`
-        );
-      }
-
       return challenge;
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -295,6 +522,82 @@ export class ChallengesModel {
     }
   }
 
+  /**
+   * Add users to the invited mirror ahead of creating their invitations, so
+   * concurrent invites cannot overfill the challenge. Returns null if the
+   * challenge is gone, no longer open, any user is already in, or there are
+   * not enough seats left.
+   */
+  async reserveInvitations(
+    challengeId: string,
+    userIds: string[]
+  ): Promise<IChallenge | null> {
+    try {
+      // Names in the same order as the IDs so the two arrays stay aligned
+      const User = mongoose.model('User');
+      const users = await User.find({ _id: { $in: userIds } });
+      const names = new Map(
+        users.map(u => [u._id.toString(), u.name || 'Unknown User'])
+      );
+      const userNames = userIds.map(id => names.get(id) ?? 'Unknown User');
+
+      return await this.challenge.findOneAndUpdate(
+        {
+          id: challengeId,
+          status: { $in: JOINABLE_STATUSES },
+          memberIds: { $nin: userIds }, // Not already members
+          invitedUserIds: { $nin: userIds }, // Not already invited
+          $or: [
+            { maxMembers: { $exists: false } }, // No limit set
+            {
+              // Members plus outstanding invitations stay within the limit
+              $expr: {
+                $lte: [
+                  {
+                    $add: [
+                      { $size: '$memberIds' },
+                      { $size: '$invitedUserIds' },
+                      userIds.length,
+                    ],
+                  },
+                  '$maxMembers',
+                ],
+              },
+            },
+          ],
+        },
+        {
+          $push: {
+            invitedUserIds: { $each: userIds },
+            invitedUserNames: { $each: userNames },
+          },
+        },
+        { new: true }
+      );
+    } catch (error) {
+      logger.error('Error reserving invitations:', error);
+      throw new Error('Failed to reserve invitations');
+    }
+  }
+
+  // Mirror the open invitations on the challenge (see challengeInvitation.service)
+  async setInvitedUsers(
+    challengeId: string,
+    userIds: string[],
+    userNames: string[]
+  ): Promise<IChallenge | null> {
+    try {
+      return await this.challenge.findOneAndUpdate(
+        { id: challengeId },
+        { $set: { invitedUserIds: userIds, invitedUserNames: userNames } },
+        { new: true }
+      );
+    } catch (error) {
+      logger.error('Error updating invited users:', error);
+      throw new Error('Failed to update invited users');
+    }
+  }
+
   // Leave a challenge
   async leaveChallenge(
     challengeId: string,
@@ -336,85 +639,177 @@ export class ChallengesModel {
     }
   }
 
-  // Decline challenge invitation
-  async declineInvitation(
+  // Remove a member (not the owner) and their ticket before the game starts
+  async removeMember(
     challengeId: string,
     userId: string
   ): Promise<IChallenge | null> {
     try {
-      // Get user's name
-      const User = mongoose.model('User');
-      const user = await User.findOne({ googleId: userId });
-      const userName = user?.name || 'Unknown User';
+      const current = await this.challenge.findOne({ id: challengeId });
+      const index = current?.memberIds.indexOf(userId) ?? -1;
+      if (!current || index === -1) {
+        return null;
+      }
 
-      const challenge = await this.challenge.findOneAndUpdate(
+      // Drop the same position from both arrays so names stay aligned;
+      // matching on the current memberIds fails if someone joined or left meanwhile
+      return await this.challenge.findOneAndUpdate(
         {
           id: challengeId,
-          invitedUserIds: userId, // User must be invited
+          memberIds: current.memberIds,
+          ownerId: { $ne: userId }, // Owner must transfer ownership first
+          status: { $in: [ChallengeStatus.PENDING, ChallengeStatus.ACTIVE] },
         },
         {
-          $pull: {
-            invitedUserIds: userId,
-            invitedUserNames: userName,
+          $set: {
+            memberIds: current.memberIds.filter((_, i) => i !== index),
+            memberNames: current.memberNames.filter((_, i) => i !== index),
           },
+          $unset: { [`ticketIds.${userId}`]: '' },
         },
         { new: true }
       );
+    } catch (error) {
+      logger.error('Error removing challenge member:', error);
+      throw new Error('Failed to remove challenge member');
+    }
+  }
 
-      if (!challenge) {
-        throw new Error(
-          'Challenge not found or user not invited to this challenge'
-        );
-      }
-
-      // Check if there are no more invited users and update status to ACTIVE
-      if (
-        challenge.invitedUserIds.length === 0 &&
-        challenge.status === ChallengeStatus.PENDING
-      ) {
-        challenge.status = ChallengeStatus.ACTIVE;
-        await challenge.save();
-        logger.info(
-          `Challenge ${challengeId} status changed to ACTIVE (no more invited users)`
-        );
-      }
-
-      return challenge;
+  // Hand the challenge to another member while it is still running
+  async transferOwnership(
+    challengeId: string,
+    ownerId: string,
+    newOwnerId: string
+  ): Promise<IChallenge | null> {
+    try {
+      return await this.challenge.findOneAndUpdate(
+        {
+          id: challengeId,
+          ownerId,
+          memberIds: newOwnerId, // New owner must already be a member
+          status: {
+            $in: [
+              ChallengeStatus.PENDING,
+              ChallengeStatus.ACTIVE,
+              ChallengeStatus.LIVE,
+            ],
+          },
+        },
+        { $set: { ownerId: newOwnerId } },
+        { new: true }
+      );
     } catch (error) {
-      logger.error('Error declining invitation:', error);
-      throw new Error('Failed to decline invitation');
+      logger.error('Error transferring challenge ownership:', error);
+      throw new Error('Failed to transfer challenge ownership');
     }
   }
 
-  // Update challenge status
+  // Set the status, along with any other fields changed with it, only if it
+  // is currently one of fromStatuses (see challengeStatus.service)
   async updateStatus(
     challengeId: string,
-    status: string,
-    ownerId?: string
+    status: ChallengeStatusType,
+    fromStatuses: ChallengeStatusType[],
+    data: Partial<IChallenge> = {}
   ): Promise<IChallenge | null> {
     try {
-      const query: any = { id: challengeId };
-      if (ownerId) {
-        query.ownerId = ownerId; // Only owner can update status in some cases
-      }
-
-      const challenge = await this.challenge.findOneAndUpdate(
-        query,
-        { status },
+      const update = await this.fieldsUpdate(challengeId, data);
+      return await this.challenge.findOneAndUpdate(
+        { id: challengeId, status: { $in: fromStatuses } },
+        { ...update, $set: { ...update.$set, status } },
         { new: true }
       );
-
-      return challenge;
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        logger.error('Validation error:', error.issues);
+        throw new Error('Invalid update data');
+      }
       logger.error('Error updating challenge status:', error);
       throw new Error('Failed to update challenge status');
     }
   }
 
-  // Get challenges by game ID
-  async findByGameId(gameId: string): Promise<IChallenge[]> {
+  // Finished challenges with no stored result, e.g. because finalizing failed
+  async findUnfinalized(): Promise<IChallenge[]> {
+    try {
+      const results = mongoose.model('ChallengeResult').collection.name;
+      return await this.challenge.aggregate<IChallenge>([
+        { $match: { status: ChallengeStatus.FINISHED } },
+        {
+          $lookup: {
+            from: results,
+            localField: 'id',
+            foreignField: 'challengeId',
+            as: 'result',
+          },
+        },
+        { $match: { result: { $size: 0 } } },
+        { $project: { result: 0 } },
+      ]);
+    } catch (error) {
+      logger.error('Error finding unfinalized challenges:', error);
+      throw new Error('Failed to find unfinalized challenges');
+    }
+  }
+
+  // Get challenges where a member has entered the given ticket
+  async findByTicket(userId: string, ticketId: string): Promise<IChallenge[]> {
+    try {
+      return await this.challenge.find({ [`ticketIds.${userId}`]: ticketId });
+    } catch (error) {
+      logger.error('Error finding challenges by ticket:', error);
+      throw new Error('Failed to find challenges by ticket');
+    }
+  }
+
+  // Get challenges a member has entered any ticket in (ticketIds as a plain object)
+  async findWithTicketsFrom(userId: string): Promise<IChallenge[]> {
+    try {
+      return await this.challenge
+        .find({ [`ticketIds.${userId}`]: { $exists: true } })
+        .lean<IChallenge[]>();
+    } catch (error) {
+      logger.error('Error finding challenges by ticket owner:', error);
+      throw new Error('Failed to find challenges by ticket owner');
+    }
+  }
+
+  // Get challenges that both users are members of (ticketIds as a plain object)
+  async findSharedByMembers(
+    userId: string,
+    otherUserId: string
+  ): Promise<IChallenge[]> {
+    try {
+      return await this.challenge
+        .find({ memberIds: { $all: [userId, otherUserId] } })
+        .lean<IChallenge[]>();
+    } catch (error) {
+      logger.error('Error finding shared challenges:', error);
+      throw new Error('Failed to find shared challenges');
+    }
+  }
+
+  // Get finished challenges the user was a member of (ticketIds as a plain object)
+  async findFinishedByMember(userId: string): Promise<IChallenge[]> {
+    try {
+      return await this.challenge
+        .find({ memberIds: userId, status: ChallengeStatus.FINISHED })
+        .lean<IChallenge[]>();
+    } catch (error) {
+      logger.error('Error finding finished challenges by member:', error);
+      throw new Error('Failed to find finished challenges by member');
+    }
+  }
+
+  // Get challenges by game ID, with a viewer only the ones they can see
+  async findByGameId(
+    gameId: string,
+    viewer?: ChallengeViewer
+  ): Promise<IChallenge[]> {
     try {
-      return await this.challenge.find({ gameId }).sort({ createdAt: -1 });
+      return await this.challenge
+        .find({ gameId, ...(viewer ? visibleTo(viewer) : {}) })
+        .sort({ createdAt: -1 });
     } catch (error) {
       logger.error('Error finding challenges by game ID:', error);
       throw new Error('Failed to find challenges by game ID');
@@ -76,6 +76,23 @@ class FriendModel {
       .populate('sender receiver', 'name email profilePicture');
   }
 
+  // IDs of everyone the user is friends with, whichever side sent the request
+  async getFriendIds(userId: string): Promise<string[]> {
+    const friendships = await this.friendRequest
+      .find({
+        status: 'accepted',
+        $or: [{ sender: userId }, { receiver: userId }],
+      })
+      .select('sender receiver')
+      .lean();
+
+    return friendships.map(friendship =>
+      friendship.sender.toString() === userId
+        ? friendship.receiver.toString()
+        : friendship.sender.toString()
+    );
+  }
+
   async removeFriend(userId: string, friendId: string) {
     return this.friendRequest.findOneAndDelete({
       status: 'accepted',
@@ -0,0 +1,128 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+  BingoTicketScore,
+  ITicketHistoryEntry,
+  TicketHistorySource,
+  TicketHistorySourceType,
+} from '../types/tickets.types';
+import logger from '../utils/logger.util';
+
+const scoreSchema = {
+  noCrossedOff: { type: Number, default: 0 },
+  noRows: { type: Number, default: 0 },
+  noColumns: { type: Number, default: 0 },
+  noCrosses: { type: Number, default: 0 },
+  total: { type: Number, default: 0 },
+  weightedTotal: { type: Number, default: 0 },
+};
+
+const ticketHistorySchema = new Schema<ITicketHistoryEntry>({
+  ticketId: { type: String, required: true, index: true, immutable: true },
+  userId: { type: String, required: true, immutable: true },
+  squareIndex: { type: Number, required: true, immutable: true },
+  crossedOff: { type: Boolean, required: true, immutable: true },
+  source: {
+    type: String,
+    enum: Object.values(TicketHistorySource),
+    required: true,
+    immutable: true,
+  },
+  scoreBefore: { type: scoreSchema, immutable: true },
+  scoreAfter: { type: scoreSchema, immutable: true },
+  timestamp: { type: Date, default: Date.now, immutable: true },
+});
+
+// History is append-only: reject any update or delete query
+const rejectWrite = () => {
+  throw new Error('Ticket history is append-only');
+};
+ticketHistorySchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  rejectWrite
+);
+
+const EMPTY_SCORE: BingoTicketScore = {
+  noCrossedOff: 0,
+  noRows: 0,
+  noColumns: 0,
+  noCrosses: 0,
+  total: 0,
+  weightedTotal: 0,
+};
+
+export class TicketHistoryModel {
+  private history: mongoose.Model<ITicketHistoryEntry>;
+
+  constructor() {
+    this.history = mongoose.model<ITicketHistoryEntry>(
+      'TicketHistory',
+      ticketHistorySchema
+    );
+  }
+
+  /**
+   * Append one entry per square that differs between before and after.
+   * Errors are logged rather than thrown so ticket updates never fail on them.
+   */
+  async record(
+    ticket: { ticketId: string; userId: string },
+    change: {
+      before: boolean[];
+      after: boolean[];
+      scoreBefore?: BingoTicketScore;
+      scoreAfter: BingoTicketScore;
+      source: TicketHistorySourceType;
+    }
+  ): Promise<void> {
+    const timestamp = new Date();
+    const entries = change.after
+      .map((crossedOff, squareIndex) => ({ crossedOff, squareIndex }))
+      .filter(
+        ({ crossedOff, squareIndex }) =>
+          crossedOff !== !!change.before[squareIndex]
+      )
+      .map(({ crossedOff, squareIndex }) => ({
+        ...ticket,
+        squareIndex,
+        crossedOff,
+        source: change.source,
+        scoreBefore: change.scoreBefore ?? EMPTY_SCORE,
+        scoreAfter: change.scoreAfter,
+        timestamp,
+      }));
+
+    if (entries.length === 0) return;
+
+    try {
+      await this.history.insertMany(entries);
+    } catch (error) {
+      logger.error(
+        `Error recording history for ticket ${ticket.ticketId}:`,
+        error
+      );
+    }
+  }
+
+  // Get a ticket's history, oldest first
+  async findByTicketId(ticketId: string): Promise<ITicketHistoryEntry[]> {
+    try {
+      return await this.history
+        .find({ ticketId })
+        .sort({ timestamp: 1, _id: 1 });
+    } catch (error) {
+      logger.error('Error fetching ticket history:', error);
+      throw new Error('Failed to fetch ticket history');
+    }
+  }
+}
+
+export const ticketHistoryModel = new TicketHistoryModel();
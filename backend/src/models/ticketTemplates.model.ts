@@ -0,0 +1,113 @@
+import mongoose, { Schema } from 'mongoose';
+import {
+  CreateTemplateBody,
+  DEFAULT_GRID_SIZE,
+  ITicketTemplate,
+  PlayerRole,
+  TeamSide,
+  TICKET_GRID_SIZES,
+} from '../types/tickets.types';
+import logger from '../utils/logger.util';
+
+const TemplateConditionSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    category: { type: String, required: true },
+    subject: { type: String, required: true },
+    comparison: { type: String, required: true },
+    threshold: { type: Number, required: true },
+    upperThreshold: { type: Number },
+    period: { type: Number },
+    teamRef: { type: String, enum: Object.values(TeamSide) },
+    playerRef: {
+      type: {
+        team: { type: String, enum: Object.values(TeamSide), required: true },
+        role: {
+          type: String,
+          enum: Object.values(PlayerRole),
+          required: true,
+        },
+        rank: { type: Number, default: 1 },
+      },
+      _id: false,
+    },
+    weight: { type: Number },
+    operator: { type: String },
+  },
+  { _id: false }
+);
+
+TemplateConditionSchema.add({
+  conditions: { type: [TemplateConditionSchema], default: undefined },
+});
+
+const ticketTemplateSchema = new Schema<ITicketTemplate>({
+  userId: { type: String, required: true, index: true },
+  name: { type: String, required: true },
+  gridSize: {
+    type: Number,
+    enum: TICKET_GRID_SIZES,
+    default: DEFAULT_GRID_SIZE,
+  },
+  events: { type: [TemplateConditionSchema], required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+export class TicketTemplatesModel {
+  private template: mongoose.Model<ITicketTemplate>;
+
+  constructor() {
+    this.template = mongoose.model<ITicketTemplate>(
+      'TicketTemplate',
+      ticketTemplateSchema
+    );
+  }
+
+  // Save a template for a user
+  async create(
+    data: CreateTemplateBody,
+    userId: string
+  ): Promise<ITicketTemplate> {
+    try {
+      return await this.template.create({ ...data, userId });
+    } catch (error) {
+      logger.error('Error creating ticket template:', error);
+      throw new Error('Failed to create ticket template');
+    }
+  }
+
+  // Find template by ID (null for malformed IDs)
+  async findById(id: string): Promise<ITicketTemplate | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    try {
+      return await this.template.findById(id).lean<ITicketTemplate>();
+    } catch (error) {
+      logger.error('Error finding ticket template by ID:', error);
+      throw new Error('Failed to find ticket template');
+    }
+  }
+
+  // Get a user's templates, newest first
+  async findByUserId(userId: string): Promise<ITicketTemplate[]> {
+    try {
+      return await this.template.find({ userId }).sort({ createdAt: -1 });
+    } catch (error) {
+      logger.error('Error fetching ticket templates:', error);
+      throw new Error('Failed to fetch ticket templates');
+    }
+  }
+
+  // Delete a template owned by the user, returns false if none matched
+  async delete(id: string, userId: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    try {
+      const result = await this.template.findOneAndDelete({ _id: id, userId });
+      return !!result;
+    } catch (error) {
+      logger.error('Error deleting ticket template:', error);
+      throw new Error('Failed to delete ticket template');
+    }
+  }
+}
+
+export const ticketTemplatesModel = new TicketTemplatesModel();
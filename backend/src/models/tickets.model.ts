@@ -1,4 +1,6 @@
 import mongoose, { Schema } from 'mongoose';
+import { DEFAULT_GRID_SIZE, TICKET_GRID_SIZES } from '../types/tickets.types';
+import { gameLockService } from '../services/gameLock.service';
 
 const EventConditionSchema = new Schema(
   {
@@ -7,28 +9,54 @@ const EventConditionSchema = new Schema(
     subject: { type: String, required: true },
     comparison: { type: String, required: true }, // store enum as string
     threshold: { type: Number, required: true },
+    upperThreshold: { type: Number }, // BETWEEN only
+    period: { type: Number }, // period-scoped squares
     teamAbbrev: { type: String },
     playerId: { type: Number },
     playerName: { type: String },
+    weight: { type: Number }, // explicit square weight
+    operator: { type: String }, // AND / OR for compound squares
   },
   { _id: false }
 ); // disable separate _id for each subdocument
 
+// Compound squares nest sub-conditions of the same shape
+EventConditionSchema.add({
+  conditions: { type: [EventConditionSchema], default: undefined },
+});
+
+const squareCount = (ticket: { gridSize?: number }) =>
+  (ticket.gridSize ?? DEFAULT_GRID_SIZE) ** 2;
+
 const TicketSchema = new Schema({
   userId: { type: String, required: true },
   name: { type: String, required: true },
   game: { type: Object, required: true },
+  gridSize: {
+    type: Number,
+    enum: TICKET_GRID_SIZES,
+    default: DEFAULT_GRID_SIZE,
+  },
+  // events and crossedOff hold gridSize * gridSize squares, row by row
   events: {
     type: [EventConditionSchema],
     required: true,
-    validate: (v: any[]) => v.length === 9,
+    validate: function (this: any, v: any[]) {
+      return v.length === squareCount(this);
+    },
   },
   crossedOff: {
     type: [Boolean],
     required: true,
-    default: Array(9).fill(false),
-    validate: (v: boolean[]) => v.length === 9,
+    default: function (this: any) {
+      return Array(squareCount(this)).fill(false);
+    },
+    validate: function (this: any, v: boolean[]) {
+      return v.length === squareCount(this);
+    },
   },
+  // Explicit or rarity-derived weight of each square, fixed at creation
+  squareWeights: { type: [Number], default: undefined },
   score: {
     type: {
       noCrossedOff: { type: Number, default: 0 },
@@ -36,6 +64,7 @@ const TicketSchema = new Schema({
       noColumns: { type: Number, default: 0 },
       noCrosses: { type: Number, default: 0 },
       total: { type: Number, default: 0 },
+      weightedTotal: { type: Number, default: 0 },
     },
     required: false,
     default: {
@@ -44,9 +73,51 @@ const TicketSchema = new Schema({
       noColumns: 0,
       noCrosses: 0,
       total: 0,
+      weightedTotal: 0,
     },
   },
+  isFinalized: { type: Boolean, default: false }, // read-only once a challenge using it finishes
+  shareCode: { type: String, unique: true, sparse: true }, // set while the ticket is shared
   createdAt: { type: Date, default: Date.now },
 });
 
+// Events are frozen at puck drop: reject any write that changes them after lock
+const EVENTS_LOCKED_MESSAGE = 'Ticket events are locked once the game starts';
+
+const touchesEvents = (update: Record<string, any> | null): boolean =>
+  !!update &&
+  Object.entries(update).some(([key, value]) =>
+    key.startsWith('$')
+      ? touchesEvents(value)
+      : key === 'events' || key.startsWith('events.')
+  );
+
+const assertGameNotLocked = async (game?: {
+  id?: number;
+  startTimeUTC?: string;
+}) => {
+  const lock = await gameLockService.getLockState(game?.id, game?.startTimeUTC);
+  if (lock.isLocked) {
+    throw new Error(EVENTS_LOCKED_MESSAGE);
+  }
+};
+
+TicketSchema.pre('save', async function () {
+  if (!this.isNew && this.isModified('events')) {
+    await assertGameNotLocked(this.game);
+  }
+});
+
+TicketSchema.pre(
+  ['findOneAndUpdate', 'updateOne', 'updateMany'],
+  async function () {
+    if (!touchesEvents(this.getUpdate() as Record<string, any> | null)) return;
+
+    const tickets = await this.model.find(this.getFilter()).select('game');
+    for (const ticket of tickets) {
+      await assertGameNotLocked(ticket.game);
+    }
+  }
+);
+
 export const Ticket = mongoose.model('Ticket', TicketSchema);
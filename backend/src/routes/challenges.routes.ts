@@ -1,10 +1,17 @@
 import { ChallengesController } from '../controllers/challenges.controller';
 import { Router } from 'express';
-import { validateBody } from '../middleware/validation.middleware';
+import {
+  validateBody,
+  validateQuery,
+} from '../middleware/validation.middleware';
 import {
   createChallengeSchema,
+  discoverChallengesQuerySchema,
+  joinByCodeSchema,
   updateChallengeSchema,
   joinChallengeSchema,
+  inviteUserSchema,
+  transferOwnershipSchema,
 } from '../types/challenges.types';
 
 const router = Router();
@@ -12,18 +19,43 @@ const challengeController = new ChallengesController();
 
 // Public routes (still require authentication from main router)
 
-// GET /challenges - Get all challenges with pagination
+// GET /challenges - Get all challenges the user can see, with pagination
 router.get('/', challengeController.getAll.bind(challengeController));
 
+// GET /challenges/discover - Search public challenges with open seats
+router.get(
+  '/discover',
+  validateQuery(discoverChallengesQuerySchema),
+  challengeController.discover.bind(challengeController)
+);
+
 // GET /challenges/user - Get current user's challenges - owned, joined, and invited
 router.get(
   '/user',
   challengeController.getUserChallenges.bind(challengeController)
 );
 
+// GET /challenges/invitations - Get current user's invitations (pending and history)
+router.get(
+  '/invitations',
+  challengeController.getInvitations.bind(challengeController)
+);
+
 // GET /challenges/:id - Get specific challenge by ID
 router.get('/:id', challengeController.getById.bind(challengeController));
 
+// GET /challenges/:id/leaderboard - Get ranked standings for a challenge
+router.get(
+  '/:id/leaderboard',
+  challengeController.getLeaderboard.bind(challengeController)
+);
+
+// GET /challenges/:id/result - Get final standings and winners of a finished challenge
+router.get(
+  '/:id/result',
+  challengeController.getResult.bind(challengeController)
+);
+
 // GET /challenges/game/:gameId - Get challenges for specific game
 router.get(
   '/game/:gameId',
@@ -37,6 +69,13 @@ router.post(
   challengeController.create.bind(challengeController)
 );
 
+// POST /challenges/join-by-code - Join a challenge with its join code
+router.post(
+  '/join-by-code',
+  validateBody(joinByCodeSchema),
+  challengeController.joinByCode.bind(challengeController)
+);
+
 // PUT /challenges/:id - Update challenge (owner only)
 router.put(
   '/:id',
@@ -54,6 +93,38 @@ router.post(
   challengeController.joinChallenge.bind(challengeController)
 );
 
+// POST /challenges/:id/invite - Invite friends to a challenge (owner only)
+router.post(
+  '/:id/invite',
+  validateBody(inviteUserSchema),
+  challengeController.inviteUsers.bind(challengeController)
+);
+
+// POST /challenges/:id/invitations/:userId/resend - Resend an invitation (owner only)
+router.post(
+  '/:id/invitations/:userId/resend',
+  challengeController.resendInvitation.bind(challengeController)
+);
+
+// DELETE /challenges/:id/invitations/:userId - Revoke an invitation (owner only)
+router.delete(
+  '/:id/invitations/:userId',
+  challengeController.revokeInvitation.bind(challengeController)
+);
+
+// POST /challenges/:id/members/:userId/remove - Remove a member (owner only)
+router.post(
+  '/:id/members/:userId/remove',
+  challengeController.removeMember.bind(challengeController)
+);
+
+// POST /challenges/:id/transfer-ownership - Hand the challenge to another member (owner only)
+router.post(
+  '/:id/transfer-ownership',
+  validateBody(transferOwnershipSchema),
+  challengeController.transferOwnership.bind(challengeController)
+);
+
 // POST /challenges/:id/leave - Leave a challenge
 router.post(
   '/:id/leave',
@@ -5,9 +5,41 @@ import {
   getTicketById,
   deleteTicket,
   updateCrossedOff,
+  getEventCatalogue,
+  getTicketHistory,
+  generateTicket,
 } from '../controllers/tickets.controller';
-import { validateBody } from '../middleware/validation.middleware';
-import { createTicketSchema } from '../types/tickets.types';
+import {
+  createTemplate,
+  getTemplates,
+  deleteTemplate,
+  createTicketFromTemplate,
+} from '../controllers/ticketTemplates.controller';
+import {
+  exportTicket,
+  importTickets,
+  getTicketCard,
+} from '../controllers/ticketFiles.controller';
+import {
+  shareTicket,
+  unshareTicket,
+  getSharedTicket,
+  cloneSharedTicket,
+} from '../controllers/ticketShares.controller';
+import {
+  validateBody,
+  validateQuery,
+} from '../middleware/validation.middleware';
+import {
+  cloneTicketSchema,
+  createTemplateSchema,
+  createTicketFromTemplateSchema,
+  createTicketSchema,
+  generateTicketSchema,
+  importTicketsSchema,
+  ticketExportQuerySchema,
+  ticketListQuerySchema,
+} from '../types/tickets.types';
 import { asyncHandler } from '../middleware/async.middleware';
 
 const router = Router();
@@ -18,7 +50,49 @@ router.post(
   validateBody(createTicketSchema),
   asyncHandler(createBingoTicket)
 );
-router.get('/user/:userId', asyncHandler(getUserTickets)); // Changed to /user/:userId to avoid conflict
+router.post(
+  '/generate',
+  validateBody(generateTicketSchema),
+  asyncHandler(generateTicket)
+);
+router.post(
+  '/from-template',
+  validateBody(createTicketFromTemplateSchema),
+  asyncHandler(createTicketFromTemplate)
+);
+router.post(
+  '/import',
+  validateBody(importTicketsSchema),
+  asyncHandler(importTickets)
+);
+router.post(
+  '/templates',
+  validateBody(createTemplateSchema),
+  asyncHandler(createTemplate)
+);
+router.get('/templates', asyncHandler(getTemplates)); // Must be registered before /:id
+router.delete('/templates/:id', asyncHandler(deleteTemplate));
+router.get('/shared/:code', asyncHandler(getSharedTicket)); // Must be registered before /:id
+router.post(
+  '/shared/:code/clone',
+  validateBody(cloneTicketSchema),
+  asyncHandler(cloneSharedTicket)
+);
+router.get('/catalogue', asyncHandler(getEventCatalogue)); // Must be registered before /:id
+router.get(
+  '/user/:userId',
+  validateQuery(ticketListQuerySchema),
+  asyncHandler(getUserTickets)
+); // Changed to /user/:userId to avoid conflict
+router.get('/:id/history', asyncHandler(getTicketHistory)); // Crossed-off audit trail
+router.get(
+  '/:id/export',
+  validateQuery(ticketExportQuerySchema),
+  asyncHandler(exportTicket)
+);
+router.get('/:id/card.:format(svg|png)', asyncHandler(getTicketCard)); // Shareable image
+router.post('/:id/share', asyncHandler(shareTicket)); // Create (or get) the share code
+router.delete('/:id/share', asyncHandler(unshareTicket));
 router.get('/:id', asyncHandler(getTicketById)); // Get ticket by ID
 router.delete('/:id', asyncHandler(deleteTicket));
 router.put('/crossedOff/:id', asyncHandler(updateCrossedOff));
@@ -13,6 +13,9 @@ router.get('/profile', userController.getProfile);
 // GET /user/:id - Get user info by ID
 router.get('/:id', userController.getUserInfoById);
 
+// GET /user/:id/stats - Get ticket and challenge statistics for a user
+router.get('/:id/stats', userController.getUserStats);
+
 // PUT /user/profile - Update current user's profile
 router.put(
   '/profile',
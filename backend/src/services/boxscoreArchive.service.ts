@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Boxscore } from '../types/nhl.types';
+import logger from '../utils/logger.util';
+
+// Where final boxscores are kept, one <gameId>.json file per game
+export const BOXSCORE_ARCHIVE_DIR =
+  process.env.BOXSCORE_ARCHIVE_DIR || 'data/boxscores';
+
+export class BoxscoreArchiveService {
+  private games: Boxscore[] | null = null;
+
+  constructor(private readonly dir: string = BOXSCORE_ARCHIVE_DIR) {}
+
+  /**
+   * Store a final boxscore so it can be used for square odds later.
+   * Games already archived are left untouched; errors are logged, not thrown.
+   */
+  async save(boxscore: Boxscore): Promise<void> {
+    const file = path.join(this.dir, `${boxscore.id}.json`);
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(file, JSON.stringify(boxscore), { flag: 'wx' });
+      this.games = null;
+      logger.info(`Archived boxscore for game ${boxscore.id}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return;
+      logger.error(`Error archiving boxscore for game ${boxscore.id}:`, error);
+    }
+  }
+
+  /**
+   * All archived games, read once and cached until the next save.
+   * A missing directory is an empty archive.
+   */
+  async loadAll(): Promise<Boxscore[]> {
+    if (this.games) return this.games;
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter(f => f.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Error reading boxscore archive:', error);
+      }
+      return [];
+    }
+
+    const games: Boxscore[] = [];
+    for (const file of files) {
+      try {
+        const raw = await fs.readFile(path.join(this.dir, file), 'utf8');
+        games.push(JSON.parse(raw) as Boxscore);
+      } catch (error) {
+        logger.warn(`Skipping unreadable archived boxscore ${file}`);
+      }
+    }
+
+    this.games = games;
+    return games;
+  }
+}
+
+// Export singleton instance
+export const boxscoreArchive = new BoxscoreArchiveService();
+export default boxscoreArchive;
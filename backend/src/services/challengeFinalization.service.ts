@@ -0,0 +1,66 @@
+import mongoose from 'mongoose';
+import { Ticket } from '../models/tickets.model';
+import { challengeResultsModel } from '../models/challengeResults.model';
+import { IChallenge, IChallengeResult } from '../types/challenges.types';
+import { leaderboardService } from './leaderboard.service';
+import { ticketEvaluatorService } from './ticketEvaluator.service';
+import SocketEvents from '../utils/socket.events';
+import logger from '../utils/logger.util';
+
+export class ChallengeFinalizationService {
+  private readonly PODIUM_SIZE = 3;
+
+  /**
+   * Freeze a finished challenge: score the tickets one last time, store the
+   * final standings and winners, lock the member tickets and notify members.
+   * Safe to call more than once - an existing result is returned unchanged.
+   */
+  async finalize(challenge: IChallenge): Promise<IChallengeResult> {
+    const existing = await challengeResultsModel.findByChallengeId(
+      challenge.id
+    );
+    if (existing) {
+      logger.debug(`Challenge ${challenge.id} already finalized`);
+      return existing;
+    }
+
+    // Pick up the final boxscore before the tickets become read-only
+    await ticketEvaluatorService.evaluateGame(challenge.gameId);
+
+    const standings = await leaderboardService.getLeaderboard(challenge);
+
+    // Winners are everyone still level in 1st place after the tie-breaks
+    const winnerIds = standings
+      .filter(entry => entry.rank === 1 && entry.ticketId)
+      .map(entry => entry.userId);
+    const podium = standings.filter(
+      entry => entry.ticketId && entry.rank <= this.PODIUM_SIZE
+    );
+
+    const ticketIds = standings
+      .map(entry => entry.ticketId)
+      .filter((id): id is string => !!id && mongoose.isValidObjectId(id));
+    await Ticket.updateMany({ _id: { $in: ticketIds } }, { isFinalized: true });
+
+    const result = await challengeResultsModel.create({
+      challengeId: challenge.id,
+      gameId: challenge.gameId,
+      standings,
+      winnerIds,
+      podium,
+      finalizedAt: new Date(),
+    });
+
+    logger.info(
+      `🏆 Challenge ${challenge.id} finalized with ${winnerIds.length} winner(s)`
+    );
+
+    SocketEvents.challengeFinished(challenge.id, result, challenge);
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const challengeFinalizationService = new ChallengeFinalizationService();
+export default challengeFinalizationService;
@@ -0,0 +1,225 @@
+import { challengeModel } from '../models/challenges.model';
+import { challengeInvitationsModel } from '../models/challengeInvitations.model';
+import {
+  ChallengeStatus,
+  IChallenge,
+  IChallengeInvitation,
+  InvitationStatus,
+  InvitationStatusType,
+} from '../types/challenges.types';
+import { challengeStatusService } from './challengeStatus.service';
+
+// An inbox entry: the invitation plus enough of its challenge to show it
+export type InvitationWithChallenge = IChallengeInvitation & {
+  challenge: Pick<
+    IChallenge,
+    'id' | 'title' | 'gameId' | 'status' | 'ownerId' | 'gameStartTime'
+  > | null;
+};
+
+export class ChallengeInvitationService {
+  /**
+   * Invite users to a challenge (reopening any earlier invitation) and
+   * return the challenge with its invited users updated. Returns null if
+   * their seats could not be reserved.
+   */
+  async invite(
+    challengeId: string,
+    invitedByUserId: string,
+    userIds: string[]
+  ): Promise<IChallenge | null> {
+    if (!(await challengeModel.reserveInvitations(challengeId, userIds))) {
+      return null;
+    }
+    try {
+      await challengeInvitationsModel.invite(
+        challengeId,
+        invitedByUserId,
+        userIds
+      );
+    } catch (error) {
+      await this.syncInvited(challengeId); // Release the reserved seats
+      throw error;
+    }
+    return this.syncInvited(challengeId);
+  }
+
+  // The user joined: accept their invitation, if they had one
+  async accept(
+    challengeId: string,
+    userId: string
+  ): Promise<IChallenge | null> {
+    await challengeInvitationsModel.respond(
+      challengeId,
+      userId,
+      InvitationStatus.ACCEPTED
+    );
+    return this.syncInvited(challengeId);
+  }
+
+  // Returns null if the user has no open invitation to decline
+  async decline(
+    challengeId: string,
+    userId: string
+  ): Promise<IChallenge | null> {
+    return this.close(challengeId, userId, InvitationStatus.DECLINED);
+  }
+
+  // Owner withdraws an open invitation; null if there is none
+  async revoke(
+    challengeId: string,
+    userId: string
+  ): Promise<IChallenge | null> {
+    return this.close(challengeId, userId, InvitationStatus.REVOKED);
+  }
+
+  // The challenge was cancelled or deleted: withdraw every open invitation
+  async revokeAll(challengeId: string): Promise<IChallenge | null> {
+    await challengeInvitationsModel.closeAll(
+      challengeId,
+      InvitationStatus.REVOKED
+    );
+    return this.syncInvited(challengeId);
+  }
+
+  /**
+   * Give a pending or expired invitation a fresh expiry. An expired one needs
+   * its seat back first; null if that fails or there is no such invitation.
+   */
+  async resend(
+    challengeId: string,
+    userId: string
+  ): Promise<IChallenge | null> {
+    const existing = await challengeInvitationsModel.findOne(
+      challengeId,
+      userId
+    );
+    const reserved = existing?.status === InvitationStatus.EXPIRED;
+    if (
+      reserved &&
+      !(await challengeModel.reserveInvitations(challengeId, [userId]))
+    ) {
+      return null;
+    }
+
+    const invitation = await challengeInvitationsModel.resend(
+      challengeId,
+      userId
+    );
+    if (!invitation) {
+      if (reserved) {
+        await this.syncInvited(challengeId); // Release the reserved seat
+      }
+      return null;
+    }
+    return this.syncInvited(challengeId);
+  }
+
+  /**
+   * A user's invitations with their challenges. Stale invitations are
+   * marked expired first, so the inbox only shows ones that can be answered.
+   */
+  async getInbox(
+    userId: string,
+    status?: InvitationStatusType
+  ): Promise<InvitationWithChallenge[]> {
+    await this.expireStale(userId);
+
+    const invitations = await challengeInvitationsModel.findByUser(
+      userId,
+      status
+    );
+    const challenges = new Map(
+      (
+        await challengeModel.findByIds([
+          ...new Set(invitations.map(invitation => invitation.challengeId)),
+        ])
+      ).map(challenge => [challenge.id, challenge])
+    );
+
+    return invitations.map(invitation => {
+      const challenge = challenges.get(invitation.challengeId);
+      return {
+        ...invitation,
+        challenge: challenge
+          ? {
+              id: challenge.id,
+              title: challenge.title,
+              gameId: challenge.gameId,
+              status: challenge.status,
+              ownerId: challenge.ownerId,
+              gameStartTime: challenge.gameStartTime,
+            }
+          : null, // Challenge was deleted
+      };
+    });
+  }
+
+  // Expire stale invitations (optionally only one user's) and resync their challenges
+  async expireStale(userId?: string): Promise<void> {
+    const expired = await challengeInvitationsModel.expireStale({ userId });
+    await Promise.all(expired.map(id => this.syncInvited(id)));
+  }
+
+  /**
+   * The challenge with invitations that have run out dropped from its
+   * invited users, for reads that rely on them being current
+   */
+  async refresh(challenge: IChallenge): Promise<IChallenge> {
+    if (challenge.invitedUserIds.length === 0) {
+      return challenge;
+    }
+    const expired = await challengeInvitationsModel.expireStale({
+      challengeId: challenge.id,
+    });
+    return expired.length > 0
+      ? ((await this.syncInvited(challenge.id)) ?? challenge)
+      : challenge;
+  }
+
+  /**
+   * Copy the open invitations onto the challenge's invitedUserIds/Names,
+   * expiring stale ones first. A pending challenge becomes active once
+   * nobody is left to answer.
+   */
+  async syncInvited(challengeId: string): Promise<IChallenge | null> {
+    await challengeInvitationsModel.expireStale({ challengeId });
+    const open =
+      await challengeInvitationsModel.findOpenByChallenge(challengeId);
+    const challenge = await challengeModel.setInvitedUsers(
+      challengeId,
+      open.map(invitation => invitation.invitedUserId),
+      open.map(invitation => invitation.invitedUserName)
+    );
+
+    if (
+      challenge &&
+      challenge.invitedUserIds.length === 0 &&
+      challenge.status === ChallengeStatus.PENDING
+    ) {
+      const result = await challengeStatusService.transition(
+        challengeId,
+        ChallengeStatus.ACTIVE
+      );
+      return result.success ? result.challenge : challenge;
+    }
+    return challenge;
+  }
+
+  private async close(
+    challengeId: string,
+    userId: string,
+    status: InvitationStatusType
+  ): Promise<IChallenge | null> {
+    const invitation = await challengeInvitationsModel.respond(
+      challengeId,
+      userId,
+      status
+    );
+    return invitation ? this.syncInvited(challengeId) : null;
+  }
+}
+
+// Export singleton instance
+export const challengeInvitationService = new ChallengeInvitationService();
+export default challengeInvitationService;
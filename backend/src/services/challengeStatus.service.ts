@@ -0,0 +1,121 @@
+import { challengeModel } from '../models/challenges.model';
+import {
+  CHALLENGE_STATUS_TRANSITIONS,
+  ChallengeStatus,
+  ChallengeStatusType,
+  IChallenge,
+} from '../types/challenges.types';
+import { challengeFinalizationService } from './challengeFinalization.service';
+import SocketEvents from '../utils/socket.events';
+import logger from '../utils/logger.util';
+
+export type StatusTransitionResult =
+  | { success: true; challenge: IChallenge }
+  | {
+      success: false;
+      error: 'not_found' | 'illegal_transition';
+      message: string;
+    };
+
+// The normal lifecycle, in order
+const LIFECYCLE: ChallengeStatusType[] = [
+  ChallengeStatus.PENDING,
+  ChallengeStatus.ACTIVE,
+  ChallengeStatus.LIVE,
+  ChallengeStatus.FINISHED,
+];
+
+export class ChallengeStatusService {
+  canTransition(from: ChallengeStatusType, to: ChallengeStatusType): boolean {
+    return CHALLENGE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Move a challenge to a new status if CHALLENGE_STATUS_TRANSITIONS allows
+   * it. The check and the write are a single query, so two writers racing
+   * from the same status can't both succeed. Other `fields` (an owner's PUT)
+   * are written in the same query. Members are notified, and a finished
+   * challenge is finalized (retried by the game status sync job if that
+   * fails).
+   */
+  async transition(
+    challengeId: string,
+    to: ChallengeStatusType,
+    fields: Partial<IChallenge> = {}
+  ): Promise<StatusTransitionResult> {
+    const fromStatuses = (
+      Object.keys(CHALLENGE_STATUS_TRANSITIONS) as ChallengeStatusType[]
+    ).filter(from => this.canTransition(from, to));
+
+    const challenge = await challengeModel.updateStatus(
+      challengeId,
+      to,
+      fromStatuses,
+      fields
+    );
+
+    if (!challenge) {
+      const current = await challengeModel.findById(challengeId);
+      if (!current) {
+        return {
+          success: false,
+          error: 'not_found',
+          message: 'Challenge not found',
+        };
+      }
+      return {
+        success: false,
+        error: 'illegal_transition',
+        message: `Cannot change challenge status from ${current.status} to ${to}`,
+      };
+    }
+
+    logger.info(`Challenge ${challengeId} status changed to ${to}`);
+    SocketEvents.challengeStatusChanged(challengeId, to, challenge);
+
+    // Snapshot scores and decide winners once the game is over. The status
+    // is already written, so a failure is left for the sync job to retry.
+    if (to === ChallengeStatus.FINISHED) {
+      try {
+        await challengeFinalizationService.finalize(challenge);
+      } catch (error) {
+        logger.error(`Error finalizing challenge ${challengeId}:`, error);
+      }
+    }
+
+    return { success: true, challenge };
+  }
+
+  /**
+   * Walk a challenge forward along PENDING → ACTIVE → LIVE → FINISHED up to
+   * `to`, one legal transition at a time. Used by the game status sync, which
+   * may see a game go live before every invitation was answered.
+   */
+  async advanceTo(
+    challenge: IChallenge,
+    to: ChallengeStatusType
+  ): Promise<StatusTransitionResult> {
+    const steps = LIFECYCLE.slice(
+      LIFECYCLE.indexOf(challenge.status) + 1,
+      LIFECYCLE.indexOf(to) + 1
+    );
+    if (!LIFECYCLE.includes(challenge.status) || steps.length === 0) {
+      return {
+        success: false,
+        error: 'illegal_transition',
+        message: `Cannot change challenge status from ${challenge.status} to ${to}`,
+      };
+    }
+
+    let result: StatusTransitionResult = { success: true, challenge };
+    for (const step of steps) {
+      result = await this.transition(challenge.id, step);
+      if (!result.success) break;
+    }
+    return result;
+  }
+}
+
+// Export singleton instance
+export const challengeStatusService = new ChallengeStatusService();
+export default challengeStatusService;
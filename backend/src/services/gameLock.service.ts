@@ -0,0 +1,111 @@
+import { GameStatus, nhlService } from './nhl.service';
+import logger from '../utils/logger.util';
+
+// Lock state attached to ticket and challenge responses
+export type LockState = {
+  isLocked: boolean;
+  lockedAt: string | null; // puck drop (ISO 8601 UTC), if known
+};
+
+const UNLOCKED: LockState = { isLocked: false, lockedAt: null };
+
+// A game that started longer ago than this is over, overtime and delays included
+export const GAME_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+export class GameLockService {
+  /**
+   * Tickets and challenge membership lock at puck drop: once the game is
+   * live/finished or its scheduled start has passed.
+   * @param gameId - The NHL game ID
+   * @param fallbackStart - Stored start time, used when the NHL API is unavailable
+   */
+  async getLockState(
+    gameId: string | number | undefined,
+    fallbackStart?: string | Date
+  ): Promise<LockState> {
+    if (gameId == null || gameId === '') return UNLOCKED;
+
+    let status: GameStatus | null = null;
+    try {
+      status = await nhlService.getGameStatus(gameId.toString());
+    } catch (error) {
+      logger.warn(`Could not fetch game status for lock check: ${gameId}`);
+    }
+
+    return this.resolveLockState(status, fallbackStart);
+  }
+
+  resolveLockState(
+    status: GameStatus | null,
+    fallbackStart?: string | Date
+  ): LockState {
+    const start = status?.startTimeUTC ?? fallbackStart;
+    const startTime = start ? new Date(start) : null;
+    const lockedAt =
+      startTime && !isNaN(startTime.getTime()) ? startTime.toISOString() : null;
+
+    const isLocked =
+      !!status?.isLive ||
+      !!status?.isFinished ||
+      (lockedAt !== null && Date.now() >= Date.parse(lockedAt));
+
+    return { isLocked, lockedAt };
+  }
+
+  /**
+   * Attach lock state to tickets for API responses
+   */
+  async withTicketLocks<T extends object>(
+    tickets: T[]
+  ): Promise<(T & LockState)[]> {
+    return this.annotate(tickets, ticket => {
+      const game = (ticket as { game?: { id?: number; startTimeUTC?: string } })
+        .game;
+      return [game?.id, game?.startTimeUTC];
+    });
+  }
+
+  /**
+   * Attach lock state to challenges for API responses
+   */
+  async withChallengeLocks<T extends object>(
+    challenges: T[]
+  ): Promise<(T & LockState)[]> {
+    return this.annotate(challenges, challenge => {
+      const { gameId, gameStartTime } = challenge as {
+        gameId?: string;
+        gameStartTime?: Date;
+      };
+      return [gameId, gameStartTime];
+    });
+  }
+
+  private async annotate<T extends object>(
+    docs: T[],
+    gameOf: (doc: T) => [string | number | undefined, (string | Date)?]
+  ): Promise<(T & LockState)[]> {
+    // One status lookup per game, however many documents share it
+    const lockByGame = new Map<string, Promise<LockState>>();
+    const lockFor = (doc: T) => {
+      const [gameId, fallbackStart] = gameOf(doc);
+      const key = String(gameId);
+      if (!lockByGame.has(key)) {
+        lockByGame.set(key, this.getLockState(gameId, fallbackStart));
+      }
+      return lockByGame.get(key)!;
+    };
+
+    return Promise.all(
+      docs.map(async doc => {
+        // Flatten Mongoose documents with toJSON so Maps (ticketIds) survive
+        const toJSON = (doc as { toJSON?: () => T }).toJSON;
+        const plain = typeof toJSON === 'function' ? toJSON.call(doc) : doc;
+        return { ...plain, ...(await lockFor(doc)) };
+      })
+    );
+  }
+}
+
+// Export singleton instance
+export const gameLockService = new GameLockService();
+export default gameLockService;
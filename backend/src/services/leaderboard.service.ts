@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import { Ticket } from '../models/tickets.model';
+import { challengeModel } from '../models/challenges.model';
+import {
+  IChallenge,
+  LeaderboardEntry,
+  ScoringProfile,
+} from '../types/challenges.types';
+import { BingoTicketScore } from '../types/tickets.types';
+import SocketEvents from '../utils/socket.events';
+import { computeTicketScore, SCORING_PROFILES } from '../utils/score.util';
+import logger from '../utils/logger.util';
+
+const EMPTY_SCORE: BingoTicketScore = {
+  noCrossedOff: 0,
+  noRows: 0,
+  noColumns: 0,
+  noCrosses: 0,
+  total: 0,
+  weightedTotal: 0,
+};
+
+// Score field a challenge ranks by
+type RankBy = 'total' | 'weightedTotal';
+
+type UnrankedEntry = Omit<LeaderboardEntry, 'rank' | 'tieBreak'>;
+
+export class LeaderboardService {
+  /**
+   * Build the ranked leaderboard for a challenge from its members' tickets.
+   * Scores are recomputed with the challenge's scoring profile, so the same
+   * ticket can score differently in two challenges. Weighted challenges
+   * rank by weightedTotal instead of total.
+   */
+  async getLeaderboard(challenge: IChallenge): Promise<LeaderboardEntry[]> {
+    const ticketIdByUser = this.ticketIdsOf(challenge);
+    const ticketIds = Object.values(ticketIdByUser).filter(id =>
+      mongoose.isValidObjectId(id)
+    );
+
+    const User = mongoose.model('User');
+    const [tickets, users] = await Promise.all([
+      Ticket.find({ _id: { $in: ticketIds } }),
+      User.find({ _id: { $in: challenge.memberIds } }),
+    ]);
+
+    const weights = challenge.scoring?.weights ?? SCORING_PROFILES.classic;
+    const ticketsById = new Map(tickets.map(t => [t._id.toString(), t]));
+    const namesById = new Map(users.map(u => [u._id.toString(), u.name]));
+
+    const entries: UnrankedEntry[] = challenge.memberIds.map(
+      (userId, index) => {
+        const ticketId = ticketIdByUser[userId] ?? null;
+        const ticket = ticketId ? ticketsById.get(ticketId) : undefined;
+        return {
+          userId,
+          name:
+            namesById.get(userId) ??
+            challenge.memberNames[index] ??
+            'Unknown User',
+          ticketId: ticket ? ticketId : null,
+          score: ticket
+            ? computeTicketScore(
+                ticket.crossedOff,
+                ticket.gridSize,
+                weights,
+                ticket.squareWeights ?? undefined
+              )
+            : { ...EMPTY_SCORE },
+        };
+      }
+    );
+
+    const rankBy: RankBy =
+      challenge.scoring?.profile === ScoringProfile.WEIGHTED
+        ? 'weightedTotal'
+        : 'total';
+    return this.rankEntries(entries, rankBy);
+  }
+
+  /**
+   * Sort and rank entries. Tie-break rules, in order:
+   * 1. Higher score total (or weightedTotal)
+   * 2. More completed lines (rows + columns + diagonals)
+   * 3. More crossed-off squares
+   * Members still level after all three share the same rank, and members
+   * without a ticket always come last.
+   */
+  rankEntries(
+    entries: UnrankedEntry[],
+    rankBy: RankBy = 'total'
+  ): LeaderboardEntry[] {
+    const lines = (score: BingoTicketScore) =>
+      score.noRows + score.noColumns + score.noCrosses;
+    const compare = (a: UnrankedEntry, b: UnrankedEntry) =>
+      Number(!!b.ticketId) - Number(!!a.ticketId) ||
+      b.score[rankBy] - a.score[rankBy] ||
+      lines(b.score) - lines(a.score) ||
+      b.score.noCrossedOff - a.score.noCrossedOff;
+
+    const sorted = [...entries].sort(compare);
+
+    return sorted.map((entry, index) => {
+      const firstEqual = sorted.findIndex(other => compare(other, entry) === 0);
+      const tied = sorted.some(
+        (other, i) => i !== index && compare(other, entry) === 0
+      );
+      return {
+        ...entry,
+        rank: firstEqual + 1,
+        tieBreak: {
+          lines: lines(entry.score),
+          squares: entry.score.noCrossedOff,
+          tied,
+        },
+      };
+    });
+  }
+
+  /**
+   * Push fresh standings to every challenge that a ticket is entered in.
+   * Errors are logged rather than thrown so score updates never fail on them.
+   */
+  async publishForTicket(userId: string, ticketId: string): Promise<void> {
+    try {
+      const challenges = await challengeModel.findByTicket(userId, ticketId);
+      for (const challenge of challenges) {
+        const leaderboard = await this.getLeaderboard(challenge);
+        SocketEvents.leaderboardUpdated(challenge.id, leaderboard);
+      }
+    } catch (error) {
+      logger.error(
+        `Error publishing leaderboard for ticket ${ticketId}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  private ticketIdsOf(challenge: IChallenge): { [userId: string]: string } {
+    const ticketIds = challenge.ticketIds as unknown;
+    if (ticketIds instanceof Map) {
+      return Object.fromEntries(ticketIds);
+    }
+    return (ticketIds as { [userId: string]: string }) ?? {};
+  }
+}
+
+// Export singleton instance
+export const leaderboardService = new LeaderboardService();
+export default leaderboardService;
@@ -1,8 +1,16 @@
 import axios from 'axios';
 import logger from '../utils/logger.util';
+import {
+  Boxscore,
+  ClubStats,
+  PlayByPlay,
+  TeamRoster,
+} from '../types/nhl.types';
 
 // NHL API base URL - using the new NHL API (as of 2024+)
 const NHL_API_BASE = 'https://api-web.nhle.com/v1';
+// Team logos are only ever fetched from the NHL's asset host
+const NHL_ASSETS_BASE = 'https://assets.nhle.com/';
 
 export interface GameStatus {
   gameId: string;
@@ -19,6 +27,19 @@ export class NHLService {
   private cache: Map<string, { data: GameStatus; timestamp: number }> =
     new Map();
   private readonly CACHE_TTL = 30000; // 30 seconds cache
+  private boxscoreCache: Map<string, { data: Boxscore; timestamp: number }> =
+    new Map();
+  private playByPlayCache: Map<
+    string,
+    { data: PlayByPlay; timestamp: number }
+  > = new Map();
+  private rosterCache: Map<string, { data: TeamRoster; timestamp: number }> =
+    new Map();
+  private clubStatsCache: Map<string, { data: ClubStats; timestamp: number }> =
+    new Map();
+  private logoCache: Map<string, { data: string; timestamp: number }> =
+    new Map();
+  private readonly ROSTER_CACHE_TTL = 6 * 60 * 60 * 1000; // rosters rarely change
 
   /**
    * Fetch game status from NHL API
@@ -152,6 +173,218 @@ export class NHLService {
     }
   }
 
+  /**
+   * Fetch the boxscore (team totals and per-player stats) for a game
+   * @param gameId - The NHL game ID
+   * @returns Boxscore object, or null if it could not be fetched
+   */
+  async getBoxscore(gameId: string): Promise<Boxscore | null> {
+    try {
+      const cached = this.boxscoreCache.get(gameId);
+      if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+        logger.debug(`Using cached boxscore for ${gameId}`);
+        return cached.data;
+      }
+
+      const url = `${NHL_API_BASE}/gamecenter/${gameId}/boxscore`;
+      logger.debug(`Fetching boxscore from: ${url}`);
+
+      const response = await axios.get(url, {
+        timeout: 10000,
+        headers: {
+          'User-Agent': 'Hockey-Prediction-App/1.0',
+        },
+      });
+
+      if (!response.data) {
+        logger.warn(`No boxscore returned for game ${gameId}`);
+        return null;
+      }
+
+      const boxscore = response.data as Boxscore;
+      this.boxscoreCache.set(gameId, { data: boxscore, timestamp: Date.now() });
+
+      return boxscore;
+    } catch (error) {
+      logger.error(
+        `Error fetching boxscore for game ${gameId}:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the play-by-play feed for a game (used for period-scoped stats)
+   * @param gameId - The NHL game ID
+   * @returns PlayByPlay object, or null if it could not be fetched
+   */
+  async getPlayByPlay(gameId: string): Promise<PlayByPlay | null> {
+    try {
+      const cached = this.playByPlayCache.get(gameId);
+      if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+        logger.debug(`Using cached play-by-play for ${gameId}`);
+        return cached.data;
+      }
+
+      const url = `${NHL_API_BASE}/gamecenter/${gameId}/play-by-play`;
+      logger.debug(`Fetching play-by-play from: ${url}`);
+
+      const response = await axios.get(url, {
+        timeout: 10000,
+        headers: {
+          'User-Agent': 'Hockey-Prediction-App/1.0',
+        },
+      });
+
+      if (!response.data) {
+        logger.warn(`No play-by-play returned for game ${gameId}`);
+        return null;
+      }
+
+      const playByPlay = response.data as PlayByPlay;
+      this.playByPlayCache.set(gameId, {
+        data: playByPlay,
+        timestamp: Date.now(),
+      });
+
+      return playByPlay;
+    } catch (error) {
+      logger.error(
+        `Error fetching play-by-play for game ${gameId}:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a team's current roster (used to validate ticket players)
+   * @param teamAbbrev - Team abbreviation, e.g. "VAN"
+   * @returns TeamRoster object, or null if it could not be fetched
+   */
+  async getTeamRoster(teamAbbrev: string): Promise<TeamRoster | null> {
+    try {
+      const cached = this.rosterCache.get(teamAbbrev);
+      if (cached && Date.now() - cached.timestamp < this.ROSTER_CACHE_TTL) {
+        logger.debug(`Using cached roster for ${teamAbbrev}`);
+        return cached.data;
+      }
+
+      const url = `${NHL_API_BASE}/roster/${teamAbbrev}/current`;
+      logger.debug(`Fetching roster from: ${url}`);
+
+      const response = await axios.get(url, {
+        timeout: 10000,
+        headers: {
+          'User-Agent': 'Hockey-Prediction-App/1.0',
+        },
+      });
+
+      if (!response.data) {
+        logger.warn(`No roster returned for team ${teamAbbrev}`);
+        return null;
+      }
+
+      const roster = response.data as TeamRoster;
+      this.rosterCache.set(teamAbbrev, { data: roster, timestamp: Date.now() });
+
+      return roster;
+    } catch (error) {
+      logger.error(
+        `Error fetching roster for team ${teamAbbrev}:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a team's current season player stats (used to resolve templates)
+   * @param teamAbbrev - Team abbreviation, e.g. "VAN"
+   * @returns ClubStats object, or null if it could not be fetched
+   */
+  async getClubStats(teamAbbrev: string): Promise<ClubStats | null> {
+    try {
+      const cached = this.clubStatsCache.get(teamAbbrev);
+      if (cached && Date.now() - cached.timestamp < this.ROSTER_CACHE_TTL) {
+        logger.debug(`Using cached club stats for ${teamAbbrev}`);
+        return cached.data;
+      }
+
+      const url = `${NHL_API_BASE}/club-stats/${teamAbbrev}/now`;
+      logger.debug(`Fetching club stats from: ${url}`);
+
+      const response = await axios.get(url, {
+        timeout: 10000,
+        headers: {
+          'User-Agent': 'Hockey-Prediction-App/1.0',
+        },
+      });
+
+      if (!response.data) {
+        logger.warn(`No club stats returned for team ${teamAbbrev}`);
+        return null;
+      }
+
+      const stats = response.data as ClubStats;
+      this.clubStatsCache.set(teamAbbrev, {
+        data: stats,
+        timestamp: Date.now(),
+      });
+
+      return stats;
+    } catch (error) {
+      logger.error(
+        `Error fetching club stats for team ${teamAbbrev}:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Get a team logo as a data URI, for embedding in rendered images.
+   * Uses the game's logo URL when it is an NHL asset, otherwise the
+   * standard logo for the abbreviation.
+   */
+  async getTeamLogo(
+    teamAbbrev: string,
+    logoUrl?: string
+  ): Promise<string | null> {
+    const url = logoUrl?.startsWith(NHL_ASSETS_BASE)
+      ? logoUrl
+      : `${NHL_ASSETS_BASE}logos/nhl/svg/${teamAbbrev}_light.svg`;
+    try {
+      const cached = this.logoCache.get(url);
+      if (cached && Date.now() - cached.timestamp < this.ROSTER_CACHE_TTL) {
+        return cached.data;
+      }
+
+      const response = await axios.get(url, {
+        timeout: 10000,
+        responseType: 'arraybuffer',
+        headers: {
+          'User-Agent': 'Hockey-Prediction-App/1.0',
+        },
+      });
+
+      const contentType = String(
+        response.headers['content-type'] ?? 'image/svg+xml'
+      ).split(';')[0];
+      const data = `data:${contentType};base64,${Buffer.from(response.data).toString('base64')}`;
+      this.logoCache.set(url, { data, timestamp: Date.now() });
+
+      return data;
+    } catch (error) {
+      logger.warn(
+        `Could not fetch logo for team ${teamAbbrev}:`,
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
   /**
    * Check if game is currently live/in progress
    */
@@ -163,7 +396,7 @@ export class NHLService {
   /**
    * Check if game is finished
    */
-  private isGameFinished(gameState: string): boolean {
+  isGameFinished(gameState: string): boolean {
     const finishedStates = ['OFF', 'FINAL'];
     return finishedStates.includes(gameState.toUpperCase());
   }
@@ -182,9 +415,16 @@ export class NHLService {
   clearCache(gameId?: string) {
     if (gameId) {
       this.cache.delete(gameId);
+      this.boxscoreCache.delete(gameId);
+      this.playByPlayCache.delete(gameId);
       logger.debug(`Cleared cache for game ${gameId}`);
     } else {
       this.cache.clear();
+      this.boxscoreCache.clear();
+      this.playByPlayCache.clear();
+      this.rosterCache.clear();
+      this.clubStatsCache.clear();
+      this.logoCache.clear();
       logger.debug('Cleared all game cache');
     }
   }
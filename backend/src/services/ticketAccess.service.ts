@@ -0,0 +1,65 @@
+import { challengeModel } from '../models/challenges.model';
+import { TicketAccess, TicketAccessType } from '../types/tickets.types';
+
+type OwnedTicket = {
+  _id: unknown;
+  userId: string;
+  shareCode?: string | null;
+};
+
+export class TicketAccessService {
+  /**
+   * Owners have full access. Members of a challenge the ticket is entered
+   * in, and anyone with its current share code, can read it. Everyone else
+   * has no access.
+   */
+  async getAccess(
+    ticket: OwnedTicket,
+    viewerId: string,
+    shareCode?: string
+  ): Promise<TicketAccessType> {
+    if (ticket.userId === viewerId) return TicketAccess.OWNER;
+    if (shareCode && ticket.shareCode === shareCode) {
+      return TicketAccess.READ_ONLY;
+    }
+
+    const challenges = await challengeModel.findByTicket(
+      ticket.userId,
+      String(ticket._id)
+    );
+    return challenges.some(challenge => challenge.memberIds.includes(viewerId))
+      ? TicketAccess.READ_ONLY
+      : TicketAccess.NONE;
+  }
+
+  /**
+   * IDs of the owner's tickets that the viewer can read: the ones the owner
+   * entered in challenges they both belong to
+   */
+  async getSharedTicketIds(
+    ownerId: string,
+    viewerId: string
+  ): Promise<string[]> {
+    const challenges = await challengeModel.findSharedByMembers(
+      ownerId,
+      viewerId
+    );
+    const ticketIds = challenges
+      .map(challenge => challenge.ticketIds?.[ownerId])
+      .filter((id): id is string => !!id);
+    return [...new Set(ticketIds)];
+  }
+
+  // IDs of the owner's tickets entered in any challenge
+  async getChallengeTicketIds(ownerId: string): Promise<string[]> {
+    const challenges = await challengeModel.findWithTicketsFrom(ownerId);
+    const ticketIds = challenges
+      .map(challenge => challenge.ticketIds?.[ownerId])
+      .filter((id): id is string => !!id);
+    return [...new Set(ticketIds)];
+  }
+}
+
+// Export singleton instance
+export const ticketAccessService = new TicketAccessService();
+export default ticketAccessService;
@@ -0,0 +1,217 @@
+import { Resvg } from '@resvg/resvg-js';
+import { DEFAULT_GRID_SIZE, EventCondition } from '../types/tickets.types';
+import { formatEventLabel } from '../utils/eventLabel.util';
+import { nhlService } from './nhl.service';
+
+type CardTeam = { abbrev: string; logo?: string };
+type CardTicket = {
+  name: string;
+  game: { homeTeam: CardTeam; awayTeam: CardTeam };
+  gridSize?: number;
+  events: object[]; // plain conditions or their subdocuments
+  crossedOff?: boolean[];
+  score?: { total?: number } | null;
+};
+
+// Layout, in SVG user units (1 unit = 1 PNG pixel at scale 1)
+const WIDTH = 600;
+const PADDING = 24;
+const HEADER_HEIGHT = 120;
+const FOOTER_HEIGHT = 64;
+const LOGO_SIZE = 56;
+const CELL_GAP = 8;
+const FONT_FAMILY = 'DejaVu Sans, Arial, Helvetica, sans-serif';
+// Label font size per grid size; smaller cells get smaller text
+const LABEL_FONT_SIZE: Record<number, number> = { 3: 16, 4: 13, 5: 11 };
+const CHAR_WIDTH_RATIO = 0.6; // average glyph width / font size
+const PNG_SCALE = 2; // crisp enough for phone screens
+
+const COLORS = {
+  background: '#0b1d35',
+  text: '#ffffff',
+  muted: '#9fb3c8',
+  cell: '#ffffff',
+  cellText: '#0b1d35',
+  crossed: '#f2b705',
+  mark: '#c1121f',
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(
+    /[<>&'"]/g,
+    char =>
+      ({
+        '<': '&lt;',
+        '>': '&gt;',
+        '&': '&amp;',
+        "'": '&apos;',
+        '"': '&quot;',
+      })[char]!
+  );
+
+export class TicketCardService {
+  /**
+   * Draw a ticket as a standalone SVG: teams and logos, the grid with each
+   * square's label and crossed-off mark, and the score total. Logos are
+   * embedded so the image renders anywhere it is shared.
+   */
+  async renderSvg(ticket: CardTicket): Promise<string> {
+    const { homeTeam, awayTeam } = ticket.game;
+    const [homeLogo, awayLogo] = await Promise.all([
+      nhlService.getTeamLogo(homeTeam.abbrev, homeTeam.logo),
+      nhlService.getTeamLogo(awayTeam.abbrev, awayTeam.logo),
+    ]);
+
+    const gridSize = ticket.gridSize ?? DEFAULT_GRID_SIZE;
+    const gridWidth = WIDTH - 2 * PADDING;
+    const height = HEADER_HEIGHT + gridWidth + FOOTER_HEIGHT + PADDING;
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}" font-family="${FONT_FAMILY}">`,
+      `<rect width="${WIDTH}" height="${height}" fill="${COLORS.background}"/>`,
+      this.header(ticket.name, awayTeam, homeTeam, awayLogo, homeLogo),
+      this.grid(ticket, gridSize, gridWidth),
+      this.footer(ticket.score?.total ?? 0, height),
+      '</svg>',
+    ].join('\n');
+  }
+
+  async renderPng(ticket: CardTicket): Promise<Buffer> {
+    const svg = await this.renderSvg(ticket);
+    const resvg = new Resvg(svg, {
+      fitTo: { mode: 'zoom', value: PNG_SCALE },
+      font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' },
+    });
+    return resvg.render().asPng();
+  }
+
+  // "AWAY @ HOME" between the two logos, ticket name underneath
+  private header(
+    name: string,
+    away: CardTeam,
+    home: CardTeam,
+    awayLogo: string | null,
+    homeLogo: string | null
+  ): string {
+    const logoY = PADDING;
+    const centerX = WIDTH / 2;
+    const logo = (x: number, data: string | null, abbrev: string) =>
+      data
+        ? `<image x="${x}" y="${logoY}" width="${LOGO_SIZE}" height="${LOGO_SIZE}" href="${data}"/>`
+        : this.text(x + LOGO_SIZE / 2, logoY + LOGO_SIZE / 2 + 6, abbrev, {
+            size: 18,
+            weight: 'bold',
+          });
+
+    return [
+      logo(PADDING, awayLogo, away.abbrev),
+      logo(WIDTH - PADDING - LOGO_SIZE, homeLogo, home.abbrev),
+      this.text(
+        centerX,
+        logoY + LOGO_SIZE / 2 + 8,
+        `${away.abbrev} @ ${home.abbrev}`,
+        { size: 24, weight: 'bold' }
+      ),
+      this.text(centerX, HEADER_HEIGHT - 20, name, {
+        size: 16,
+        color: COLORS.muted,
+      }),
+    ].join('\n');
+  }
+
+  private grid(ticket: CardTicket, gridSize: number, gridWidth: number) {
+    const cellSize = (gridWidth - (gridSize - 1) * CELL_GAP) / gridSize;
+    const fontSize = LABEL_FONT_SIZE[gridSize] ?? 11;
+
+    return ticket.events
+      .slice(0, gridSize * gridSize)
+      .map((event, i) => {
+        const x = PADDING + (i % gridSize) * (cellSize + CELL_GAP);
+        const y =
+          HEADER_HEIGHT + Math.floor(i / gridSize) * (cellSize + CELL_GAP);
+        const crossed = !!ticket.crossedOff?.[i];
+        const lines = this.wrap(
+          formatEventLabel(event as EventCondition),
+          Math.floor((cellSize - 12) / (fontSize * CHAR_WIDTH_RATIO)),
+          Math.floor((cellSize - 12) / (fontSize * 1.2))
+        );
+        const firstLineY =
+          y +
+          cellSize / 2 -
+          ((lines.length - 1) * fontSize * 1.2) / 2 +
+          fontSize / 3;
+
+        return [
+          `<rect x="${x}" y="${y}" width="${cellSize}" height="${cellSize}" rx="8" fill="${crossed ? COLORS.crossed : COLORS.cell}"/>`,
+          crossed ? this.cross(x, y, cellSize) : '',
+          ...lines.map((line, n) =>
+            this.text(x + cellSize / 2, firstLineY + n * fontSize * 1.2, line, {
+              size: fontSize,
+              color: COLORS.cellText,
+            })
+          ),
+        ].join('\n');
+      })
+      .join('\n');
+  }
+
+  private footer(total: number, height: number): string {
+    return this.text(WIDTH / 2, height - PADDING - 14, `Score: ${total}`, {
+      size: 28,
+      weight: 'bold',
+    });
+  }
+
+  // Two translucent strokes corner to corner, drawn under the label
+  private cross(x: number, y: number, size: number): string {
+    const inset = size * 0.15;
+    const [x1, y1, x2, y2] = [
+      x + inset,
+      y + inset,
+      x + size - inset,
+      y + size - inset,
+    ];
+    const stroke = `stroke="${COLORS.mark}" stroke-width="6" stroke-linecap="round" opacity="0.35"`;
+    return [
+      `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" ${stroke}/>`,
+      `<line x1="${x2}" y1="${y1}" x2="${x1}" y2="${y2}" ${stroke}/>`,
+    ].join('\n');
+  }
+
+  private text(
+    x: number,
+    y: number,
+    content: string,
+    style: { size: number; weight?: string; color?: string }
+  ): string {
+    return `<text x="${x}" y="${y}" font-size="${style.size}" font-weight="${style.weight ?? 'normal'}" fill="${style.color ?? COLORS.text}" text-anchor="middle">${escapeXml(content)}</text>`;
+  }
+
+  /**
+   * Word-wrap a label into at most maxLines lines of about maxChars each,
+   * ending with an ellipsis if it does not fit
+   */
+  private wrap(label: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of label.split(/\s+/)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length <= maxChars || !current) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    if (current) lines.push(current);
+
+    if (lines.length <= maxLines) return lines;
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+    return kept;
+  }
+}
+
+// Export singleton instance
+export const ticketCardService = new TicketCardService();
+export default ticketCardService;
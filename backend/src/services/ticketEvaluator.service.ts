@@ -0,0 +1,551 @@
+import { Ticket } from '../models/tickets.model';
+import { ticketHistoryModel } from '../models/ticketHistory.model';
+import {
+  ComparisonType,
+  ConditionOperator,
+  EventCategory,
+  EventCondition,
+  TicketHistorySource,
+} from '../types/tickets.types';
+import {
+  Boxscore,
+  BoxscoreTeamPlayers,
+  GoalieStats,
+  Play,
+  PlayByPlay,
+  SkaterStats,
+} from '../types/nhl.types';
+import { nhlService } from './nhl.service';
+import { leaderboardService } from './leaderboard.service';
+import { boxscoreArchive } from './boxscoreArchive.service';
+import { computeTicketScore, SCORING_PROFILES } from '../utils/score.util';
+import SocketEvents from '../utils/socket.events';
+import logger from '../utils/logger.util';
+
+export class TicketEvaluatorService {
+  /**
+   * Re-evaluate every ticket for a game against its latest boxscore and
+   * persist crossedOff/score for the tickets that changed
+   * @param gameId - The NHL game ID
+   * @returns number of tickets updated
+   */
+  async evaluateGame(gameId: string): Promise<number> {
+    const boxscore = await nhlService.getBoxscore(gameId);
+    if (!boxscore) {
+      logger.warn(`Skipping evaluation for game ${gameId}: no boxscore`);
+      return 0;
+    }
+
+    // Final boxscores feed the square odds estimates
+    if (nhlService.isGameFinished(boxscore.gameState ?? '')) {
+      await boxscoreArchive.save(boxscore);
+    }
+
+    // Finalized tickets are read-only
+    const tickets = await Ticket.find({
+      'game.id': Number(gameId),
+      isFinalized: { $ne: true },
+    });
+    let updatedCount = 0;
+
+    // Period-scoped squares are counted from the play-by-play feed
+    const needsPlayByPlay = tickets.some(ticket =>
+      (ticket.events as unknown as EventCondition[]).some(event =>
+        this.hasPeriodCondition(event)
+      )
+    );
+    const playByPlay = needsPlayByPlay
+      ? await nhlService.getPlayByPlay(gameId)
+      : null;
+
+    for (const ticket of tickets) {
+      const crossedOff = this.evaluateTicket(
+        ticket.events as unknown as EventCondition[],
+        boxscore,
+        playByPlay
+      );
+      if (this.sameSquares(crossedOff, ticket.crossedOff)) continue;
+
+      const score = computeTicketScore(
+        crossedOff,
+        ticket.gridSize,
+        SCORING_PROFILES.classic,
+        ticket.squareWeights ?? undefined
+      );
+      const updated = await Ticket.findByIdAndUpdate(
+        ticket._id,
+        { crossedOff, score },
+        { new: true }
+      );
+
+      if (updated) {
+        updatedCount++;
+        await ticketHistoryModel.record(
+          { ticketId: updated._id.toString(), userId: updated.userId },
+          {
+            before: ticket.crossedOff,
+            after: crossedOff,
+            scoreBefore: ticket.score ?? undefined,
+            scoreAfter: score,
+            source: TicketHistorySource.EVALUATOR,
+          }
+        );
+        SocketEvents.ticketUpdated(updated.userId, updated);
+        await leaderboardService.publishForTicket(
+          updated.userId,
+          updated._id.toString()
+        );
+      }
+    }
+
+    logger.info(
+      `Evaluated ${tickets.length} ticket(s) for game ${gameId}, ${updatedCount} updated`
+    );
+    return updatedCount;
+  }
+
+  /**
+   * Compute the crossedOff array for a ticket's events from a boxscore.
+   * The play-by-play is only needed for period-scoped conditions.
+   */
+  evaluateTicket(
+    events: EventCondition[],
+    boxscore: Boxscore,
+    playByPlay: PlayByPlay | null = null
+  ): boolean[] {
+    const isFinal = nhlService.isGameFinished(boxscore.gameState ?? '');
+    return events.map(event =>
+      this.evaluateCondition(event, boxscore, isFinal, playByPlay)
+    );
+  }
+
+  /**
+   * Return true if the condition (and, for compound squares, its
+   * sub-conditions combined with AND/OR) is satisfied.
+   */
+  evaluateCondition(
+    event: EventCondition,
+    boxscore: Boxscore,
+    isFinal: boolean,
+    playByPlay: PlayByPlay | null = null
+  ): boolean {
+    const satisfied = this.evaluateLeaf(event, boxscore, isFinal, playByPlay);
+    if (!event.operator || !event.conditions?.length) return satisfied;
+
+    const results = [
+      satisfied,
+      ...event.conditions.map(condition =>
+        this.evaluateCondition(condition, boxscore, isFinal, playByPlay)
+      ),
+    ];
+    return event.operator === ConditionOperator.AND
+      ? results.every(Boolean)
+      : results.some(Boolean);
+  }
+
+  /**
+   * Evaluate a single comparison. Player events without a playerId match
+   * if any player of that position (on teamAbbrev, if given) satisfies it.
+   */
+  private evaluateLeaf(
+    event: EventCondition,
+    boxscore: Boxscore,
+    isFinal: boolean,
+    playByPlay: PlayByPlay | null
+  ): boolean {
+    const decided = isFinal || this.isPeriodOver(event, boxscore);
+    return this.getStatValues(event, boxscore, playByPlay).some(value =>
+      this.compare(event, value, decided)
+    );
+  }
+
+  /**
+   * GREATER_THAN matches the app's "N+" labels (value >= threshold), and
+   * like AT_LEAST it is decided as soon as it is reached. LESS_THAN, EQUAL
+   * and BETWEEN can still flip while play goes on, so they only count once
+   * the game (or the condition's period) is over.
+   */
+  private compare(
+    event: EventCondition,
+    value: number,
+    decided: boolean
+  ): boolean {
+    switch (event.comparison) {
+      case ComparisonType.GREATER_THAN:
+      case ComparisonType.AT_LEAST:
+        return value >= event.threshold;
+      case ComparisonType.LESS_THAN:
+        return decided && value < event.threshold;
+      case ComparisonType.EQUAL:
+        return decided && value === event.threshold;
+      case ComparisonType.BETWEEN:
+        return (
+          decided &&
+          value >= event.threshold &&
+          value <= (event.upperThreshold ?? event.threshold)
+        );
+      default:
+        return false;
+    }
+  }
+
+  private isPeriodOver(event: EventCondition, boxscore: Boxscore): boolean {
+    if (event.period == null) return false;
+    return (boxscore.periodDescriptor?.number ?? 0) > event.period;
+  }
+
+  /**
+   * Collect the values an event can be compared against: one for team or
+   * player events, one per eligible player for "any player" events.
+   * Accepts subjects such as "goals", "sog", "saves", "penaltyMinutes" or
+   * "toi", optionally prefixed with "player.", "team." or "goalie.".
+   * Stats that are not available are left out.
+   */
+  getStatValues(
+    event: EventCondition,
+    boxscore: Boxscore,
+    playByPlay: PlayByPlay | null = null
+  ): number[] {
+    const subject = event.subject
+      .replace(/^player\./, '')
+      .replace(/^team\./, '')
+      .replace(/^goalie\./, '');
+
+    const isTeamEvent =
+      event.category === EventCategory.TEAM ||
+      (event.category === EventCategory.PENALTY && event.playerId == null);
+
+    if (event.period != null && !playByPlay) return [];
+
+    const values: (number | null)[] = [];
+    if (isTeamEvent) {
+      values.push(
+        event.period != null
+          ? this.getPeriodTeamStat(
+              playByPlay!,
+              event.teamAbbrev,
+              subject,
+              event.period
+            )
+          : this.getTeamStat(boxscore, event.teamAbbrev, subject)
+      );
+    } else {
+      const playerIds =
+        event.playerId != null
+          ? [event.playerId]
+          : this.eligiblePlayerIds(boxscore, event);
+      for (const playerId of playerIds) {
+        values.push(
+          event.period != null
+            ? this.getPeriodPlayerStat(
+                playByPlay!,
+                playerId,
+                subject,
+                event.period
+              )
+            : this.getPlayerStat(boxscore, playerId, subject)
+        );
+      }
+    }
+
+    return values.filter((value): value is number => value !== null);
+  }
+
+  private getPlayerStat(
+    boxscore: Boxscore,
+    playerId: number,
+    subject: string
+  ): number | null {
+    for (const team of this.teamPlayers(boxscore)) {
+      const skater = this.skaters(team).find(p => p.playerId === playerId);
+      if (skater) return this.getSkaterStat(skater, subject);
+
+      const goalie = (team.goalies ?? []).find(g => g.playerId === playerId);
+      if (goalie) return this.getGoalieStat(goalie, subject);
+    }
+
+    return null;
+  }
+
+  /**
+   * Players of the event's position (optionally limited to one team) who
+   * actually got ice time, so a backup goalie never counts as a shutout.
+   */
+  private eligiblePlayerIds(
+    boxscore: Boxscore,
+    event: EventCondition
+  ): number[] {
+    const stats = boxscore.playerByGameStats;
+    if (!stats) return [];
+
+    const teams: BoxscoreTeamPlayers[] = [];
+    if (!event.teamAbbrev || boxscore.homeTeam.abbrev === event.teamAbbrev) {
+      teams.push(stats.homeTeam);
+    }
+    if (!event.teamAbbrev || boxscore.awayTeam.abbrev === event.teamAbbrev) {
+      teams.push(stats.awayTeam);
+    }
+
+    const players = teams.flatMap(team => {
+      switch (event.category) {
+        case EventCategory.FORWARD:
+          return team.forwards ?? [];
+        case EventCategory.DEFENSE:
+          return team.defense ?? [];
+        case EventCategory.GOALIE:
+          return team.goalies ?? [];
+        default:
+          return [];
+      }
+    });
+
+    return players
+      .filter(player => !!player.toi && !/^0?0:00$/.test(player.toi))
+      .map(player => player.playerId);
+  }
+
+  /**
+   * Team stat restricted to one period, counted from the play-by-play
+   */
+  private getPeriodTeamStat(
+    playByPlay: PlayByPlay,
+    teamAbbrev: string | undefined,
+    subject: string,
+    period: number
+  ): number | null {
+    const team = [playByPlay.homeTeam, playByPlay.awayTeam].find(
+      t => t.abbrev === teamAbbrev
+    );
+    if (!team) return null;
+
+    const plays = this.periodPlays(playByPlay, period).filter(
+      play => play.details?.eventOwnerTeamId === team.id
+    );
+    const count = (...types: string[]) =>
+      plays.filter(play => types.includes(play.typeDescKey)).length;
+
+    switch (subject) {
+      case 'goals':
+        return count('goal');
+      case 'sog':
+        return count('goal', 'shot-on-goal');
+      case 'hits':
+        return count('hit');
+      case 'blockedShots':
+        return count('blocked-shot');
+      case 'penaltyMinutes':
+      case 'pim':
+        return this.penaltyMinutes(plays);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Player stat restricted to one period, counted from the play-by-play
+   */
+  private getPeriodPlayerStat(
+    playByPlay: PlayByPlay,
+    playerId: number,
+    subject: string,
+    period: number
+  ): number | null {
+    const plays = this.periodPlays(playByPlay, period);
+    const count = (type: string, matches: (play: Play) => boolean) =>
+      plays.filter(play => play.typeDescKey === type && matches(play)).length;
+
+    const goals = () =>
+      count('goal', play => play.details?.scoringPlayerId === playerId);
+    const assists = () =>
+      count(
+        'goal',
+        play =>
+          play.details?.assist1PlayerId === playerId ||
+          play.details?.assist2PlayerId === playerId
+      );
+    const saves = () =>
+      count('shot-on-goal', play => play.details?.goalieInNetId === playerId);
+    const goalsAgainst = () =>
+      count('goal', play => play.details?.goalieInNetId === playerId);
+
+    switch (subject) {
+      case 'goals':
+        return goals();
+      case 'assists':
+        return assists();
+      case 'points':
+        return goals() + assists();
+      case 'sog':
+        return (
+          goals() +
+          count(
+            'shot-on-goal',
+            play => play.details?.shootingPlayerId === playerId
+          )
+        );
+      case 'hits':
+        return count('hit', play => play.details?.hittingPlayerId === playerId);
+      case 'blockedShots':
+        return count(
+          'blocked-shot',
+          play => play.details?.blockingPlayerId === playerId
+        );
+      case 'pim':
+      case 'penaltyMinutes':
+        return this.penaltyMinutes(
+          plays.filter(play => play.details?.committedByPlayerId === playerId)
+        );
+      case 'saves':
+        return saves();
+      case 'goalsAgainst':
+        return goalsAgainst();
+      case 'shotsAgainst':
+        return saves() + goalsAgainst();
+      default:
+        return null;
+    }
+  }
+
+  private periodPlays(playByPlay: PlayByPlay, period: number): Play[] {
+    return (playByPlay.plays ?? []).filter(
+      play => play.periodDescriptor?.number === period
+    );
+  }
+
+  private penaltyMinutes(plays: Play[]): number {
+    return plays
+      .filter(play => play.typeDescKey === 'penalty')
+      .reduce((sum, play) => sum + (play.details?.duration ?? 0), 0);
+  }
+
+  private getTeamStat(
+    boxscore: Boxscore,
+    teamAbbrev: string | undefined,
+    subject: string
+  ): number | null {
+    if (!teamAbbrev) return null;
+
+    const isHome = boxscore.homeTeam.abbrev === teamAbbrev;
+    if (!isHome && boxscore.awayTeam.abbrev !== teamAbbrev) return null;
+
+    const team = isHome ? boxscore.homeTeam : boxscore.awayTeam;
+    const players = isHome
+      ? boxscore.playerByGameStats?.homeTeam
+      : boxscore.playerByGameStats?.awayTeam;
+
+    switch (subject) {
+      case 'goals':
+        return team.score ?? 0;
+      case 'sog':
+        return team.sog ?? 0;
+      case 'penaltyMinutes':
+      case 'pim':
+        if (!players) return null;
+        return [...this.skaters(players), ...(players.goalies ?? [])].reduce(
+          (sum, player) => sum + (player.pim ?? 0),
+          0
+        );
+      case 'hits':
+      case 'blockedShots':
+      case 'powerPlayGoals':
+        if (!players) return null;
+        return this.skaters(players).reduce(
+          (sum, player) => sum + (player[subject] ?? 0),
+          0
+        );
+      default:
+        return null;
+    }
+  }
+
+  private getSkaterStat(player: SkaterStats, subject: string): number | null {
+    switch (subject) {
+      case 'goals':
+        return player.goals ?? 0;
+      case 'assists':
+        return player.assists ?? 0;
+      case 'points':
+        return player.points ?? 0;
+      case 'hits':
+        return player.hits ?? 0;
+      case 'sog':
+        return player.sog ?? 0;
+      case 'blockedShots':
+        return player.blockedShots ?? 0;
+      case 'plusMinus':
+        return player.plusMinus ?? 0;
+      case 'powerPlayGoals':
+        return player.powerPlayGoals ?? 0;
+      case 'giveaways':
+        return player.giveaways ?? 0;
+      case 'takeaways':
+        return player.takeaways ?? 0;
+      case 'shifts':
+        return player.shifts ?? 0;
+      case 'pim':
+      case 'penaltyMinutes':
+        return player.pim ?? 0;
+      case 'toi':
+        return this.parseToiToMinutes(player.toi);
+      default:
+        return null;
+    }
+  }
+
+  private getGoalieStat(goalie: GoalieStats, subject: string): number | null {
+    switch (subject) {
+      case 'saves':
+        return goalie.saves ?? 0;
+      case 'goalsAgainst':
+        return goalie.goalsAgainst ?? 0;
+      case 'shotsAgainst':
+        return goalie.shotsAgainst ?? 0;
+      case 'pim':
+      case 'penaltyMinutes':
+        return goalie.pim ?? 0;
+      case 'toi':
+        return this.parseToiToMinutes(goalie.toi);
+      default:
+        return null;
+    }
+  }
+
+  private teamPlayers(boxscore: Boxscore): BoxscoreTeamPlayers[] {
+    const stats = boxscore.playerByGameStats;
+    return stats ? [stats.homeTeam, stats.awayTeam] : [];
+  }
+
+  private skaters(team: BoxscoreTeamPlayers): SkaterStats[] {
+    return [...(team.forwards ?? []), ...(team.defense ?? [])];
+  }
+
+  /**
+   * Parse TOI "MM:SS" (or "H:MM:SS") into whole minutes
+   */
+  private parseToiToMinutes(toi?: string): number {
+    if (!toi) return 0;
+    const parts = toi.split(':').map(part => parseInt(part, 10));
+    if (parts.some(isNaN)) return 0;
+    if (parts.length === 2) return parts[0];
+    if (parts.length === 3) return parts[0] * 60 + parts[1];
+    return 0;
+  }
+
+  private hasPeriodCondition(event: EventCondition): boolean {
+    return (
+      event.period != null ||
+      (event.conditions ?? []).some(condition =>
+        this.hasPeriodCondition(condition)
+      )
+    );
+  }
+
+  private sameSquares(a: boolean[], b: boolean[] | undefined): boolean {
+    if (!b || a.length !== b.length) return false;
+    return a.every((value, i) => value === !!b[i]);
+  }
+}
+
+// Export singleton instance
+export const ticketEvaluatorService = new TicketEvaluatorService();
+export default ticketEvaluatorService;
@@ -0,0 +1,289 @@
+import { randomUUID } from 'crypto';
+import {
+  CreateTicketBody,
+  createTicketSchema,
+  TicketImportError,
+} from '../types/tickets.types';
+import { CsvRow, parseCsv, toCsv } from '../utils/csv.util';
+import { ticketValidationService } from './ticketValidation.service';
+import { gameLockService } from './gameLock.service';
+
+type StoredTicket = {
+  _id: unknown;
+  name: string;
+  game: {
+    id: number;
+    startTimeUTC?: string;
+    homeTeam: { abbrev: string; logo?: string };
+    awayTeam: { abbrev: string; logo?: string };
+  };
+  gridSize?: number;
+  events: object[]; // plain conditions or their subdocuments
+};
+
+// A ticket read from an import, before validation. CSV tickets remember
+// the line of each square's row so errors can point at it.
+type ImportCandidate = { data: unknown; rows?: number[] };
+
+// One row per square; ticket columns repeat on every row of the ticket
+const CSV_COLUMNS = [
+  'ticket',
+  'name',
+  'gameId',
+  'startTimeUTC',
+  'homeTeam',
+  'awayTeam',
+  'gridSize',
+  'squareId',
+  'category',
+  'subject',
+  'comparison',
+  'threshold',
+  'upperThreshold',
+  'period',
+  'teamAbbrev',
+  'playerId',
+  'playerName',
+  'weight',
+  'operator',
+  'conditions', // JSON array of sub-conditions for compound squares
+] as const;
+
+const REQUIRED_COLUMNS = [
+  'ticket',
+  'name',
+  'gameId',
+  'homeTeam',
+  'awayTeam',
+  'category',
+  'subject',
+  'comparison',
+  'threshold',
+];
+
+// Drop empty values (and flatten subdocuments) so exports round-trip
+// through createTicketSchema
+const compact = <T extends object>(value: T): T =>
+  JSON.parse(JSON.stringify(value, (_, v) => (v === null ? undefined : v)));
+
+export class TicketFileService {
+  /**
+   * A ticket as createTicketSchema input, so an export can be imported again
+   */
+  toDefinition(ticket: StoredTicket): CreateTicketBody {
+    const { id, startTimeUTC, homeTeam, awayTeam } = ticket.game;
+    return compact({
+      name: ticket.name,
+      game: {
+        id,
+        startTimeUTC,
+        homeTeam: { abbrev: homeTeam.abbrev, logo: homeTeam.logo },
+        awayTeam: { abbrev: awayTeam.abbrev, logo: awayTeam.logo },
+      },
+      gridSize: ticket.gridSize,
+      events: ticket.events,
+    }) as CreateTicketBody;
+  }
+
+  toCsv(ticket: StoredTicket): string {
+    const { name, game, gridSize, events } = this.toDefinition(ticket);
+    const rows = events.map(({ conditions, ...event }) => [
+      String(ticket._id),
+      name,
+      game.id,
+      game.startTimeUTC,
+      game.homeTeam.abbrev,
+      game.awayTeam.abbrev,
+      gridSize,
+      event.id,
+      event.category,
+      event.subject,
+      event.comparison,
+      event.threshold,
+      event.upperThreshold,
+      event.period,
+      event.teamAbbrev,
+      event.playerId,
+      event.playerName,
+      event.weight,
+      event.operator,
+      conditions?.length ? JSON.stringify(conditions) : undefined,
+    ]);
+    return toCsv([...CSV_COLUMNS], rows);
+  }
+
+  fromJson(tickets: unknown[]): ImportCandidate[] {
+    return tickets.map(data => ({ data }));
+  }
+
+  /**
+   * Group CSV rows into tickets by their `ticket` column, in order of first
+   * appearance. Rows that cannot be read are reported by line.
+   */
+  fromCsv(csv: string): {
+    candidates: ImportCandidate[];
+    errors: TicketImportError[];
+  } {
+    let records: CsvRow[];
+    try {
+      records = parseCsv(csv);
+    } catch (error) {
+      return {
+        candidates: [],
+        errors: [{ field: 'csv', message: (error as Error).message }],
+      };
+    }
+
+    const [header, ...rows] = records;
+    const missing = REQUIRED_COLUMNS.filter(
+      column => !header?.fields.includes(column)
+    );
+    if (!header || missing.length > 0) {
+      return {
+        candidates: [],
+        errors: missing.map(column => ({
+          row: 1,
+          field: column,
+          message: 'Missing column',
+        })),
+      };
+    }
+
+    const errors: TicketImportError[] = [];
+    const groups = new Map<
+      string,
+      { cells: Record<string, string>[]; rows: number[] }
+    >();
+    for (const { line, fields } of rows) {
+      const cells = Object.fromEntries(
+        header.fields.map((column, i) => [column, (fields[i] ?? '').trim()])
+      );
+      if (!cells.ticket) {
+        errors.push({ row: line, field: 'ticket', message: 'Required' });
+        continue;
+      }
+      const group = groups.get(cells.ticket) ?? { cells: [], rows: [] };
+      group.cells.push(cells);
+      group.rows.push(line);
+      groups.set(cells.ticket, group);
+    }
+
+    const candidates = [...groups.values()].map(({ cells, rows }, ticket) => {
+      const first = cells[0];
+      const events = cells.map((row, square) => {
+        let conditions: unknown;
+        if (row.conditions) {
+          try {
+            conditions = JSON.parse(row.conditions);
+          } catch {
+            errors.push({
+              ticket,
+              row: rows[square],
+              field: `events.${square}.conditions`,
+              message: 'Invalid JSON',
+            });
+          }
+        }
+        return compact({
+          id: row.squareId || randomUUID(),
+          category: row.category,
+          subject: row.subject,
+          comparison: row.comparison,
+          threshold: this.number(row.threshold),
+          upperThreshold: this.number(row.upperThreshold),
+          period: this.number(row.period),
+          teamAbbrev: row.teamAbbrev || undefined,
+          playerId: this.number(row.playerId),
+          playerName: row.playerName || undefined,
+          weight: this.number(row.weight),
+          operator: row.operator || undefined,
+          conditions,
+        });
+      });
+
+      return {
+        data: compact({
+          name: first.name,
+          game: {
+            id: this.number(first.gameId),
+            startTimeUTC: first.startTimeUTC || undefined,
+            homeTeam: { abbrev: first.homeTeam },
+            awayTeam: { abbrev: first.awayTeam },
+          },
+          gridSize: this.number(first.gridSize),
+          events,
+        }),
+        rows,
+      };
+    });
+
+    return { candidates, errors };
+  }
+
+  /**
+   * Run every candidate through the same checks as POST /api/tickets:
+   * createTicketSchema, squares that fit the game, and an unstarted game.
+   */
+  async validate(candidates: ImportCandidate[]): Promise<{
+    tickets: CreateTicketBody[];
+    errors: TicketImportError[];
+  }> {
+    const tickets: CreateTicketBody[] = [];
+    const errors: TicketImportError[] = [];
+
+    for (const [ticket, { data, rows }] of candidates.entries()) {
+      // Square-level errors point at the square's row, the rest at the first
+      const rowOf = (square?: number) =>
+        rows ? (rows[square ?? 0] ?? rows[0]) : undefined;
+      const fail = (field: string, message: string, square?: number) =>
+        errors.push(compact({ ticket, row: rowOf(square), field, message }));
+
+      const parsed = createTicketSchema.safeParse(data);
+      if (!parsed.success) {
+        parsed.error.issues.forEach(issue => {
+          const square =
+            issue.path[0] === 'events' && typeof issue.path[1] === 'number'
+              ? issue.path[1]
+              : undefined;
+          fail(issue.path.join('.'), issue.message, square);
+        });
+        continue;
+      }
+
+      const { game, events } = parsed.data;
+      const squareErrors = await ticketValidationService.validateSquares(
+        game,
+        events
+      );
+      squareErrors.forEach(error =>
+        fail(error.field, error.message, error.square)
+      );
+
+      const lock = await gameLockService.getLockState(
+        game.id,
+        game.startTimeUTC
+      );
+      if (lock.isLocked) {
+        fail('game', 'Ticket events are locked once the game starts');
+      }
+
+      if (squareErrors.length === 0 && !lock.isLocked) {
+        const { userId, ...definition } = parsed.data;
+        tickets.push(definition);
+      }
+    }
+
+    return { tickets, errors };
+  }
+
+  // Blank cells are absent; anything else non-numeric is left for the schema to reject
+  private number(value: string): number | string | undefined {
+    if (!value) return undefined;
+    const parsed = Number(value);
+    return isNaN(parsed) ? value : parsed;
+  }
+}
+
+// Export singleton instance
+export const ticketFileService = new TicketFileService();
+export default ticketFileService;
@@ -0,0 +1,220 @@
+import { randomUUID } from 'crypto';
+import {
+  ComparisonType,
+  EventCategory,
+  EventCondition,
+  TicketDifficulty,
+  TicketDifficultyType,
+} from '../types/tickets.types';
+import { RosterPlayer, TeamRoster } from '../types/nhl.types';
+import { loadRosters, ROSTER_GROUPS } from '../utils/roster.util';
+
+type GameTeams = {
+  homeTeam: { abbrev: string };
+  awayTeam: { abbrev: string };
+};
+
+/**
+ * A square the generator may use. `thresholds` are the easy/medium/hard
+ * values (null = not used at that difficulty). `target` says who the square
+ * is about: the team, any player of the category, or a specific player
+ * (falling back to any player when the roster is unavailable).
+ */
+type SquareSpec = {
+  subject: string;
+  comparison: ComparisonType;
+  thresholds: [number | null, number | null, number | null];
+  target: 'team' | 'any' | 'player';
+};
+
+const spec = (
+  subject: string,
+  thresholds: SquareSpec['thresholds'],
+  target: SquareSpec['target'],
+  comparison = ComparisonType.GREATER_THAN
+): SquareSpec => ({ subject, comparison, thresholds, target });
+
+// Thresholds are tuned so an easy card fills most squares in a typical game
+const SQUARES: Record<EventCategory, SquareSpec[]> = {
+  [EventCategory.FORWARD]: [
+    spec('sog', [1, 3, 5], 'player'),
+    spec('hits', [1, 2, 4], 'player'),
+    spec('points', [1, 1, 2], 'player'),
+    spec('goals', [null, 1, 2], 'player'),
+    spec('blockedShots', [null, 1, 2], 'player'),
+  ],
+  [EventCategory.DEFENSE]: [
+    spec('blockedShots', [1, 2, 4], 'player'),
+    spec('hits', [1, 2, 4], 'player'),
+    spec('sog', [1, 2, 4], 'player'),
+    spec('points', [null, 1, 2], 'player'),
+  ],
+  // Backup goalies rarely play, so goalie squares are about whoever is in net
+  [EventCategory.GOALIE]: [
+    spec('saves', [15, 25, 35], 'any'),
+    spec('shotsAgainst', [20, 28, 36], 'any'),
+    spec('goalsAgainst', [5, 3, 2], 'any', ComparisonType.LESS_THAN),
+  ],
+  [EventCategory.TEAM]: [
+    spec('sog', [20, 30, 38], 'team'),
+    spec('goals', [2, 3, 5], 'team'),
+    spec('hits', [15, 22, 30], 'team'),
+    spec('blockedShots', [8, 13, 18], 'team'),
+    spec('powerPlayGoals', [null, 1, 2], 'team'),
+  ],
+  [EventCategory.PENALTY]: [
+    spec('penaltyMinutes', [2, 6, 12], 'team'),
+    spec('pim', [null, 2, 4], 'player'),
+  ],
+};
+
+// Category of each square, repeated for larger grids so every card is mixed
+const CATEGORY_MIX: EventCategory[] = [
+  EventCategory.FORWARD,
+  EventCategory.TEAM,
+  EventCategory.DEFENSE,
+  EventCategory.GOALIE,
+  EventCategory.PENALTY,
+  EventCategory.FORWARD,
+  EventCategory.TEAM,
+  EventCategory.DEFENSE,
+  EventCategory.FORWARD,
+];
+
+// Used when a category has run out of unique squares (e.g. no rosters)
+const FALLBACK_CATEGORIES = [
+  EventCategory.TEAM,
+  EventCategory.FORWARD,
+  EventCategory.DEFENSE,
+  EventCategory.GOALIE,
+  EventCategory.PENALTY,
+];
+
+const DIFFICULTY_INDEX: Record<TicketDifficultyType, 0 | 1 | 2> = {
+  [TicketDifficulty.EASY]: 0,
+  [TicketDifficulty.MEDIUM]: 1,
+  [TicketDifficulty.HARD]: 2,
+};
+
+// Player penalty squares are about skaters
+const PENALTY_GROUPS: (keyof TeamRoster)[] = ['forwards', 'defensemen'];
+
+type Square = Omit<EventCondition, 'id'>;
+
+export class TicketGeneratorService {
+  /**
+   * Build a full card for a game from the catalogue subjects and the teams'
+   * rosters, mixing categories and never repeating a square.
+   * @returns gridSize * gridSize squares, row by row
+   */
+  async generate(
+    game: GameTeams,
+    difficulty: TicketDifficultyType,
+    gridSize: number
+  ): Promise<EventCondition[]> {
+    const teams = [game.homeTeam.abbrev, game.awayTeam.abbrev];
+    const rosters = await loadRosters(teams, 'generating any-player squares');
+    const level = DIFFICULTY_INDEX[difficulty];
+    const used = new Set<string>();
+
+    const count = gridSize * gridSize;
+    const categories = this.shuffle(
+      Array.from(
+        { length: count },
+        (_, i) => CATEGORY_MIX[i % CATEGORY_MIX.length]
+      )
+    );
+
+    return categories.map(category => {
+      for (const candidate of [category, ...FALLBACK_CATEGORIES]) {
+        const square = this.pickSquare(candidate, level, teams, rosters, used);
+        if (square) return { id: randomUUID(), ...square };
+      }
+      throw new Error('Not enough distinct squares to fill the ticket');
+    });
+  }
+
+  // Pick an unused square for the category: random subject, team, then player
+  private pickSquare(
+    category: EventCategory,
+    level: 0 | 1 | 2,
+    teams: string[],
+    rosters: Map<string, TeamRoster>,
+    used: Set<string>
+  ): Square | undefined {
+    for (const squareSpec of this.shuffle(SQUARES[category])) {
+      const threshold = squareSpec.thresholds[level];
+      if (threshold === null) continue;
+
+      for (const teamAbbrev of this.shuffle(teams)) {
+        const options = this.targets(category, squareSpec, teamAbbrev, rosters)
+          .map(target => ({
+            category,
+            subject: squareSpec.subject,
+            comparison: squareSpec.comparison,
+            threshold,
+            teamAbbrev,
+            ...target,
+          }))
+          .filter(square => !used.has(this.key(square)));
+
+        if (options.length > 0) {
+          const square = options[Math.floor(Math.random() * options.length)];
+          used.add(this.key(square));
+          return square;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Players a square can be about; [{}] means the team or any player
+  private targets(
+    category: EventCategory,
+    squareSpec: SquareSpec,
+    teamAbbrev: string,
+    rosters: Map<string, TeamRoster>
+  ): { playerId?: number; playerName?: string }[] {
+    if (squareSpec.target !== 'player') return [{}];
+
+    const roster = rosters.get(teamAbbrev);
+    if (!roster) {
+      // Team-level penalty squares already cover PENALTY without a roster
+      return category === EventCategory.PENALTY ? [] : [{}];
+    }
+
+    const groups =
+      category === EventCategory.PENALTY
+        ? PENALTY_GROUPS
+        : (ROSTER_GROUPS[category] ?? []);
+    return groups
+      .flatMap(group => roster[group] ?? [])
+      .map((player: RosterPlayer) => ({
+        playerId: player.id,
+        playerName: `${player.firstName.default} ${player.lastName.default}`,
+      }));
+  }
+
+  private key(square: Square): string {
+    return [
+      square.category,
+      square.subject,
+      square.teamAbbrev,
+      square.playerId ?? '*',
+    ].join('|');
+  }
+
+  // Fisher-Yates shuffle, returns a new array
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+// Export singleton instance
+export const ticketGeneratorService = new TicketGeneratorService();
+export default ticketGeneratorService;
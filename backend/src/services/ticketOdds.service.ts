@@ -0,0 +1,302 @@
+import {
+  BingoTicketScore,
+  ConditionOperator,
+  DEFAULT_GRID_SIZE,
+  EventCategory,
+  EventCondition,
+  MAX_SQUARE_WEIGHT,
+} from '../types/tickets.types';
+import {
+  Boxscore,
+  BoxscoreTeamPlayers,
+  GoalieStats,
+  SkaterStats,
+} from '../types/nhl.types';
+import { boxscoreArchive } from './boxscoreArchive.service';
+import { ticketEvaluatorService } from './ticketEvaluator.service';
+import { computeExpectedScore, SCORING_PROFILES } from '../utils/score.util';
+
+export type SquareOdds = {
+  probability: number | null; // null when no archived game can say anything
+  sampleSize: number; // games (or team/player samples) the estimate is based on
+};
+
+export type TicketOdds = {
+  squares: SquareOdds[];
+  expectedScore: BingoTicketScore | null; // classic scoring
+  gamesInDataset: number;
+};
+
+// Below this many games with the exact teams/players, use league-wide rates
+const MIN_SAMPLE = 5;
+const REGULATION_PERIODS = 3;
+
+// Odds cached per distinct ticket, for as long as the archive is unchanged
+const MAX_CACHED_ODDS = 1000;
+
+type Side = { abbrev: string; players: (SkaterStats | GoalieStats)[] };
+
+type OddsInput = {
+  events?: EventCondition[];
+  gridSize?: number;
+  squareWeights?: number[];
+};
+
+// Mongoose documents serialize through toJSON; plain objects are used as-is
+const hasToJSON = (value: object): value is { toJSON(): unknown } =>
+  'toJSON' in value && typeof value.toJSON === 'function';
+
+export class TicketOddsService {
+  // loadAll returns a new array after each save, which drops the old cache
+  private cache = new WeakMap<Boxscore[], Map<string, TicketOdds>>();
+
+  /**
+   * Attach odds to tickets for API responses
+   */
+  async withTicketOdds<T extends object>(
+    tickets: T[]
+  ): Promise<(Record<string, unknown> & { odds: TicketOdds })[]> {
+    const games = await boxscoreArchive.loadAll();
+    return tickets.map(ticket => {
+      const plain = (hasToJSON(ticket) ? ticket.toJSON() : ticket) as Record<
+        string,
+        unknown
+      > &
+        OddsInput;
+      return { ...plain, odds: this.cachedEstimate(plain, games) };
+    });
+  }
+
+  // Odds only depend on the squares, grid and weights, so equal tickets share them
+  private cachedEstimate(ticket: OddsInput, games: Boxscore[]): TicketOdds {
+    let byTicket = this.cache.get(games);
+    if (!byTicket) {
+      byTicket = new Map();
+      this.cache.set(games, byTicket);
+    }
+
+    const events = ticket.events ?? [];
+    const gridSize = ticket.gridSize ?? DEFAULT_GRID_SIZE;
+    const key = JSON.stringify([events, gridSize, ticket.squareWeights]);
+    const cached = byTicket.get(key);
+    if (cached) return cached;
+
+    const odds = this.estimate(events, gridSize, games, ticket.squareWeights);
+    if (byTicket.size >= MAX_CACHED_ODDS) {
+      byTicket.delete(byTicket.keys().next().value!); // Oldest entry
+    }
+    byTicket.set(key, odds);
+    return odds;
+  }
+
+  /**
+   * Weight of each square for weighted scoring: the explicit weight if set,
+   * otherwise the rounded inverse of its odds (a 1-in-4 square is worth 4),
+   * capped at MAX_SQUARE_WEIGHT. Squares without an estimate are worth 1.
+   */
+  async squareWeights(events: EventCondition[]): Promise<number[]> {
+    const games = await boxscoreArchive.loadAll();
+    return events.map(event => {
+      if (event.weight !== undefined) return event.weight;
+      const { probability } = this.estimateSquare(event, games);
+      if (!probability) return 1;
+      return Math.min(
+        MAX_SQUARE_WEIGHT,
+        Math.max(1, Math.round(1 / probability))
+      );
+    });
+  }
+
+  /**
+   * Estimate each square's chance of being crossed off and the ticket's
+   * expected score from a set of final boxscores.
+   */
+  estimate(
+    events: EventCondition[],
+    gridSize: number,
+    games: Boxscore[],
+    squareWeights?: number[]
+  ): TicketOdds {
+    const squares = events.map(event => this.estimateSquare(event, games));
+    const expectedScore =
+      games.length > 0
+        ? computeExpectedScore(
+            squares.map(square => square.probability ?? 0),
+            gridSize,
+            SCORING_PROFILES.classic,
+            squareWeights
+          )
+        : null;
+    return { squares, expectedScore, gamesInDataset: games.length };
+  }
+
+  /**
+   * Games with the square's own teams and players give the best estimate.
+   * With too few of those, compound squares combine their parts as if
+   * independent and single squares use the rate for any team/player.
+   */
+  estimateSquare(event: EventCondition, games: Boxscore[]): SquareOdds {
+    const direct = games.filter(game => this.involves(event, game));
+    if (direct.length >= MIN_SAMPLE) {
+      return this.rate(direct.map(game => this.occurs(event, game)));
+    }
+
+    if (event.operator && event.conditions?.length) {
+      const { operator, conditions, ...own } = event;
+      const parts = [own, ...conditions].map(part =>
+        this.estimateSquare(part, games)
+      );
+      if (parts.some(part => part.probability === null)) {
+        return { probability: null, sampleSize: 0 };
+      }
+      const odds = parts.map(part => part.probability!);
+      const probability =
+        operator === ConditionOperator.AND
+          ? odds.reduce((a, b) => a * b, 1)
+          : 1 - odds.reduce((a, b) => a * (1 - b), 1);
+      return {
+        probability: this.round(probability),
+        sampleSize: Math.min(...parts.map(part => part.sampleSize)),
+      };
+    }
+
+    return this.rate(
+      games.flatMap(game =>
+        this.variants(event, game).map(variant => this.occurs(variant, game))
+      )
+    );
+  }
+
+  // Laplace-smoothed hit rate, so a handful of games never gives 0 or 1
+  private rate(outcomes: boolean[]): SquareOdds {
+    if (outcomes.length === 0) return { probability: null, sampleSize: 0 };
+    const hits = outcomes.filter(Boolean).length;
+    return {
+      probability: this.round((hits + 1) / (outcomes.length + 2)),
+      sampleSize: outcomes.length,
+    };
+  }
+
+  /**
+   * Whether the condition held at the end of an archived game. Archived games
+   * have no play-by-play, so a regulation period counts as a third of the
+   * game and an overtime period only counts if the game got that far.
+   */
+  private occurs(event: EventCondition, game: Boxscore): boolean {
+    const { operator, conditions, ...own } = event;
+    let satisfied: boolean;
+    if (own.period == null) {
+      satisfied = ticketEvaluatorService.evaluateCondition(own, game, true);
+    } else if (own.period <= REGULATION_PERIODS) {
+      satisfied = ticketEvaluatorService.evaluateCondition(
+        {
+          ...own,
+          period: undefined,
+          threshold: own.threshold * REGULATION_PERIODS,
+          upperThreshold:
+            own.upperThreshold === undefined
+              ? undefined
+              : own.upperThreshold * REGULATION_PERIODS,
+        },
+        game,
+        true
+      );
+    } else {
+      satisfied =
+        (game.periodDescriptor?.number ?? 0) >= own.period &&
+        ticketEvaluatorService.evaluateCondition(
+          { ...own, period: undefined },
+          game,
+          true
+        );
+    }
+
+    if (!operator || !conditions?.length) return satisfied;
+    const results = [
+      satisfied,
+      ...conditions.map(condition => this.occurs(condition, game)),
+    ];
+    return operator === ConditionOperator.AND
+      ? results.every(Boolean)
+      : results.some(Boolean);
+  }
+
+  // The game had every team and player the square refers to
+  private involves(event: EventCondition, game: Boxscore): boolean {
+    const sides = this.sides(game);
+    const teamOk =
+      !event.teamAbbrev || sides.some(side => side.abbrev === event.teamAbbrev);
+    const playerOk =
+      event.playerId == null ||
+      sides.some(side => side.players.some(p => p.playerId === event.playerId));
+    return (
+      teamOk &&
+      playerOk &&
+      (event.conditions ?? []).every(condition =>
+        this.involves(condition, game)
+      )
+    );
+  }
+
+  // The square re-targeted at every team or player in the game it could be about
+  private variants(event: EventCondition, game: Boxscore): EventCondition[] {
+    const sides = this.sides(game);
+    if (event.playerId != null) {
+      return sides.flatMap(side =>
+        side.players
+          .filter(player => this.fitsCategory(player, event.category))
+          .filter(player => this.played(player.toi))
+          .map(player => ({
+            ...event,
+            teamAbbrev: side.abbrev,
+            playerId: player.playerId,
+          }))
+      );
+    }
+    if (event.teamAbbrev) {
+      return sides.map(side => ({ ...event, teamAbbrev: side.abbrev }));
+    }
+    return [event];
+  }
+
+  private sides(game: Boxscore): Side[] {
+    const stats = game.playerByGameStats;
+    const players = (team?: BoxscoreTeamPlayers) => [
+      ...(team?.forwards ?? []),
+      ...(team?.defense ?? []),
+      ...(team?.goalies ?? []),
+    ];
+    return [
+      { abbrev: game.homeTeam.abbrev, players: players(stats?.homeTeam) },
+      { abbrev: game.awayTeam.abbrev, players: players(stats?.awayTeam) },
+    ];
+  }
+
+  private fitsCategory(
+    player: SkaterStats | GoalieStats,
+    category: EventCategory
+  ): boolean {
+    switch (category) {
+      case EventCategory.FORWARD:
+        return ['C', 'L', 'R'].includes(player.position);
+      case EventCategory.DEFENSE:
+        return player.position === 'D';
+      case EventCategory.GOALIE:
+        return player.position === 'G';
+      default:
+        return player.position !== 'G';
+    }
+  }
+
+  private played(toi?: string): boolean {
+    return !!toi && !/^0?0:00$/.test(toi);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+// Export singleton instance
+export const ticketOddsService = new TicketOddsService();
+export default ticketOddsService;
@@ -0,0 +1,214 @@
+import mongoose from 'mongoose';
+import { Ticket } from '../models/tickets.model';
+import {
+  TicketGameState,
+  TicketGameStateType,
+  TicketListQuery,
+  TicketSortField,
+  TicketSortFieldType,
+} from '../types/tickets.types';
+import { GameStatus, nhlService } from './nhl.service';
+import { GAME_WINDOW_MS, gameLockService } from './gameLock.service';
+import { boxscoreArchive } from './boxscoreArchive.service';
+import { ticketAccessService } from './ticketAccess.service';
+import logger from '../utils/logger.util';
+
+type TicketGame = { id?: number; startTimeUTC?: string };
+type StoredGame = TicketGame & { finalized: boolean };
+type SortableTicket = {
+  _id: unknown;
+  createdAt?: Date | null;
+  score?: { total?: number } | null;
+};
+
+// Position after the last ticket of a page, for the sort it was made with
+type Cursor = { sort: TicketSortFieldType; value: string | number; id: string };
+
+const SORT_PATHS: Record<TicketSortFieldType, string> = {
+  [TicketSortField.DATE]: 'createdAt',
+  [TicketSortField.SCORE]: 'score.total',
+};
+
+export class TicketQueryService {
+  /**
+   * Mongo filter for a user's ticket list. The viewer is already known to
+   * see only `visibleIds` when listing someone else's tickets.
+   */
+  async buildFilter(
+    userId: string,
+    query: TicketListQuery,
+    cursor: Cursor | null,
+    visibleIds?: string[]
+  ): Promise<Record<string, unknown>> {
+    const base: Record<string, unknown> = { userId };
+    if (visibleIds) base._id = { $in: visibleIds };
+
+    const conditions: Record<string, unknown>[] = [];
+    if (query.gameId !== undefined) {
+      conditions.push({ 'game.id': query.gameId });
+    }
+    if (query.team) {
+      conditions.push({
+        $or: [
+          { 'game.homeTeam.abbrev': query.team },
+          { 'game.awayTeam.abbrev': query.team },
+        ],
+      });
+    }
+    // startTimeUTC is ISO 8601, so comparing against a date prefix works
+    if (query.from) {
+      conditions.push({ 'game.startTimeUTC': { $gte: query.from } });
+    }
+    if (query.to) {
+      conditions.push({ 'game.startTimeUTC': { $lt: this.nextDay(query.to) } });
+    }
+    if (query.inChallenge !== undefined) {
+      const entered = await ticketAccessService.getChallengeTicketIds(userId);
+      conditions.push({
+        _id: query.inChallenge ? { $in: entered } : { $nin: entered },
+      });
+    }
+    if (query.state) {
+      const gameIds = await this.gameIdsInState(
+        { ...base, ...this.and(conditions) },
+        query.state
+      );
+      conditions.push({ 'game.id': { $in: gameIds } });
+    }
+    if (cursor) {
+      const path = SORT_PATHS[cursor.sort];
+      const op = query.order === 'asc' ? '$gt' : '$lt';
+      conditions.push({
+        $or: [
+          { [path]: { [op]: cursor.value } },
+          { [path]: cursor.value, _id: { [op]: cursor.id } },
+        ],
+      });
+    }
+
+    return { ...base, ...this.and(conditions) };
+  }
+
+  // Sort on the chosen field, then _id so the cursor position is unambiguous
+  sortFor(query: TicketListQuery): Record<string, 1 | -1> {
+    const direction = query.order === 'asc' ? 1 : -1;
+    return { [SORT_PATHS[query.sort]]: direction, _id: direction };
+  }
+
+  encodeCursor(ticket: SortableTicket, sort: TicketSortFieldType): string {
+    const value =
+      sort === TicketSortField.SCORE
+        ? (ticket.score?.total ?? 0)
+        : new Date(ticket.createdAt ?? 0).toISOString();
+    const cursor: Cursor = { sort, value, id: String(ticket._id) };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Parse a cursor from a previous page. Returns null if it is malformed or
+   * was made for a different sort.
+   */
+  decodeCursor(raw: string, sort: TicketSortFieldType): Cursor | null {
+    try {
+      const cursor = JSON.parse(
+        Buffer.from(raw, 'base64url').toString('utf8')
+      ) as Partial<Cursor>;
+      if (cursor.sort !== sort || !mongoose.isValidObjectId(cursor.id)) {
+        return null;
+      }
+      const valid =
+        sort === TicketSortField.SCORE
+          ? typeof cursor.value === 'number'
+          : typeof cursor.value === 'string' &&
+            !isNaN(Date.parse(cursor.value));
+      return valid ? (cursor as Cursor) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Where a ticket's game is at. Without an NHL status (API unavailable),
+   * games past their scheduled start count as live.
+   */
+  async gameState(game: TicketGame): Promise<TicketGameStateType> {
+    let status: GameStatus | null = null;
+    if (game.id != null) {
+      try {
+        status = await nhlService.getGameStatus(game.id.toString());
+      } catch (error) {
+        logger.warn(
+          `Could not fetch game status for ticket filter: ${game.id}`
+        );
+      }
+    }
+
+    if (status?.isFinished) return TicketGameState.FINISHED;
+    if (status?.isLive) return TicketGameState.LIVE;
+    return gameLockService.resolveLockState(status, game.startTimeUTC).isLocked
+      ? TicketGameState.LIVE
+      : TicketGameState.UPCOMING;
+  }
+
+  /**
+   * IDs of the games, among the matching tickets, that are in the given
+   * state. Most games are settled from stored data; the NHL API is only
+   * asked about games that may be under way.
+   */
+  private async gameIdsInState(
+    filter: Record<string, unknown>,
+    state: TicketGameStateType
+  ): Promise<number[]> {
+    const tickets = await Ticket.find(filter)
+      .select('game isFinalized')
+      .lean<{ game: TicketGame; isFinalized?: boolean }[]>();
+    const games = new Map<number, StoredGame>();
+    for (const { game, isFinalized } of tickets) {
+      if (game?.id == null) continue;
+      const finalized = !!isFinalized || !!games.get(game.id)?.finalized;
+      games.set(game.id, { ...(games.get(game.id) ?? game), finalized });
+    }
+
+    const archived = new Set(
+      (await boxscoreArchive.loadAll()).map(boxscore => boxscore.id)
+    );
+    const now = Date.now();
+    const matches = await Promise.all(
+      [...games.values()].map(
+        async game =>
+          (this.storedGameState(game, archived, now) ??
+            (await this.gameState(game))) === state
+      )
+    );
+    return [...games.keys()].filter((_, i) => matches[i]);
+  }
+
+  // State known without the NHL API, or null for games that may be live
+  private storedGameState(
+    game: StoredGame,
+    archived: Set<number>,
+    now: number
+  ): TicketGameStateType | null {
+    if (game.finalized || archived.has(game.id!)) {
+      return TicketGameState.FINISHED;
+    }
+    const start = game.startTimeUTC ? Date.parse(game.startTimeUTC) : NaN;
+    if (isNaN(start)) return null;
+    if (start > now) return TicketGameState.UPCOMING;
+    return now - start > GAME_WINDOW_MS ? TicketGameState.FINISHED : null;
+  }
+
+  private and(conditions: Record<string, unknown>[]) {
+    return conditions.length > 0 ? { $and: conditions } : {};
+  }
+
+  private nextDay(date: string): string {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + 1);
+    return day.toISOString().slice(0, 10);
+  }
+}
+
+// Export singleton instance
+export const ticketQueryService = new TicketQueryService();
+export default ticketQueryService;
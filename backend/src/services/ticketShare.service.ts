@@ -0,0 +1,83 @@
+import { randomBytes } from 'crypto';
+import { Ticket } from '../models/tickets.model';
+import { EventCondition } from '../types/tickets.types';
+import logger from '../utils/logger.util';
+
+type TeamsOf = { homeTeam: { abbrev: string }; awayTeam: { abbrev: string } };
+
+const CODE_BYTES = 6; // 8 base64url characters
+const MAX_CODE_ATTEMPTS = 5;
+const DUPLICATE_KEY = 11000;
+
+export class TicketShareService {
+  /**
+   * Give a ticket a share code, keeping the one it already has.
+   * Returns null if the ticket does not exist.
+   */
+  async share(ticketId: string): Promise<string | null> {
+    const ticket = await Ticket.findById(ticketId).select('shareCode');
+    if (!ticket) return null;
+    if (ticket.shareCode) return ticket.shareCode;
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      try {
+        const updated = await Ticket.findOneAndUpdate(
+          { _id: ticketId, shareCode: { $exists: false } },
+          {
+            $set: { shareCode: randomBytes(CODE_BYTES).toString('base64url') },
+          },
+          { new: true }
+        ).select('shareCode');
+        if (updated?.shareCode) return updated.shareCode;
+
+        // Shared (or deleted) in the meantime
+        const current = await Ticket.findById(ticketId).select('shareCode');
+        return current?.shareCode ?? null;
+      } catch (error) {
+        if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+        logger.warn(`Share code collision for ticket ${ticketId}, retrying`);
+      }
+    }
+    throw new Error('Failed to generate a unique share code');
+  }
+
+  // Old links stop working once the code is removed
+  async unshare(ticketId: string): Promise<void> {
+    await Ticket.updateOne({ _id: ticketId }, { $unset: { shareCode: '' } });
+  }
+
+  /**
+   * Point a cloned card at another game: squares about the original home
+   * team follow the new home team, and likewise for away. Player squares
+   * keep their player, so they only validate if that player is in the new game.
+   */
+  retarget(
+    events: EventCondition[],
+    from: TeamsOf,
+    to: TeamsOf
+  ): EventCondition[] {
+    const teams = new Map([
+      [from.homeTeam.abbrev, to.homeTeam.abbrev],
+      [from.awayTeam.abbrev, to.awayTeam.abbrev],
+    ]);
+    const retargetOne = (event: EventCondition): EventCondition => ({
+      ...event,
+      teamAbbrev: event.teamAbbrev
+        ? (teams.get(event.teamAbbrev) ?? event.teamAbbrev)
+        : undefined,
+      conditions: event.conditions?.map(retargetOne),
+    });
+    return events.map(retargetOne);
+  }
+
+  // Only the owner sees the share code; other readers get the ticket without it
+  hideShareCode<T extends object>(ticket: T, isOwner: boolean) {
+    if (isOwner) return ticket;
+    const { shareCode, ...rest } = ticket as T & { shareCode?: string };
+    return rest;
+  }
+}
+
+// Export singleton instance
+export const ticketShareService = new TicketShareService();
+export default ticketShareService;
@@ -0,0 +1,219 @@
+import {
+  EventCategory,
+  EventCondition,
+  PlayerRole,
+  PlayerRoleType,
+  TeamSide,
+  TeamSideType,
+  TemplateEventCondition,
+  TemplatePlayerRef,
+} from '../types/tickets.types';
+import {
+  ClubGoalieStats,
+  ClubSkaterStats,
+  ClubStats,
+} from '../types/nhl.types';
+import { SquareError } from './ticketValidation.service';
+import { nhlService } from './nhl.service';
+import logger from '../utils/logger.util';
+
+type GameTeams = {
+  homeTeam: { abbrev: string };
+  awayTeam: { abbrev: string };
+};
+
+type Candidate = ClubSkaterStats | ClubGoalieStats;
+
+// Which players a square's category can pick from
+const CANDIDATES: Partial<
+  Record<EventCategory, (stats: ClubStats) => Candidate[]>
+> = {
+  [EventCategory.FORWARD]: stats =>
+    stats.skaters.filter(p => p.positionCode !== 'D'),
+  [EventCategory.DEFENSE]: stats =>
+    stats.skaters.filter(p => p.positionCode === 'D'),
+  [EventCategory.GOALIE]: stats => stats.goalies,
+  [EventCategory.PENALTY]: stats => stats.skaters,
+};
+
+// Season stat each role ranks by; undefined when the role doesn't apply
+const ROLE_METRICS: Record<
+  PlayerRoleType,
+  (player: Candidate) => number | undefined
+> = {
+  [PlayerRole.TOP_SCORER]: p => ('goals' in p ? p.goals : undefined),
+  [PlayerRole.POINTS_LEADER]: p => ('points' in p ? p.points : undefined),
+  [PlayerRole.STARTER]: p =>
+    'gamesStarted' in p && p.gamesStarted != null
+      ? p.gamesStarted
+      : p.gamesPlayed,
+};
+
+export type ResolvedTemplate = {
+  events: EventCondition[];
+  errors: SquareError[];
+};
+
+export class TicketTemplateService {
+  /**
+   * Turn a template's team-relative squares into concrete squares for a game:
+   * home/away become team abbreviations and player references become the
+   * matching player from that team's current season stats.
+   * @returns the resolved squares, plus one error per reference that can't be resolved
+   */
+  async resolve(
+    template: { events: TemplateEventCondition[] },
+    game: GameTeams
+  ): Promise<ResolvedTemplate> {
+    const teams: Record<TeamSideType, string> = {
+      [TeamSide.HOME]: game.homeTeam.abbrev,
+      [TeamSide.AWAY]: game.awayTeam.abbrev,
+    };
+    const stats = await this.loadStats(
+      template.events.flatMap(event => this.referencedSides(event)),
+      teams
+    );
+
+    const errors: SquareError[] = [];
+    const events = template.events.map((event, index) =>
+      this.resolveCondition(
+        event,
+        index,
+        `events.${index}`,
+        teams,
+        stats,
+        errors
+      )
+    );
+    return { events, errors };
+  }
+
+  private resolveCondition(
+    event: TemplateEventCondition,
+    square: number,
+    path: string,
+    teams: Record<TeamSideType, string>,
+    stats: Map<string, ClubStats>,
+    errors: SquareError[]
+  ): EventCondition {
+    const fail = (field: string, message: string) =>
+      errors.push({ square, field: `${path}.${field}`, message });
+
+    const { teamRef, playerRef, conditions, ...fields } = event;
+    const resolved: EventCondition = { ...fields };
+
+    if (teamRef) {
+      resolved.teamAbbrev = teams[teamRef];
+    }
+
+    if (playerRef) {
+      if (teamRef && teamRef !== playerRef.team) {
+        fail('playerRef', `playerRef.team must match teamRef (${teamRef})`);
+      }
+      const player = this.pickPlayer(
+        event.category,
+        playerRef,
+        teams,
+        stats,
+        fail
+      );
+      if (player) {
+        resolved.teamAbbrev = teams[playerRef.team];
+        resolved.playerId = player.playerId;
+        resolved.playerName = `${player.firstName.default} ${player.lastName.default}`;
+      }
+    }
+
+    if (conditions) {
+      resolved.conditions = conditions.map((condition, i) =>
+        this.resolveCondition(
+          condition,
+          square,
+          `${path}.conditions.${i}`,
+          teams,
+          stats,
+          errors
+        )
+      );
+    }
+    return resolved;
+  }
+
+  private pickPlayer(
+    category: EventCategory,
+    ref: TemplatePlayerRef,
+    teams: Record<TeamSideType, string>,
+    stats: Map<string, ClubStats>,
+    fail: (field: string, message: string) => void
+  ): Candidate | undefined {
+    const team = teams[ref.team];
+    const rank = ref.rank ?? 1;
+    const label = `${ref.team} ${ref.role} #${rank}`;
+
+    const candidatesFor = CANDIDATES[category];
+    if (!candidatesFor) {
+      fail('playerRef', `${category} squares cannot reference a player`);
+      return undefined;
+    }
+
+    const teamStats = stats.get(team);
+    if (!teamStats) {
+      fail(
+        'playerRef',
+        `Could not resolve ${label}: stats unavailable for ${team}`
+      );
+      return undefined;
+    }
+
+    const metric = ROLE_METRICS[ref.role];
+    const ranked = candidatesFor(teamStats)
+      .filter(player => metric(player) !== undefined)
+      .sort(
+        (a, b) =>
+          metric(b)! - metric(a)! ||
+          b.gamesPlayed - a.gamesPlayed ||
+          a.playerId - b.playerId
+      );
+
+    const player = ranked[rank - 1];
+    if (!player) {
+      fail(
+        'playerRef',
+        `Could not resolve ${label}: ${team} has no such ${category} player`
+      );
+    }
+    return player;
+  }
+
+  private async loadStats(
+    sides: TeamSideType[],
+    teams: Record<TeamSideType, string>
+  ): Promise<Map<string, ClubStats>> {
+    const needed = [...new Set(sides)].map(side => teams[side]);
+    const stats = new Map<string, ClubStats>();
+    const results = await Promise.all(
+      needed.map(team => nhlService.getClubStats(team))
+    );
+    results.forEach((result, i) => {
+      if (result) {
+        stats.set(needed[i], result);
+      } else {
+        logger.warn(`Club stats unavailable for ${needed[i]}`);
+      }
+    });
+    return stats;
+  }
+
+  private referencedSides(event: TemplateEventCondition): TeamSideType[] {
+    return [
+      ...(event.playerRef ? [event.playerRef.team] : []),
+      ...(event.conditions ?? []).flatMap(condition =>
+        this.referencedSides(condition)
+      ),
+    ];
+  }
+}
+
+// Export singleton instance
+export const ticketTemplateService = new TicketTemplateService();
+export default ticketTemplateService;
@@ -0,0 +1,150 @@
+import { EventCategory, EventCondition } from '../types/tickets.types';
+import { RosterPlayer, TeamRoster } from '../types/nhl.types';
+import { loadRosters, ROSTER_GROUPS } from '../utils/roster.util';
+
+// One problem with one square, e.g. { square: 4, field: 'events.4.playerId', ... }
+export type SquareError = {
+  square: number;
+  field: string;
+  message: string;
+};
+
+type GameTeams = {
+  homeTeam: { abbrev: string };
+  awayTeam: { abbrev: string };
+};
+
+export class TicketValidationService {
+  /**
+   * Check every square's team and player against the two teams in the game
+   * so tickets can't contain squares that can never be completed.
+   * If a roster can't be fetched, players are not rejected because of it.
+   * @returns one error per invalid field, empty when the ticket is valid
+   */
+  async validateSquares(
+    game: GameTeams,
+    events: EventCondition[]
+  ): Promise<SquareError[]> {
+    const teams = [game.homeTeam.abbrev, game.awayTeam.abbrev];
+    const rosters = events.some(event => this.hasPlayer(event))
+      ? await loadRosters(teams, 'skipping player checks')
+      : new Map<string, TeamRoster>();
+
+    const errors: SquareError[] = [];
+    events.forEach((event, index) =>
+      this.checkCondition(
+        event,
+        index,
+        `events.${index}`,
+        teams,
+        rosters,
+        errors
+      )
+    );
+    return errors;
+  }
+
+  private checkCondition(
+    event: EventCondition,
+    square: number,
+    path: string,
+    teams: string[],
+    rosters: Map<string, TeamRoster>,
+    errors: SquareError[]
+  ) {
+    const fail = (field: string, message: string) =>
+      errors.push({ square, field: `${path}.${field}`, message });
+
+    if (event.teamAbbrev && !teams.includes(event.teamAbbrev)) {
+      fail(
+        'teamAbbrev',
+        `${event.teamAbbrev} is not playing in this game (${teams.join(' vs ')})`
+      );
+    }
+
+    const isTeamEvent =
+      event.category === EventCategory.TEAM ||
+      (event.category === EventCategory.PENALTY && event.playerId == null);
+    if (isTeamEvent && !event.teamAbbrev) {
+      fail('teamAbbrev', 'teamAbbrev is required for team squares');
+    }
+
+    if (event.playerId != null) {
+      this.checkPlayer(event, teams, rosters, fail);
+    }
+
+    (event.conditions ?? []).forEach((condition, i) =>
+      this.checkCondition(
+        condition,
+        square,
+        `${path}.conditions.${i}`,
+        teams,
+        rosters,
+        errors
+      )
+    );
+  }
+
+  private checkPlayer(
+    event: EventCondition,
+    teams: string[],
+    rosters: Map<string, TeamRoster>,
+    fail: (field: string, message: string) => void
+  ) {
+    const playerTeam = teams.find(team => {
+      const roster = rosters.get(team);
+      return (
+        roster && this.allPlayers(roster).some(p => p.id === event.playerId)
+      );
+    });
+
+    if (!playerTeam) {
+      // Only reject when both rosters were checked
+      if (rosters.size === teams.length) {
+        fail(
+          'playerId',
+          `Player ${event.playerId} is not on the ${teams.join(' or ')} roster`
+        );
+      }
+      return;
+    }
+
+    if (event.teamAbbrev && event.teamAbbrev !== playerTeam) {
+      fail(
+        'playerId',
+        `Player ${event.playerId} plays for ${playerTeam}, not ${event.teamAbbrev}`
+      );
+    }
+
+    const groups = ROSTER_GROUPS[event.category];
+    const roster = rosters.get(playerTeam)!;
+    if (
+      groups &&
+      !groups.some(group => roster[group].some(p => p.id === event.playerId))
+    ) {
+      fail(
+        'category',
+        `Player ${event.playerId} is not listed as ${event.category} for ${playerTeam}`
+      );
+    }
+  }
+
+  private allPlayers(roster: TeamRoster): RosterPlayer[] {
+    return [
+      ...(roster.forwards ?? []),
+      ...(roster.defensemen ?? []),
+      ...(roster.goalies ?? []),
+    ];
+  }
+
+  private hasPlayer(event: EventCondition): boolean {
+    return (
+      event.playerId != null ||
+      (event.conditions ?? []).some(condition => this.hasPlayer(condition))
+    );
+  }
+}
+
+// Export singleton instance
+export const ticketValidationService = new TicketValidationService();
+export default ticketValidationService;
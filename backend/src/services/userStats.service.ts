@@ -0,0 +1,118 @@
+import { Ticket } from '../models/tickets.model';
+import { challengeModel } from '../models/challenges.model';
+import { challengeResultsModel } from '../models/challengeResults.model';
+import { DEFAULT_GRID_SIZE, EventCondition } from '../types/tickets.types';
+import { FavouritePlayer, FavouriteTeam, UserStats } from '../types/user.types';
+
+type StatsTicket = {
+  gridSize?: number;
+  events: EventCondition[];
+  score?: {
+    noCrossedOff?: number;
+    noRows?: number;
+    noColumns?: number;
+    noCrosses?: number;
+    total?: number;
+  } | null;
+};
+
+const FAVOURITES_LIMIT = 5;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class UserStatsService {
+  /**
+   * Profile numbers for a user: ticket scores and bingos from their tickets,
+   * results from the finished challenges they played, and the teams and
+   * players their squares are most often about.
+   */
+  async getStats(userId: string): Promise<UserStats> {
+    const [tickets, challenges] = await Promise.all([
+      Ticket.find({ userId })
+        .select('gridSize events score')
+        .lean<StatsTicket[]>(),
+      challengeModel.findFinishedByMember(userId),
+    ]);
+    const results = await challengeResultsModel.findByChallengeIds(
+      challenges.map(challenge => challenge.id)
+    );
+
+    const totalScore = tickets.reduce(
+      (sum, ticket) => sum + (ticket.score?.total ?? 0),
+      0
+    );
+    const totalBingos = tickets.reduce(
+      (sum, ticket) =>
+        sum +
+        (ticket.score?.noRows ?? 0) +
+        (ticket.score?.noColumns ?? 0) +
+        (ticket.score?.noCrosses ?? 0),
+      0
+    );
+    const blackouts = tickets.filter(
+      ticket =>
+        (ticket.score?.noCrossedOff ?? 0) ===
+        (ticket.gridSize ?? DEFAULT_GRID_SIZE) ** 2
+    ).length;
+
+    const challengesPlayed = challenges.length;
+    const challengesWon = results.filter(result =>
+      result.winnerIds.includes(userId)
+    ).length;
+
+    return {
+      ticketsCreated: tickets.length,
+      averageScore: tickets.length ? round(totalScore / tickets.length) : 0,
+      totalBingos,
+      blackouts,
+      challengesPlayed,
+      challengesWon,
+      winRate: challengesPlayed ? round(challengesWon / challengesPlayed) : 0,
+      ...this.favourites(tickets.flatMap(ticket => ticket.events)),
+    };
+  }
+
+  // Most used teams and players, counting each square (and compound part) once
+  private favourites(events: EventCondition[]): {
+    favouriteTeams: FavouriteTeam[];
+    favouritePlayers: FavouritePlayer[];
+  } {
+    const teams = new Map<string, number>();
+    const players = new Map<number, FavouritePlayer>();
+
+    const visit = (event: EventCondition) => {
+      if (event.teamAbbrev) {
+        teams.set(event.teamAbbrev, (teams.get(event.teamAbbrev) ?? 0) + 1);
+      }
+      if (event.playerId !== undefined && event.playerId !== null) {
+        const player = players.get(event.playerId) ?? {
+          playerId: event.playerId,
+          squares: 0,
+        };
+        player.squares++;
+        player.playerName ??= event.playerName ?? undefined;
+        players.set(event.playerId, player);
+      }
+      event.conditions?.forEach(visit);
+    };
+    events.forEach(visit);
+
+    // Most squares first; ties in a stable, readable order
+    const favouriteTeams = [...teams]
+      .map(([teamAbbrev, squares]) => ({ teamAbbrev, squares }))
+      .sort(
+        (a, b) =>
+          b.squares - a.squares || a.teamAbbrev.localeCompare(b.teamAbbrev)
+      )
+      .slice(0, FAVOURITES_LIMIT);
+    const favouritePlayers = [...players.values()]
+      .sort((a, b) => b.squares - a.squares || a.playerId - b.playerId)
+      .slice(0, FAVOURITES_LIMIT);
+
+    return { favouriteTeams, favouritePlayers };
+  }
+}
+
+// Export singleton instance
+export const userStatsService = new UserStatsService();
+export default userStatsService;
@@ -1,4 +1,6 @@
 import z from 'zod';
+import { BingoTicketScore } from './tickets.types';
+import { ScoringWeights } from '../utils/score.util';
 
 // Challenge Status Enum - provides type safety and consistency
 export const ChallengeStatus = {
@@ -12,16 +14,78 @@ export const ChallengeStatus = {
 export type ChallengeStatusType =
   (typeof ChallengeStatus)[keyof typeof ChallengeStatus];
 
+// The only status changes allowed, enforced by challengeStatus.service.
+// FINISHED and CANCELLED are final; a challenge can't be cancelled once live.
+export const CHALLENGE_STATUS_TRANSITIONS: Record<
+  ChallengeStatusType,
+  ChallengeStatusType[]
+> = {
+  [ChallengeStatus.PENDING]: [
+    ChallengeStatus.ACTIVE,
+    ChallengeStatus.CANCELLED,
+  ],
+  [ChallengeStatus.ACTIVE]: [ChallengeStatus.LIVE, ChallengeStatus.CANCELLED],
+  [ChallengeStatus.LIVE]: [ChallengeStatus.FINISHED],
+  [ChallengeStatus.FINISHED]: [],
+  [ChallengeStatus.CANCELLED]: [],
+};
+
+// Statuses a challenge can still be joined in
+export const JOINABLE_STATUSES: ChallengeStatusType[] = [
+  ChallengeStatus.PENDING,
+  ChallengeStatus.ACTIVE,
+];
+
+// Statuses an owner may set by hand. LIVE and FINISHED follow the game and
+// are only set by the game status sync job.
+export const OWNER_STATUS_CHANGES: ChallengeStatusType[] = [
+  ChallengeStatus.ACTIVE,
+  ChallengeStatus.CANCELLED,
+];
+
+// Challenge Visibility Enum - who can find and join a challenge
+export const ChallengeVisibility = {
+  PRIVATE: 'private', // Invitation or join code only
+  FRIENDS_ONLY: 'friends_only', // Also the owner's friends
+  PUBLIC: 'public', // Anyone, and listed in discovery
+} as const;
+
+export type ChallengeVisibilityType =
+  (typeof ChallengeVisibility)[keyof typeof ChallengeVisibility];
+
+// Join codes use letters and digits that can't be mistaken for each other
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 6;
+
 // Invitation Status Enum
 export const InvitationStatus = {
   PENDING: 'pending',
   ACCEPTED: 'accepted',
   DECLINED: 'declined',
+  EXPIRED: 'expired', // Not answered before expiresAt
+  REVOKED: 'revoked', // Withdrawn by the challenge owner
 } as const;
 
 export type InvitationStatusType =
   (typeof InvitationStatus)[keyof typeof InvitationStatus];
 
+// Scoring Profile Enum - named rule sets from score.util plus custom weights
+export const ScoringProfile = {
+  CLASSIC: 'classic', // 1 per square, 3 per line, 10 for a full card
+  LINES_ONLY: 'lines_only', // Only completed lines score
+  BLACKOUT: 'blackout', // Squares plus a big full-card bonus, no line points
+  WEIGHTED: 'weighted', // Classic rules, squares worth their weight (rarity)
+  CUSTOM: 'custom', // Owner-supplied weights
+} as const;
+
+export type ScoringProfileType =
+  (typeof ScoringProfile)[keyof typeof ScoringProfile];
+
+export interface IChallengeScoring {
+  profile: ScoringProfileType;
+  weights: ScoringWeights; // Resolved weights used for every member's score
+}
+
 // Enhanced Challenge Interface
 export interface IChallenge {
   id: string;
@@ -30,41 +94,120 @@ export interface IChallenge {
   ownerId: string;
   gameId: string; // The hockey game this challenge is for
   status: ChallengeStatusType;
+  visibility: ChallengeVisibilityType;
+  joinCode?: string; // Private challenges only
+  teamAbbrevs: string[]; // Teams playing, from the owner's ticket
   memberIds: string[];
   memberNames: string[];
   invitedUserIds: string[];
   invitedUserNames: string[];
   maxMembers?: number; // Optional member limit
   ticketIds: { [userId: string]: string }; // Map user to their ticket e.g. { userId: ticketId }
+  scoring: IChallengeScoring;
   createdAt: Date;
   updatedAt: Date;
   gameStartTime?: Date; // When the hockey game starts
 }
 
-// Invitation interface for managing invites
+// How long an invitation can be answered; resending restarts the clock
+export const INVITATION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Invitation interface for managing invites. One document per challenge and
+// invitee; the challenge's invitedUserIds/invitedUserNames mirror the pending ones.
 export interface IChallengeInvitation {
   challengeId: string;
   invitedUserId: string;
+  invitedUserName: string;
   invitedByUserId: string;
   status: InvitationStatusType;
+  expiresAt: Date;
+  respondedAt?: Date; // When it was accepted, declined or revoked
+  resendCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Leaderboard row for a single challenge member
+export interface LeaderboardEntry {
+  rank: number; // Tied members share a rank (1, 2, 2, 4)
+  userId: string;
+  name: string;
+  ticketId: string | null;
+  score: BingoTicketScore;
+  tieBreak: {
+    lines: number; // noRows + noColumns + noCrosses
+    squares: number; // noCrossedOff
+    tied: boolean; // Still level with another member after all tie-breaks
+  };
+}
+
+// Immutable snapshot stored when a challenge finishes
+export interface IChallengeResult {
+  challengeId: string;
+  gameId: string;
+  standings: LeaderboardEntry[]; // Final leaderboard, ranked with the leaderboard tie-break rules
+  winnerIds: string[]; // Every member ranked 1st with a ticket (co-winners on a full tie)
+  podium: LeaderboardEntry[]; // Entries ranked 1st to 3rd
+  finalizedAt: Date;
+}
+
 // Validation Schemas
-export const createChallengeSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(100, 'Title too long'),
-  description: z
-    .string()
-    .min(1, 'Description is required')
-    .max(500, 'Description too long'),
-  gameId: z.string().min(1, 'Game ID is required'),
-  invitedUserIds: z.array(z.string()).default([]),
-  maxMembers: z.number().min(2).max(50).optional(),
-  gameStartTime: z.date().optional(),
-  ticketId: z.string().optional(), // Owner's selected ticket
+export const scoringWeightsSchema = z.object({
+  perSquare: z.number().min(0).max(100),
+  perLine: z.number().min(0).max(100),
+  fullCardBonus: z.number().min(0).max(1000),
 });
 
+export const challengeScoringSchema = z
+  .object({
+    profile: z
+      .enum([
+        ScoringProfile.CLASSIC,
+        ScoringProfile.LINES_ONLY,
+        ScoringProfile.BLACKOUT,
+        ScoringProfile.WEIGHTED,
+        ScoringProfile.CUSTOM,
+      ])
+      .default(ScoringProfile.CLASSIC),
+    weights: scoringWeightsSchema.optional(), // Required for custom, ignored otherwise
+  })
+  .refine(
+    scoring => scoring.profile !== ScoringProfile.CUSTOM || !!scoring.weights,
+    { message: 'Custom scoring requires weights', path: ['weights'] }
+  );
+
+const visibilitySchema = z.enum([
+  ChallengeVisibility.PRIVATE,
+  ChallengeVisibility.FRIENDS_ONLY,
+  ChallengeVisibility.PUBLIC,
+]);
+
+export const createChallengeSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required').max(100, 'Title too long'),
+    description: z
+      .string()
+      .min(1, 'Description is required')
+      .max(500, 'Description too long'),
+    gameId: z.string().min(1, 'Game ID is required'),
+    invitedUserIds: z.array(z.string()).default([]),
+    maxMembers: z.number().min(2).max(50).optional(),
+    gameStartTime: z.date().optional(),
+    ticketId: z.string().optional(), // Owner's selected ticket
+    scoring: challengeScoringSchema.optional(), // Defaults to classic
+    visibility: visibilitySchema.default(ChallengeVisibility.PRIVATE),
+  })
+  .refine(
+    // The owner plus every invitee needs a seat
+    challenge =>
+      !challenge.maxMembers ||
+      new Set(challenge.invitedUserIds).size + 1 <= challenge.maxMembers,
+    {
+      message: 'Too many invitations for the member limit',
+      path: ['invitedUserIds'],
+    }
+  );
+
 export const updateChallengeSchema = z.object({
   title: z.string().min(1).max(100).optional(),
   description: z.string().min(1).max(500).optional(),
@@ -78,12 +221,54 @@ export const updateChallengeSchema = z.object({
     ])
     .optional(),
   maxMembers: z.number().min(2).max(50).optional(),
+  visibility: visibilitySchema.optional(),
 });
 
 export const joinChallengeSchema = z.object({
   ticketId: z.string().min(1, 'Ticket ID is required'),
 });
 
+export const joinByCodeSchema = z.object({
+  joinCode: z
+    .string()
+    .trim()
+    .length(JOIN_CODE_LENGTH, 'Invalid join code')
+    .transform(code => code.toUpperCase()),
+  ticketId: z.string().min(1, 'Ticket ID is required'),
+});
+
+export const transferOwnershipSchema = z.object({
+  newOwnerId: z.string().min(1, 'New owner ID is required'),
+});
+
 export const inviteUserSchema = z.object({
   userIds: z.array(z.string().min(1)).min(1, 'At least one user ID required'),
 });
+
+export const MAX_DISCOVER_PAGE_SIZE = 50;
+
+// Zod schema for the GET /api/challenges/discover query string
+export const discoverChallengesQuerySchema = z.object({
+  team: z
+    .string()
+    .min(1)
+    .transform(team => team.toUpperCase())
+    .optional(),
+  date: z.iso.date().optional(), // game start date (UTC)
+  openSeats: z.coerce.number().int().min(1).default(1), // at least this many free
+  scoring: z
+    .enum([
+      ScoringProfile.CLASSIC,
+      ScoringProfile.LINES_ONLY,
+      ScoringProfile.BLACKOUT,
+      ScoringProfile.WEIGHTED,
+      ScoringProfile.CUSTOM,
+    ])
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_DISCOVER_PAGE_SIZE).default(10),
+});
+
+export type DiscoverChallengesQuery = z.infer<
+  typeof discoverChallengesQuerySchema
+>;
@@ -0,0 +1,144 @@
+// Boxscore data returned by gamecenter/{gameId}/boxscore
+// ------------------------------------------------------------
+export type Boxscore = {
+  id: number;
+  season?: number;
+  gameType?: number;
+  gameDate?: string;
+  gameState: string;
+  periodDescriptor?: {
+    number: number;
+    periodType: string;
+    maxRegulationPeriods?: number;
+  };
+  awayTeam: BoxscoreTeam;
+  homeTeam: BoxscoreTeam;
+  playerByGameStats?: {
+    awayTeam: BoxscoreTeamPlayers;
+    homeTeam: BoxscoreTeamPlayers;
+  };
+};
+
+export type BoxscoreTeam = {
+  id: number;
+  abbrev: string;
+  score?: number;
+  sog?: number;
+  logo?: string;
+  darkLogo?: string;
+};
+
+export type BoxscoreTeamPlayers = {
+  forwards?: SkaterStats[];
+  defense?: SkaterStats[];
+  goalies?: GoalieStats[];
+};
+
+export type SkaterStats = {
+  playerId: number;
+  sweaterNumber?: number;
+  name: { default: string };
+  position: string;
+  goals?: number;
+  assists?: number;
+  points?: number;
+  plusMinus?: number;
+  pim?: number;
+  hits?: number;
+  powerPlayGoals?: number;
+  sog?: number;
+  faceoffWinningPctg?: number;
+  toi?: string; // "MM:SS"
+  blockedShots?: number;
+  shifts?: number;
+  giveaways?: number;
+  takeaways?: number;
+};
+
+export type GoalieStats = {
+  playerId: number;
+  sweaterNumber?: number;
+  name: { default: string };
+  position: string;
+  saveShotsAgainst?: string; // e.g. "25/27"
+  goalsAgainst?: number;
+  shotsAgainst?: number;
+  saves?: number;
+  pim?: number;
+  toi?: string;
+  starter?: boolean;
+  decision?: string;
+};
+
+// Play-by-play data returned by gamecenter/{gameId}/play-by-play
+// ------------------------------------------------------------
+export type PlayByPlay = {
+  id: number;
+  gameState: string;
+  awayTeam: { id: number; abbrev: string };
+  homeTeam: { id: number; abbrev: string };
+  plays: Play[];
+};
+
+export type Play = {
+  eventId: number;
+  periodDescriptor: { number: number; periodType?: string };
+  typeDescKey: string; // "goal", "shot-on-goal", "hit", "penalty", "blocked-shot", ...
+  details?: {
+    eventOwnerTeamId?: number;
+    scoringPlayerId?: number;
+    assist1PlayerId?: number;
+    assist2PlayerId?: number;
+    shootingPlayerId?: number;
+    goalieInNetId?: number;
+    hittingPlayerId?: number;
+    blockingPlayerId?: number;
+    committedByPlayerId?: number;
+    duration?: number; // penalty minutes
+  };
+};
+
+// Team roster returned by roster/{team}/current
+// ------------------------------------------------------------
+export type TeamRoster = {
+  forwards: RosterPlayer[];
+  defensemen: RosterPlayer[];
+  goalies: RosterPlayer[];
+};
+
+export type RosterPlayer = {
+  id: number;
+  firstName: { default: string };
+  lastName: { default: string };
+  sweaterNumber?: number;
+  positionCode?: string;
+};
+
+// Current season stats returned by club-stats/{team}/now
+// ------------------------------------------------------------
+export type ClubStats = {
+  season?: string;
+  gameType?: number;
+  skaters: ClubSkaterStats[];
+  goalies: ClubGoalieStats[];
+};
+
+export type ClubSkaterStats = {
+  playerId: number;
+  firstName: { default: string };
+  lastName: { default: string };
+  positionCode: string; // "C", "L", "R" or "D"
+  gamesPlayed: number;
+  goals: number;
+  assists: number;
+  points: number;
+};
+
+export type ClubGoalieStats = {
+  playerId: number;
+  firstName: { default: string };
+  lastName: { default: string };
+  gamesPlayed: number;
+  gamesStarted?: number;
+  wins?: number;
+};
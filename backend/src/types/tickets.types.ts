@@ -92,6 +92,13 @@ export enum ComparisonType {
   GREATER_THAN = 'GREATER_THAN',
   LESS_THAN = 'LESS_THAN',
   EQUAL = 'EQUAL',
+  BETWEEN = 'BETWEEN', // threshold <= value <= upperThreshold
+  AT_LEAST = 'AT_LEAST', // value >= threshold
+}
+
+export enum ConditionOperator {
+  AND = 'AND',
+  OR = 'OR',
 }
 
 export type EventCondition = {
@@ -100,54 +107,310 @@ export type EventCondition = {
   subject: string; // e.g. "goals", "assists", "penaltyMinutes"
   comparison: ComparisonType;
   threshold: number;
+  upperThreshold?: number; // inclusive upper bound, BETWEEN only
+  period?: number; // only count stats from this period (4 = first OT)
   teamAbbrev?: string; // e.g. "VAN" or "BOS"
   playerId?: number; // optional for player-specific events
   playerName?: string; // cached for label generation
+  weight?: number; // points for this square; derived from rarity when omitted
+  // Compound squares: this condition is combined with `conditions` using `operator`
+  operator?: ConditionOperator;
+  conditions?: EventCondition[];
+};
+
+// --- Event subject catalogue ---
+// Single source of truth for valid subjects per category, shared by the
+// ticket validator and GET /api/tickets/catalogue (ticket builder).
+export type CatalogueEntry = {
+  subject: string;
+  label: string; // template, {who} and {comparison} are filled in
+  comparisons: ComparisonType[];
+  minThreshold: number;
+  maxThreshold: number;
+  periodScoped: boolean; // can be restricted to a single period
+};
+
+const ALL_COMPARISONS = Object.values(ComparisonType);
+const RANGE_COMPARISONS = [
+  ComparisonType.GREATER_THAN,
+  ComparisonType.AT_LEAST,
+  ComparisonType.LESS_THAN,
+  ComparisonType.BETWEEN,
+];
+
+const entry = (
+  subject: string,
+  label: string,
+  minThreshold: number,
+  maxThreshold: number,
+  periodScoped: boolean,
+  comparisons: ComparisonType[] = ALL_COMPARISONS
+): CatalogueEntry => ({
+  subject,
+  label,
+  comparisons,
+  minThreshold,
+  maxThreshold,
+  periodScoped,
+});
+
+const SKATER_SUBJECTS: CatalogueEntry[] = [
+  entry('goals', '{who} goals ({comparison})', 0, 5, true),
+  entry('assists', '{who} assists ({comparison})', 0, 5, true),
+  entry('points', '{who} points ({comparison})', 0, 6, true),
+  entry('hits', '{who} hits ({comparison})', 0, 15, true),
+  entry('sog', '{who} shots on goal ({comparison})', 0, 15, true),
+  entry('blockedShots', '{who} blocked shots ({comparison})', 0, 10, true),
+  entry('pim', '{who} penalty minutes ({comparison})', 0, 20, true),
+  entry('plusMinus', '{who} plus/minus ({comparison})', -6, 6, false),
+  entry('powerPlayGoals', '{who} power play goals ({comparison})', 0, 3, false),
+  entry('giveaways', '{who} giveaways ({comparison})', 0, 8, false),
+  entry('takeaways', '{who} takeaways ({comparison})', 0, 8, false),
+  entry('shifts', '{who} shifts ({comparison})', 0, 40, false),
+  entry(
+    'toi',
+    '{who} minutes on ice ({comparison})',
+    0,
+    40,
+    false,
+    RANGE_COMPARISONS
+  ),
+];
+
+const TEAM_SUBJECTS: CatalogueEntry[] = [
+  entry('goals', '{who} goals ({comparison})', 0, 10, true),
+  entry('sog', '{who} total shots ({comparison})', 0, 60, true),
+  entry('penaltyMinutes', '{who} penalty minutes ({comparison})', 0, 60, true),
+  entry('hits', '{who} hits ({comparison})', 0, 60, true),
+  entry('blockedShots', '{who} blocked shots ({comparison})', 0, 40, true),
+  entry('powerPlayGoals', '{who} power play goals ({comparison})', 0, 5, false),
+];
+
+export const EVENT_CATALOGUE: Record<EventCategory, CatalogueEntry[]> = {
+  [EventCategory.FORWARD]: SKATER_SUBJECTS,
+  [EventCategory.DEFENSE]: SKATER_SUBJECTS,
+  [EventCategory.GOALIE]: [
+    entry('saves', '{who} saves ({comparison})', 0, 60, true),
+    entry('goalsAgainst', '{who} goals against ({comparison})', 0, 10, true),
+    entry('shotsAgainst', '{who} shots against ({comparison})', 0, 60, true),
+    entry(
+      'toi',
+      '{who} minutes in net ({comparison})',
+      0,
+      65,
+      false,
+      RANGE_COMPARISONS
+    ),
+  ],
+  [EventCategory.TEAM]: TEAM_SUBJECTS,
+  // The app builds team penalty squares with TEAM subjects; pim is per player
+  [EventCategory.PENALTY]: [
+    ...TEAM_SUBJECTS,
+    entry('pim', '{who} penalty minutes ({comparison})', 0, 20, true),
+  ],
+};
+
+/**
+ * Find the catalogue entry for a category/subject. Subjects may carry a
+ * "player.", "team." or "goalie." prefix.
+ */
+export const findCatalogueEntry = (
+  category: EventCategory,
+  subject: string
+): CatalogueEntry | undefined => {
+  const bare = subject.replace(/^(player|team|goalie)\./, '');
+  return EVENT_CATALOGUE[category]?.find(e => e.subject === bare);
+};
+
+// Limits for compound squares
+export const MAX_PERIOD = 7; // 3 regulation periods + up to 4 playoff OTs
+export const MAX_SUB_CONDITIONS = 4;
+export const MAX_CONDITION_DEPTH = 2;
+export const MAX_SQUARE_WEIGHT = 10;
+
+type NestedCondition = { conditions?: NestedCondition[] };
+
+const conditionDepth = (event: NestedCondition): number =>
+  1 + Math.max(0, ...(event.conditions ?? []).map(conditionDepth));
+
+// Catalogue and range checks shared by ticket squares and template squares
+type ConditionFields = Pick<
+  EventCondition,
+  | 'category'
+  | 'subject'
+  | 'comparison'
+  | 'threshold'
+  | 'upperThreshold'
+  | 'period'
+  | 'operator'
+> & { conditions?: unknown[] };
+
+const refineCondition = (event: ConditionFields, ctx: z.RefinementCtx) => {
+  const catalogued = findCatalogueEntry(event.category, event.subject);
+  if (!catalogued) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['subject'],
+      message: `Unknown subject "${event.subject}" for ${event.category}`,
+    });
+  } else {
+    if (!catalogued.comparisons.includes(event.comparison)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['comparison'],
+        message: `${event.comparison} is not allowed for ${catalogued.subject}`,
+      });
+    }
+    const { minThreshold, maxThreshold } = catalogued;
+    const bounds = {
+      threshold: event.threshold,
+      upperThreshold: event.upperThreshold,
+    };
+    for (const [field, value] of Object.entries(bounds)) {
+      if (
+        value !== undefined &&
+        (value < minThreshold || value > maxThreshold)
+      ) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [field],
+          message: `${field} must be between ${minThreshold} and ${maxThreshold}`,
+        });
+      }
+    }
+    if (event.period !== undefined && !catalogued.periodScoped) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['period'],
+        message: `${catalogued.subject} cannot be limited to a period`,
+      });
+    }
+  }
+  if (event.comparison === ComparisonType.BETWEEN) {
+    if (event.upperThreshold === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['upperThreshold'],
+        message: 'upperThreshold required for BETWEEN',
+      });
+    } else if (event.upperThreshold < event.threshold) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['upperThreshold'],
+        message: 'upperThreshold must be >= threshold',
+      });
+    }
+  }
+  if (!event.operator !== !event.conditions) {
+    ctx.addIssue({
+      code: 'custom',
+      path: [event.operator ? 'conditions' : 'operator'],
+      message: 'operator and conditions must be provided together',
+    });
+  }
 };
 
+// Zod schema for a single square, including nested sub-conditions
+export const eventConditionSchema: z.ZodType<EventCondition> = z.lazy(() =>
+  z
+    .object({
+      id: z.string(),
+      category: z.nativeEnum(EventCategory),
+      subject: z.string(),
+      comparison: z.nativeEnum(ComparisonType),
+      threshold: z.number(),
+      upperThreshold: z.number().optional(),
+      period: z.number().int().min(1).max(MAX_PERIOD).optional(),
+      teamAbbrev: z.string().optional(),
+      playerId: z.number().optional(),
+      playerName: z.string().optional(),
+      weight: z.number().min(1).max(MAX_SQUARE_WEIGHT).optional(),
+      operator: z.nativeEnum(ConditionOperator).optional(),
+      conditions: z
+        .array(eventConditionSchema)
+        .min(1)
+        .max(MAX_SUB_CONDITIONS)
+        .optional(),
+    })
+    .superRefine(refineCondition)
+);
+
+// Supported bingo card dimensions (3x3, 4x4, 5x5)
+export const TICKET_GRID_SIZES = [3, 4, 5] as const;
+export type TicketGridSize = (typeof TICKET_GRID_SIZES)[number];
+export const DEFAULT_GRID_SIZE: TicketGridSize = 3;
+
 // Interface used internally by Mongoose
 export interface ITicket extends Document {
   userId: string;
   name: string;
   game: Game;
-  events: EventCondition[];
+  gridSize: TicketGridSize;
+  events: EventCondition[]; // gridSize * gridSize squares, row by row
   crossedOff: boolean[];
+  squareWeights?: number[]; // resolved per-square weights, fixed at creation
   score: BingoTicketScore;
+  isFinalized: boolean; // Set when a challenge using this ticket finishes
+  shareCode?: string; // anyone with the code can view and clone the ticket
   createdAt: Date;
   updatedAt: Date;
 }
 
-// Zod schema for validation when creating tickets
-export const createTicketSchema = z.object({
-  userId: z.string().min(1, 'User ID required'),
-  name: z.string().min(1, 'Name required'),
-  game: z.object({
-    id: z.number(),
-    homeTeam: z.object({
-      abbrev: z.string().min(1, 'Home team abbrev required'),
-    }),
-    awayTeam: z.object({
-      abbrev: z.string().min(1, 'Away team abbrev required'),
-    }),
+// The game a ticket is built for
+const ticketGameSchema = z.object({
+  id: z.number(),
+  startTimeUTC: z.string().optional(), // puck drop, used to lock the ticket
+  homeTeam: z.object({
+    abbrev: z.string().min(1, 'Home team abbrev required'),
+    logo: z.string().optional(), // shown on the ticket card image
+  }),
+  awayTeam: z.object({
+    abbrev: z.string().min(1, 'Away team abbrev required'),
+    logo: z.string().optional(),
   }),
-  events: z
-    .array(
-      z.object({
-        id: z.string(),
-        category: z.nativeEnum(EventCategory),
-        subject: z.string(),
-        comparison: z.nativeEnum(ComparisonType),
-        threshold: z.number(),
-        teamAbbrev: z.string().optional(),
-        playerId: z.number().optional(),
-        playerName: z.string().optional(),
-      })
-    )
-    .length(9, 'Exactly 9 events required'),
 });
 
+const gridSizeSchema = z
+  .union([z.literal(3), z.literal(4), z.literal(5)])
+  .default(DEFAULT_GRID_SIZE);
+
+// Square count and nesting checks shared by tickets and templates
+const refineSquares = (
+  ticket: { gridSize: number; events: NestedCondition[] },
+  ctx: z.RefinementCtx
+) => {
+  const squares = ticket.gridSize * ticket.gridSize;
+  if (ticket.events.length !== squares) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['events'],
+      message: `Exactly ${squares} events required`,
+    });
+  }
+  ticket.events.forEach((event, index) => {
+    if (conditionDepth(event) > MAX_CONDITION_DEPTH + 1) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['events', index, 'conditions'],
+        message: `Conditions can be nested at most ${MAX_CONDITION_DEPTH} levels deep`,
+      });
+    }
+  });
+};
+
+// Zod schema for validation when creating tickets
+export const createTicketSchema = z
+  .object({
+    userId: z.string().min(1, 'User ID required').optional(), // owner is always req.user
+    name: z.string().min(1, 'Name required'),
+    game: ticketGameSchema,
+    events: z.array(eventConditionSchema),
+    gridSize: gridSizeSchema,
+  })
+  .superRefine(refineSquares);
+
 export type CreateTicketBody = z.infer<typeof createTicketSchema>;
-export type TicketType = CreateTicketBody;
+export type TicketType = z.input<typeof createTicketSchema>; // gridSize may be omitted
 
 export type BingoTicketScore = {
   noCrossedOff: number;
@@ -155,9 +418,276 @@ export type BingoTicketScore = {
   noColumns: number;
   noCrosses: number;
   total: number;
+  weightedTotal: number; // total with each square worth its weight
 };
 
 export type TicketResponse = TicketType & {
   crossedOff: boolean[];
   score?: BingoTicketScore;
 };
+
+// What the requesting user may do with a ticket
+export const TicketAccess = {
+  OWNER: 'owner', // full access
+  READ_ONLY: 'read_only', // co-member of a challenge the ticket is entered in
+  NONE: 'none',
+} as const;
+
+export type TicketAccessType = (typeof TicketAccess)[keyof typeof TicketAccess];
+
+// Who changed a square: the user (PUT crossedOff) or the ticket evaluator
+export const TicketHistorySource = {
+  MANUAL: 'manual',
+  EVALUATOR: 'evaluator',
+} as const;
+
+export type TicketHistorySourceType =
+  (typeof TicketHistorySource)[keyof typeof TicketHistorySource];
+
+// One append-only entry per square flip
+export interface ITicketHistoryEntry {
+  ticketId: string;
+  userId: string;
+  squareIndex: number;
+  crossedOff: boolean; // value after the change
+  source: TicketHistorySourceType;
+  scoreBefore: BingoTicketScore;
+  scoreAfter: BingoTicketScore;
+  timestamp: Date;
+}
+
+// --- Ticket templates ---
+// Templates store squares relative to the game ("home team", "away top
+// scorer") and are resolved against a concrete game's teams and rosters.
+export const TeamSide = {
+  HOME: 'home',
+  AWAY: 'away',
+} as const;
+
+export type TeamSideType = (typeof TeamSide)[keyof typeof TeamSide];
+
+// How a template picks a player from a team's current season stats
+export const PlayerRole = {
+  TOP_SCORER: 'top_scorer', // most goals
+  POINTS_LEADER: 'points_leader', // most points
+  STARTER: 'starter', // most games played, e.g. the starting goalie
+} as const;
+
+export type PlayerRoleType = (typeof PlayerRole)[keyof typeof PlayerRole];
+
+// e.g. { team: 'away', role: 'top_scorer', rank: 2 } = away team's 2nd best goal scorer
+export type TemplatePlayerRef = {
+  team: TeamSideType;
+  role: PlayerRoleType;
+  rank: number; // 1-based
+};
+
+export type TemplateEventCondition = Omit<
+  EventCondition,
+  'teamAbbrev' | 'playerId' | 'playerName' | 'conditions'
+> & {
+  teamRef?: TeamSideType; // replaces teamAbbrev
+  playerRef?: TemplatePlayerRef; // replaces playerId / playerName
+  conditions?: TemplateEventCondition[];
+};
+
+export const MAX_PLAYER_RANK = 5;
+
+export const templateEventConditionSchema: z.ZodType<TemplateEventCondition> =
+  z.lazy(() =>
+    z
+      .object({
+        id: z.string(),
+        category: z.nativeEnum(EventCategory),
+        subject: z.string(),
+        comparison: z.nativeEnum(ComparisonType),
+        threshold: z.number(),
+        upperThreshold: z.number().optional(),
+        period: z.number().int().min(1).max(MAX_PERIOD).optional(),
+        teamRef: z.enum([TeamSide.HOME, TeamSide.AWAY]).optional(),
+        playerRef: z
+          .object({
+            team: z.enum([TeamSide.HOME, TeamSide.AWAY]),
+            role: z.enum([
+              PlayerRole.TOP_SCORER,
+              PlayerRole.POINTS_LEADER,
+              PlayerRole.STARTER,
+            ]),
+            rank: z.number().int().min(1).max(MAX_PLAYER_RANK).default(1),
+          })
+          .optional(),
+        weight: z.number().min(1).max(MAX_SQUARE_WEIGHT).optional(),
+        operator: z.nativeEnum(ConditionOperator).optional(),
+        conditions: z
+          .array(templateEventConditionSchema)
+          .min(1)
+          .max(MAX_SUB_CONDITIONS)
+          .optional(),
+      })
+      .superRefine(refineCondition)
+  );
+
+export interface ITicketTemplate {
+  userId: string;
+  name: string;
+  gridSize: TicketGridSize;
+  events: TemplateEventCondition[];
+  createdAt: Date;
+}
+
+// Zod schema for saving a template
+export const createTemplateSchema = z
+  .object({
+    name: z.string().min(1, 'Name required'),
+    events: z.array(templateEventConditionSchema),
+    gridSize: gridSizeSchema,
+  })
+  .superRefine(refineSquares);
+
+export type CreateTemplateBody = z.infer<typeof createTemplateSchema>;
+
+// Zod schema for POST /api/tickets/from-template
+export const createTicketFromTemplateSchema = z.object({
+  templateId: z.string().min(1, 'Template ID required'),
+  name: z.string().min(1).optional(), // defaults to the template name
+  game: ticketGameSchema,
+});
+
+export type CreateTicketFromTemplateBody = z.infer<
+  typeof createTicketFromTemplateSchema
+>;
+
+// --- Generated tickets ---
+export const TicketDifficulty = {
+  EASY: 'easy',
+  MEDIUM: 'medium',
+  HARD: 'hard',
+} as const;
+
+export type TicketDifficultyType =
+  (typeof TicketDifficulty)[keyof typeof TicketDifficulty];
+
+// Zod schema for POST /api/tickets/generate
+export const generateTicketSchema = z.object({
+  name: z.string().min(1).optional(), // defaults to "AWAY @ HOME (difficulty)"
+  game: ticketGameSchema,
+  difficulty: z
+    .enum([
+      TicketDifficulty.EASY,
+      TicketDifficulty.MEDIUM,
+      TicketDifficulty.HARD,
+    ])
+    .default(TicketDifficulty.MEDIUM),
+  gridSize: gridSizeSchema,
+});
+
+export type GenerateTicketBody = z.infer<typeof generateTicketSchema>;
+
+// --- Listing a user's tickets ---
+export const TicketGameState = {
+  UPCOMING: 'upcoming',
+  LIVE: 'live',
+  FINISHED: 'finished',
+} as const;
+
+export type TicketGameStateType =
+  (typeof TicketGameState)[keyof typeof TicketGameState];
+
+export const TicketSortField = {
+  DATE: 'date', // createdAt
+  SCORE: 'score', // score.total
+} as const;
+
+export type TicketSortFieldType =
+  (typeof TicketSortField)[keyof typeof TicketSortField];
+
+export const MAX_TICKET_PAGE_SIZE = 100;
+
+// Zod schema for the GET /api/tickets/user/:userId query string
+export const ticketListQuerySchema = z
+  .object({
+    gameId: z.coerce.number().int().optional(),
+    team: z
+      .string()
+      .min(1)
+      .transform(team => team.toUpperCase())
+      .optional(),
+    state: z
+      .enum([
+        TicketGameState.UPCOMING,
+        TicketGameState.LIVE,
+        TicketGameState.FINISHED,
+      ])
+      .optional(),
+    from: z.iso.date().optional(), // game start date (UTC), inclusive
+    to: z.iso.date().optional(),
+    inChallenge: z
+      .enum(['true', 'false'])
+      .transform(value => value === 'true')
+      .optional(),
+    sort: z
+      .enum([TicketSortField.DATE, TicketSortField.SCORE])
+      .default(TicketSortField.DATE),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.coerce.number().int().min(1).max(MAX_TICKET_PAGE_SIZE).optional(), // no limit when omitted
+    cursor: z.string().min(1).optional(), // from the previous page's X-Next-Cursor
+  })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['to'],
+  });
+
+export type TicketListQuery = z.infer<typeof ticketListQuerySchema>;
+
+// --- Import / export ---
+export const TicketFileFormat = {
+  JSON: 'json',
+  CSV: 'csv',
+} as const;
+
+export type TicketFileFormatType =
+  (typeof TicketFileFormat)[keyof typeof TicketFileFormat];
+
+export const MAX_IMPORT_TICKETS = 50;
+
+// Zod schema for the GET /api/tickets/:id/export query string
+export const ticketExportQuerySchema = z.object({
+  format: z
+    .enum([TicketFileFormat.JSON, TicketFileFormat.CSV])
+    .default(TicketFileFormat.JSON),
+});
+
+export type TicketExportQuery = z.infer<typeof ticketExportQuerySchema>;
+
+// Zod schema for POST /api/tickets/import; each ticket is checked against
+// createTicketSchema separately so errors can point at the bad row
+export const importTicketsSchema = z.discriminatedUnion('format', [
+  z.object({
+    format: z.literal(TicketFileFormat.JSON),
+    tickets: z.array(z.unknown()).min(1).max(MAX_IMPORT_TICKETS),
+  }),
+  z.object({
+    format: z.literal(TicketFileFormat.CSV),
+    csv: z.string().min(1),
+  }),
+]);
+
+export type ImportTicketsBody = z.infer<typeof importTicketsSchema>;
+
+// Where an imported ticket went wrong: the ticket's position in the import
+// and, for CSV, the line of the offending row
+export type TicketImportError = {
+  ticket?: number;
+  row?: number;
+  field: string;
+  message: string;
+};
+
+// --- Sharing ---
+// Zod schema for POST /api/tickets/shared/:code/clone
+export const cloneTicketSchema = z.object({
+  name: z.string().min(1).optional(), // defaults to the shared ticket's name
+  game: ticketGameSchema.optional(), // defaults to the shared ticket's game
+});
+
+export type CloneTicketBody = z.infer<typeof cloneTicketSchema>;
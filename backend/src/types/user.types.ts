@@ -51,6 +51,13 @@ export type GetProfileResponse = {
 
 export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
 
+export type GetUserStatsResponse = {
+  message: string;
+  data?: {
+    stats: UserStats;
+  };
+};
+
 // Generic types
 // ------------------------------------------------------------
 export type GoogleUserInfo = {
@@ -67,3 +74,27 @@ export type PublicUserInfo = {
   bio?: string;
   friendCode: string;
 };
+
+// Profile statistics, aggregated from the user's tickets and challenges
+export type FavouriteTeam = {
+  teamAbbrev: string;
+  squares: number; // squares about this team across all tickets
+};
+
+export type FavouritePlayer = {
+  playerId: number;
+  playerName?: string;
+  squares: number;
+};
+
+export type UserStats = {
+  ticketsCreated: number;
+  averageScore: number; // mean classic total, two decimals
+  totalBingos: number; // completed rows, columns and diagonals
+  blackouts: number; // tickets with every square crossed off
+  challengesPlayed: number; // finished challenges the user was a member of
+  challengesWon: number; // including shared first places
+  winRate: number; // challengesWon / challengesPlayed, 0 to 1
+  favouriteTeams: FavouriteTeam[];
+  favouritePlayers: FavouritePlayer[];
+};
@@ -0,0 +1,24 @@
+/**
+ * The challenge without its join code. Mongoose documents are flattened with
+ * toJSON first so Maps (ticketIds) survive the copy.
+ */
+export const withoutJoinCode = <T extends object>(challenge: T): T => {
+  const toJSON = (challenge as { toJSON?: () => T }).toJSON;
+  const plain =
+    typeof toJSON === 'function' ? toJSON.call(challenge) : challenge;
+  return { ...plain, joinCode: undefined };
+};
+
+/**
+ * The challenge as the user may see it: the join code is only for the owner
+ * and members to share.
+ */
+export const challengeForViewer = <
+  T extends { ownerId: string; memberIds: string[] },
+>(
+  challenge: T,
+  userId: string
+): T =>
+  challenge.ownerId === userId || challenge.memberIds.includes(userId)
+    ? challenge
+    : withoutJoinCode(challenge);
@@ -0,0 +1,73 @@
+/**
+ * Minimal RFC 4180 CSV support: comma separated, fields quoted with double
+ * quotes when they contain commas, quotes or line breaks.
+ */
+
+const escapeField = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return (
+    [header, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') +
+    '\r\n'
+  );
+}
+
+// A parsed record and the (1-based) line it starts on
+export type CsvRow = { line: number; fields: string[] };
+
+/**
+ * Parse CSV text into records. Blank lines are skipped.
+ * Throws if a quoted field is never closed.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push({ line: rowStart, fields: row });
+    }
+    row = [];
+    field = '';
+    rowStart = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error('Unterminated quoted field');
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
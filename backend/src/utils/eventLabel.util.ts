@@ -0,0 +1,65 @@
+import {
+  ComparisonType,
+  ConditionOperator,
+  EventCategory,
+  EventCondition,
+  findCatalogueEntry,
+} from '../types/tickets.types';
+
+/**
+ * Render a comparison the way the app shows it, e.g. "2+", "< 3", "2-4"
+ */
+const formatComparison = (event: EventCondition): string => {
+  switch (event.comparison) {
+    case ComparisonType.GREATER_THAN:
+    case ComparisonType.AT_LEAST:
+      return `${event.threshold}+`;
+    case ComparisonType.LESS_THAN:
+      return `< ${event.threshold}`;
+    case ComparisonType.EQUAL:
+      return `exactly ${event.threshold}`;
+    case ComparisonType.BETWEEN:
+      return `${event.threshold}-${event.upperThreshold ?? event.threshold}`;
+    default:
+      return `${event.threshold}`;
+  }
+};
+
+const formatPeriod = (period: number): string =>
+  period <= 3 ? `P${period}` : period === 4 ? 'OT' : `${period - 3}OT`;
+
+const formatWho = (event: EventCondition): string => {
+  if (event.playerName) return event.playerName;
+  const team = event.teamAbbrev ? `${event.teamAbbrev} ` : '';
+  switch (event.category) {
+    case EventCategory.TEAM:
+    case EventCategory.PENALTY:
+      return event.teamAbbrev ?? 'Team';
+    case EventCategory.GOALIE:
+      return `Any ${team}goalie`;
+    case EventCategory.DEFENSE:
+      return `Any ${team}defenseman`;
+    default:
+      return `Any ${team}forward`;
+  }
+};
+
+/**
+ * Build a human-readable label for a square from its catalogue template,
+ * e.g. "E. Pettersson goals (2+) in P3" or "VAN goals (3+) OR BOS goals (< 2)"
+ */
+export const formatEventLabel = (event: EventCondition): string => {
+  const template =
+    findCatalogueEntry(event.category, event.subject)?.label ??
+    `{who} ${event.subject} ({comparison})`;
+  let label = template
+    .replace('{who}', formatWho(event))
+    .replace('{comparison}', formatComparison(event));
+  if (event.period != null) label += ` in ${formatPeriod(event.period)}`;
+
+  if (event.operator && event.conditions?.length) {
+    const joiner = event.operator === ConditionOperator.AND ? ' AND ' : ' OR ';
+    label = [label, ...event.conditions.map(formatEventLabel)].join(joiner);
+  }
+  return label;
+};
@@ -0,0 +1,39 @@
+import { EventCategory } from '../types/tickets.types';
+import { TeamRoster } from '../types/nhl.types';
+import { nhlService } from '../services/nhl.service';
+import logger from './logger.util';
+
+/**
+ * Roster groups a player of each category is listed in. Other categories
+ * (team, penalty) are not tied to a position.
+ */
+export const ROSTER_GROUPS: Partial<
+  Record<EventCategory, (keyof TeamRoster)[]>
+> = {
+  [EventCategory.FORWARD]: ['forwards'],
+  [EventCategory.DEFENSE]: ['defensemen'],
+  [EventCategory.GOALIE]: ['goalies'],
+};
+
+/**
+ * Fetch the teams' current rosters, keyed by team abbreviation. A team whose
+ * roster is unavailable is left out and logged along with `fallback`, what
+ * the caller does without it.
+ */
+export const loadRosters = async (
+  teams: string[],
+  fallback: string
+): Promise<Map<string, TeamRoster>> => {
+  const rosters = new Map<string, TeamRoster>();
+  const results = await Promise.all(
+    teams.map(team => nhlService.getTeamRoster(team))
+  );
+  results.forEach((roster, i) => {
+    if (roster) {
+      rosters.set(teams[i], roster);
+    } else {
+      logger.warn(`Roster unavailable for ${teams[i]}, ${fallback}`);
+    }
+  });
+  return rosters;
+};
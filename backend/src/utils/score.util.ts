@@ -4,47 +4,86 @@ export type BingoTicketScore = {
   noColumns: number;
   noCrosses: number;
   total: number;
+  weightedTotal: number; // total with each square worth its weight
 };
 
+export type ScoringWeights = {
+  perSquare: number;
+  perLine: number; // per completed row, column or diagonal
+  fullCardBonus: number;
+};
+
+/**
+ * Named scoring profiles a challenge can pick. "classic" is the default and
+ * the one used for a ticket's own stored score.
+ */
+export const SCORING_PROFILES = {
+  classic: { perSquare: 1, perLine: 3, fullCardBonus: 10 },
+  lines_only: { perSquare: 0, perLine: 3, fullCardBonus: 0 },
+  blackout: { perSquare: 1, perLine: 0, fullCardBonus: 25 },
+  weighted: { perSquare: 1, perLine: 3, fullCardBonus: 10 }, // ranked by weightedTotal
+} satisfies Record<string, ScoringWeights>;
+
+export type ScoringProfileName = keyof typeof SCORING_PROFILES;
+
+/**
+ * Resolve the weights for a profile name, falling back to the custom weights
+ * (or classic when none are given) for names that are not in the table.
+ */
+export function resolveScoringWeights(
+  profile?: string,
+  custom?: ScoringWeights
+): ScoringWeights {
+  if (profile && profile in SCORING_PROFILES) {
+    return SCORING_PROFILES[profile as ScoringProfileName];
+  }
+  return custom ?? SCORING_PROFILES.classic;
+}
+
 /**
- * Compute Bingo ticket score given crossedOff boolean array of length 9.
- * Layout indices:
+ * Compute Bingo ticket score given a crossedOff boolean array for a square
+ * grid of side `gridSize` (3, 4 or 5), stored row by row.
+ * Layout indices for a 3x3 grid:
  * 0 1 2
  * 3 4 5
  * 6 7 8
  */
 
 /**
- * Normalize input to a strict boolean array of length 9.
+ * Normalize input to a strict boolean array of length gridSize * gridSize.
  */
-function normalizeCrossedOff(input: unknown): boolean[] {
-  const arr: boolean[] = new Array(9).fill(false);
+function normalizeCrossedOff(input: unknown, gridSize: number): boolean[] {
+  const arr: boolean[] = new Array(gridSize * gridSize).fill(false);
   if (!Array.isArray(input)) return arr;
-  for (let i = 0; i < 9; i++) {
+  for (let i = 0; i < arr.length; i++) {
     arr[i] = !!(input as any)[i];
   }
   return arr;
 }
 
 /**
- * Count fully crossed rows (3 rows).
+ * Count fully crossed rows.
  */
-function countRows(arr: boolean[]): number {
+function countRows(arr: boolean[], gridSize: number): number {
   let count = 0;
-  for (let r = 0; r < 3; r++) {
-    const start = r * 3;
-    if (arr[start] && arr[start + 1] && arr[start + 2]) count++;
+  for (let r = 0; r < gridSize; r++) {
+    const start = r * gridSize;
+    if (arr.slice(start, start + gridSize).every(Boolean)) count++;
   }
   return count;
 }
 
 /**
- * Count fully crossed columns (3 columns).
+ * Count fully crossed columns.
  */
-function countColumns(arr: boolean[]): number {
+function countColumns(arr: boolean[], gridSize: number): number {
   let count = 0;
-  for (let c = 0; c < 3; c++) {
-    if (arr[c] && arr[c + 3] && arr[c + 6]) count++;
+  for (let c = 0; c < gridSize; c++) {
+    let full = true;
+    for (let r = 0; r < gridSize; r++) {
+      if (!arr[r * gridSize + c]) full = false;
+    }
+    if (full) count++;
   }
   return count;
 }
@@ -52,33 +91,123 @@ function countColumns(arr: boolean[]): number {
 /**
  * Count crossed diagonals (2 possible).
  */
-function countDiagonals(arr: boolean[]): number {
-  let count = 0;
-  if (arr[0] && arr[4] && arr[8]) count++;
-  if (arr[2] && arr[4] && arr[6]) count++;
-  return count;
+function countDiagonals(arr: boolean[], gridSize: number): number {
+  let main = true;
+  let anti = true;
+  for (let i = 0; i < gridSize; i++) {
+    if (!arr[i * gridSize + i]) main = false;
+    if (!arr[i * gridSize + (gridSize - 1 - i)]) anti = false;
+  }
+  return (main ? 1 : 0) + (anti ? 1 : 0);
+}
+
+/**
+ * Per-square weights for a grid; missing or invalid entries count as 1.
+ */
+function normalizeSquareWeights(
+  squareWeights: number[] | undefined,
+  gridSize: number
+): number[] {
+  return Array.from({ length: gridSize * gridSize }, (_, i) => {
+    const weight = squareWeights?.[i];
+    return typeof weight === 'number' && weight > 0 ? weight : 1;
+  });
 }
 
-export function computeTicketScore(crossedOff: boolean[]): BingoTicketScore {
-  const arr = normalizeCrossedOff(crossedOff);
+export function computeTicketScore(
+  crossedOff: boolean[],
+  gridSize: number = 3,
+  weights: ScoringWeights = SCORING_PROFILES.classic,
+  squareWeights?: number[]
+): BingoTicketScore {
+  const arr = normalizeCrossedOff(crossedOff, gridSize);
+  const squareValues = normalizeSquareWeights(squareWeights, gridSize);
 
   const noCrossedOff = arr.reduce((sum, v) => sum + (v ? 1 : 0), 0);
-  const noRows = countRows(arr);
-  const noColumns = countColumns(arr);
-  const noCrosses = countDiagonals(arr);
+  const noRows = countRows(arr, gridSize);
+  const noColumns = countColumns(arr, gridSize);
+  const noCrosses = countDiagonals(arr, gridSize);
 
   // scoring rules
-  const perSquare = noCrossedOff * 1;
-  const perLine = (noRows + noColumns + noCrosses) * 3;
-  const bingoBonus = noCrossedOff === 9 ? 10 : 0;
+  const perSquare = noCrossedOff * weights.perSquare;
+  const perLine = (noRows + noColumns + noCrosses) * weights.perLine;
+  const bingoBonus = noCrossedOff === arr.length ? weights.fullCardBonus : 0;
 
   const total = perSquare + perLine + bingoBonus;
 
+  // Same rules, but each crossed square is worth its weight
+  const weightedSquares = arr.reduce(
+    (sum, v, i) => sum + (v ? squareValues[i] : 0),
+    0
+  );
+  const weightedTotal =
+    weightedSquares * weights.perSquare + perLine + bingoBonus;
+
   return {
     noCrossedOff,
     noRows,
     noColumns,
     noCrosses,
     total,
+    weightedTotal,
+  };
+}
+
+/**
+ * Indices of every row, column and diagonal of a gridSize x gridSize card.
+ */
+function lineIndices(gridSize: number): number[][] {
+  const range = Array.from({ length: gridSize }, (_, i) => i);
+  return [
+    ...range.map(r => range.map(c => r * gridSize + c)),
+    ...range.map(c => range.map(r => r * gridSize + c)),
+    range.map(i => i * gridSize + i),
+    range.map(i => i * gridSize + (gridSize - 1 - i)),
+  ];
+}
+
+/**
+ * Expected value of computeTicketScore when square i is crossed off with
+ * probability probabilities[i], treating squares as independent.
+ * Values are rounded to two decimals.
+ */
+export function computeExpectedScore(
+  probabilities: number[],
+  gridSize: number = 3,
+  weights: ScoringWeights = SCORING_PROFILES.classic,
+  squareWeights?: number[]
+): BingoTicketScore {
+  const squareValues = normalizeSquareWeights(squareWeights, gridSize);
+  const p = Array.from(
+    { length: gridSize * gridSize },
+    (_, i) => probabilities[i] ?? 0
+  );
+  const lineOdds = lineIndices(gridSize).map(line =>
+    line.reduce((product, i) => product * p[i], 1)
+  );
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const noCrossedOff = sum(p);
+  const noRows = sum(lineOdds.slice(0, gridSize));
+  const noColumns = sum(lineOdds.slice(gridSize, gridSize * 2));
+  const noCrosses = sum(lineOdds.slice(gridSize * 2));
+  const fullCard = p.reduce((product, odds) => product * odds, 1);
+
+  const lineAndBonus =
+    (noRows + noColumns + noCrosses) * weights.perLine +
+    fullCard * weights.fullCardBonus;
+  const total = noCrossedOff * weights.perSquare + lineAndBonus;
+  const weightedTotal =
+    sum(p.map((odds, i) => odds * squareValues[i])) * weights.perSquare +
+    lineAndBonus;
+
+  return {
+    noCrossedOff: round(noCrossedOff),
+    noRows: round(noRows),
+    noColumns: round(noColumns),
+    noCrosses: round(noCrosses),
+    total: round(total),
+    weightedTotal: round(weightedTotal),
   };
 }
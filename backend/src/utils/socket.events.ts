@@ -1,4 +1,7 @@
-// Socket event utilities for easy broadcasting
+import { withoutJoinCode } from './challengeView.util';
+
+// Socket event utilities for easy broadcasting. Only the owner and members
+// get a challenge's join code; room broadcasts and invitees get it stripped.
 export class SocketEvents {
   // Challenge-related events
   static challengeCreated(challengeData: any) {
@@ -10,7 +13,7 @@ export class SocketEvents {
           'challenge_invitation',
           {
             type: 'challenge_created',
-            challenge: challengeData,
+            challenge: withoutJoinCode(challengeData),
             message: `You've been invited to join "${challengeData.title}"`,
           }
         );
@@ -38,7 +41,7 @@ export class SocketEvents {
         {
           type: 'challenge_updated',
           challengeId: challengeId,
-          challenge: challengeData,
+          challenge: withoutJoinCode(challengeData),
           message: 'Challenge has been updated',
         }
       );
@@ -65,7 +68,7 @@ export class SocketEvents {
           {
             type: 'challenge_updated',
             challengeId: challengeId,
-            challenge: challengeData,
+            challenge: withoutJoinCode(challengeData),
             message: 'Challenge has been updated',
           }
         );
@@ -97,7 +100,7 @@ export class SocketEvents {
           {
             type: 'challenge_deleted',
             challengeId: challengeId,
-            challenge: challengeData,
+            challenge: withoutJoinCode(challengeData),
             message: `The challenge "${challengeData.title}" has been deleted.`,
           }
         );
@@ -119,7 +122,7 @@ export class SocketEvents {
           type: 'user_joined',
           challengeId: challengeId,
           user: userData,
-          challenge: challengeData,
+          challenge: withoutJoinCode(challengeData),
           message: `${userData.name || userData.email || 'Someone'} joined the challenge!`,
         }
       );
@@ -155,7 +158,7 @@ export class SocketEvents {
           type: 'user_left',
           challengeId: challengeId,
           user: userData,
-          challenge: challengeData,
+          challenge: withoutJoinCode(challengeData),
           message: `${userData.name || userData.email || 'Someone'} left the challenge`,
         }
       );
@@ -177,6 +180,38 @@ export class SocketEvents {
     }
   }
 
+  static usersInvited(
+    challengeId: string,
+    invitedUserIds: string[],
+    challengeData: any
+  ) {
+    if (global.socketService) {
+      // Notify only the newly invited users
+      global.socketService.sendToUsers(invitedUserIds, 'challenge_invitation', {
+        type: 'users_invited',
+        challengeId: challengeId,
+        challenge: withoutJoinCode(challengeData),
+        message: `You've been invited to join "${challengeData.title}"`,
+      });
+    }
+  }
+
+  static invitationRevoked(
+    challengeId: string,
+    userId: string,
+    challengeData: any
+  ) {
+    if (global.socketService) {
+      // Notify the user whose invitation was withdrawn
+      global.socketService.sendToUser(userId, 'invitation_revoked', {
+        type: 'invitation_revoked',
+        challengeId: challengeId,
+        challenge: withoutJoinCode(challengeData),
+        message: `Your invitation to "${challengeData.title}" was withdrawn`,
+      });
+    }
+  }
+
   static invitationDeclined(
     challengeId: string,
     userData: any,
@@ -213,6 +248,54 @@ export class SocketEvents {
     }
   }
 
+  static memberRemoved(
+    challengeId: string,
+    userId: string,
+    challengeData: any
+  ) {
+    if (global.socketService) {
+      // Tell the removed user; they are no longer in memberIds
+      global.socketService.sendToUser(userId, 'removed_from_challenge', {
+        type: 'member_removed',
+        challengeId,
+        challenge: withoutJoinCode(challengeData),
+        message: `You were removed from "${challengeData.title}"`,
+      });
+    }
+  }
+
+  static ownershipTransferred(
+    challengeId: string,
+    previousOwnerId: string,
+    challengeData: any
+  ) {
+    if (global.socketService) {
+      // Tell the new owner first, then the previous one
+      global.socketService.sendToUser(
+        challengeData.ownerId,
+        'challenge_ownership_transferred',
+        {
+          type: 'ownership_transferred',
+          challengeId,
+          previousOwnerId,
+          challenge: challengeData,
+          message: `You are now the owner of "${challengeData.title}"`,
+        }
+      );
+      global.socketService.sendToUser(
+        previousOwnerId,
+        'challenge_ownership_transferred',
+        {
+          type: 'ownership_transferred',
+          challengeId,
+          previousOwnerId,
+          challenge: challengeData,
+          message: `You handed "${challengeData.title}" over to another member`,
+        }
+      );
+    }
+  }
+
   static challengeStatusChanged(
     challengeId: string,
     newStatus: string,
@@ -227,7 +310,7 @@ export class SocketEvents {
           type: 'status_changed',
           challengeId,
           newStatus,
-          challenge: challengeData,
+          challenge: withoutJoinCode(challengeData),
           message: `Challenge status changed to ${newStatus}`,
         }
       );
@@ -248,6 +331,68 @@ export class SocketEvents {
       }
     }
   }
+
+  static leaderboardUpdated(challengeId: string, leaderboard: any[]) {
+    if (global.socketService) {
+      // Broadcast to challenge room (for users currently viewing the challenge)
+      global.socketService.broadcastToChallenge(
+        challengeId,
+        'leaderboard_updated',
+        {
+          type: 'leaderboard_updated',
+          challengeId,
+          leaderboard,
+          message: 'Challenge standings have been updated',
+        }
+      );
+    }
+  }
+
+  static challengeFinished(
+    challengeId: string,
+    resultData: any,
+    challengeData: any
+  ) {
+    if (global.socketService) {
+      const payload = {
+        type: 'challenge_finished',
+        challengeId,
+        podium: resultData.podium,
+        winnerIds: resultData.winnerIds,
+        result: resultData,
+        message: `The challenge "${challengeData.title}" has finished!`,
+      };
+
+      // Broadcast to challenge room (for users currently viewing the challenge)
+      global.socketService.broadcastToChallenge(
+        challengeId,
+        'challenge_finished',
+        payload
+      );
+
+      // Also notify all members individually (for challenges list view)
+      if (challengeData.memberIds?.length > 0) {
+        global.socketService.sendToUsers(
+          challengeData.memberIds,
+          'challenge_finished',
+          payload
+        );
+      }
+    }
+  }
+
+  // Ticket-related events
+  static ticketUpdated(userId: string, ticketData: any) {
+    if (global.socketService) {
+      // Notify the ticket owner that their squares/score changed
+      global.socketService.sendToUser(userId, 'ticket_updated', {
+        type: 'ticket_updated',
+        ticketId: ticketData._id?.toString(),
+        ticket: ticketData,
+        message: 'Your ticket has been updated',
+      });
+    }
+  }
 }
 
 export default SocketEvents;
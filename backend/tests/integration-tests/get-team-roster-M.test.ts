@@ -0,0 +1,71 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import axios from 'axios';
+
+// Mock axios
+jest.mock('axios');
+
+import { NHLService } from '../../src/services/nhl.service';
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Mocked NHLService.getTeamRoster', () => {
+  let nhlService: NHLService;
+
+  beforeEach(() => {
+    nhlService = new NHLService();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    nhlService.clearCache();
+  });
+
+  // Mocked behavior: Successful API response, then a second lookup
+  // Input: team abbreviation
+  // Expected behavior: roster is fetched once and served from cache afterwards
+  // Expected output: TeamRoster object
+  test('Fetches and caches a team roster', async () => {
+    const roster = {
+      forwards: [
+        {
+          id: 8480012,
+          firstName: { default: 'Elias' },
+          lastName: { default: 'Pettersson' },
+        },
+      ],
+      defensemen: [],
+      goalies: [],
+    };
+    mockedAxios.get.mockResolvedValueOnce({ data: roster });
+
+    const first = await nhlService.getTeamRoster('VAN');
+    const second = await nhlService.getTeamRoster('VAN');
+
+    expect(first).toEqual(roster);
+    expect(second).toEqual(roster);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'https://api-web.nhle.com/v1/roster/VAN/current',
+      expect.any(Object)
+    );
+  });
+
+  // Mocked behavior: API request fails
+  // Input: team abbreviation
+  // Expected behavior: error is logged and nothing is cached
+  // Expected output: null
+  test('Returns null when the roster request fails', async () => {
+    mockedAxios.get.mockRejectedValueOnce(new Error('Network error'));
+
+    const result = await nhlService.getTeamRoster('VAN');
+
+    expect(result).toBeNull();
+  });
+});
@@ -5,6 +5,7 @@ import {
   jest,
   beforeAll,
   afterAll,
+  beforeEach,
 } from '@jest/globals';
 import dotenv from 'dotenv';
 import request from 'supertest';
@@ -14,6 +15,8 @@ import mongoose from 'mongoose';
 import jwt from 'jsonwebtoken';
 import { userModel } from '../../../src/models/user.model';
 import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
 import path from 'path';
 
 // Load test environment variables
@@ -55,6 +58,11 @@ describe('Mocked DELETE /api/tickets/:id', () => {
     });
   });
 
+  beforeEach(() => {
+    jest.spyOn(challengeModel, 'findByTicket').mockResolvedValue([]);
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
   // Restore mocks after tests
   afterAll(() => {
     jest.restoreAllMocks();
@@ -67,6 +75,11 @@ describe('Mocked DELETE /api/tickets/:id', () => {
   // Expected output: Server error message
   test('Database throws when Ticket.findByIdAndDelete fails', async () => {
     // Arrange: mock Ticket.findByIdAndDelete to throw
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      isFinalized: false,
+    } as any);
     jest.spyOn(Ticket, 'findByIdAndDelete').mockImplementationOnce(() => {
       throw new Error('Forced DB error');
     });
@@ -81,4 +94,57 @@ describe('Mocked DELETE /api/tickets/:id', () => {
     expect(Ticket.findByIdAndDelete).toHaveBeenCalledWith(testTicketId);
     expect(res.body).toHaveProperty('message', 'Server error');
   });
+
+  // Mocked behavior: Ticket.findById returns a finalized ticket
+  // Input: valid ticket id
+  // Expected status code: 409
+  // Expected behavior: finalized tickets are read-only and are not deleted
+  // Expected output: Error message
+  test('Rejects deleting a finalized ticket', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      isFinalized: true,
+    } as any);
+    const deleteSpy = jest.spyOn(Ticket, 'findByIdAndDelete');
+    deleteSpy.mockClear();
+
+    const res = await request(app)
+      .delete(`/api/tickets/${testTicketId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(409);
+    expect(deleteSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the ticket is entered in a challenge and its game started
+  //        an hour ago
+  // Input: valid ticket id
+  // Expected status code: 409
+  // Expected behavior: the ticket stays on the challenge leaderboard
+  // Expected output: Error message
+  test('Rejects deleting a challenge ticket once the game starts', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      isFinalized: false,
+      game: {
+        id: 2024020100,
+        startTimeUTC: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      },
+    } as any);
+    const findSpy = jest
+      .spyOn(challengeModel, 'findByTicket')
+      .mockResolvedValueOnce([{ id: 'challenge-1' }] as any);
+    const deleteSpy = jest.spyOn(Ticket, 'findByIdAndDelete');
+    deleteSpy.mockClear();
+
+    const res = await request(app)
+      .delete(`/api/tickets/${testTicketId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(409);
+    expect(findSpy).toHaveBeenCalledWith(testUserId, testTicketId);
+    expect(deleteSpy).not.toHaveBeenCalled();
+  });
 });
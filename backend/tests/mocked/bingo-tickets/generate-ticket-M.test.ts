@@ -0,0 +1,259 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { ticketGeneratorService } from '../../../src/services/ticketGenerator.service';
+import {
+  EventCategory,
+  EventCondition,
+  createTicketSchema,
+} from '../../../src/types/tickets.types';
+import { TeamRoster } from '../../../src/types/nhl.types';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const roster = (firstId: number): TeamRoster => {
+  const players = (offset: number, count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      id: firstId + offset + i,
+      firstName: { default: 'Player' },
+      lastName: { default: `${firstId + offset + i}` },
+    }));
+  return {
+    forwards: players(0, 12),
+    defensemen: players(100, 6),
+    goalies: players(200, 2),
+  };
+};
+
+const ROSTERS: Record<string, TeamRoster> = {
+  BOS: roster(1000),
+  VAN: roster(2000),
+};
+
+const game = {
+  id: 2024020100,
+  homeTeam: { abbrev: 'BOS' },
+  awayTeam: { abbrev: 'VAN' },
+};
+
+const squareKey = (event: EventCondition) =>
+  [event.category, event.subject, event.teamAbbrev, event.playerId].join('|');
+
+// Interface POST /api/tickets/generate
+describe('Mocked POST /api/tickets/generate', () => {
+  let authToken: string;
+  let testUserId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+    jest
+      .spyOn(Ticket, 'create')
+      .mockImplementation(async (data: any) => data as any);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: rosters available for both teams
+  // Input: easy 3x3 ticket
+  // Expected status code: 201
+  // Expected behavior: every category is used, no square repeats and
+  // every square passes the same validation as POST /api/tickets
+  // Expected output: generated ticket
+  test('Generates a mixed, valid ticket from the rosters', async () => {
+    jest
+      .spyOn(nhlService, 'getTeamRoster')
+      .mockImplementation(async team => ROSTERS[team]);
+
+    const res = await request(app)
+      .post('/api/tickets/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ game, difficulty: 'easy' });
+
+    expect(res.status).toBe(201);
+    const events: EventCondition[] = res.body.events;
+    expect(events).toHaveLength(9);
+    expect(new Set(events.map(e => e.category))).toEqual(
+      new Set(Object.values(EventCategory))
+    );
+    expect(new Set(events.map(squareKey)).size).toBe(9);
+    expect(
+      createTicketSchema.safeParse({ name: 'x', game, events }).success
+    ).toBe(true);
+
+    const rosterIds = Object.values(ROSTERS).flatMap(r =>
+      [...r.forwards, ...r.defensemen].map(p => p.id)
+    );
+    for (const event of events.filter(e => e.playerId !== undefined)) {
+      expect(rosterIds).toContain(event.playerId);
+      expect(event.playerName).toBe(`Player ${event.playerId}`);
+    }
+    // Goalie squares are about whoever is in net
+    for (const event of events.filter(
+      e => e.category === EventCategory.GOALIE
+    )) {
+      expect(event.playerId).toBeUndefined();
+      expect(['BOS', 'VAN']).toContain(event.teamAbbrev);
+    }
+    expect(res.body.userId).toBe(testUserId);
+    expect(res.body.name).toBe('VAN @ BOS (easy)');
+  });
+
+  // Mocked behavior: rosters unavailable
+  // Input: 5x5 ticket at each difficulty
+  // Expected status code: 201
+  // Expected behavior: squares fall back to team and any-player squares
+  // Expected output: 25 distinct valid squares with that difficulty's thresholds
+  test('Generates a full 5x5 ticket without rosters', async () => {
+    jest.spyOn(nhlService, 'getTeamRoster').mockResolvedValue(null);
+    const teamShots = { easy: 20, medium: 30, hard: 38 };
+
+    for (const [difficulty, shots] of Object.entries(teamShots)) {
+      const res = await request(app)
+        .post('/api/tickets/generate')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ game, difficulty, gridSize: 5, name: 'Big card' });
+
+      expect(res.status).toBe(201);
+      const events: EventCondition[] = res.body.events;
+      expect(events).toHaveLength(25);
+      expect(new Set(events.map(squareKey)).size).toBe(25);
+      expect(events.every(e => e.playerId === undefined)).toBe(true);
+      expect(
+        createTicketSchema.safeParse({ name: 'x', game, events, gridSize: 5 })
+          .success
+      ).toBe(true);
+      events
+        .filter(e => e.category === EventCategory.TEAM && e.subject === 'sog')
+        .forEach(e => expect(e.threshold).toBe(shots));
+      expect(res.body.name).toBe('Big card');
+    }
+  });
+
+  // Mocked behavior: none
+  // Input: unknown difficulty
+  // Expected status code: 400
+  // Expected behavior: no ticket is created
+  // Expected output: validation error
+  test('Rejects unknown difficulty', async () => {
+    const res = await request(app)
+      .post('/api/tickets/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ game, difficulty: 'impossible' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe('difficulty');
+    expect(Ticket.create).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: none
+  // Input: a game whose scheduled start has passed
+  // Expected status code: 409
+  // Expected behavior: no ticket is generated or created
+  // Expected output: lock error message
+  test('Rejects generating a ticket once the game starts', async () => {
+    const generateSpy = jest.spyOn(ticketGeneratorService, 'generate');
+
+    const res = await request(app)
+      .post('/api/tickets/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ game: { ...game, startTimeUTC: '2000-01-01T00:00:00Z' } });
+
+    expect(res.status).toBe(409);
+    expect(res.body).toHaveProperty(
+      'message',
+      'Ticket events are locked once the game starts'
+    );
+    expect(generateSpy).not.toHaveBeenCalled();
+    expect(Ticket.create).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the generator runs out of distinct squares
+  // Input: valid request
+  // Expected status code: 422
+  // Expected behavior: no ticket is created
+  // Expected output: the generator's error message
+  test('Returns 422 when the grid cannot be filled', async () => {
+    jest
+      .spyOn(ticketGeneratorService, 'generate')
+      .mockRejectedValueOnce(
+        new Error('Not enough distinct squares to fill the ticket')
+      );
+
+    const res = await request(app)
+      .post('/api/tickets/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ game, gridSize: 5 });
+
+    expect(res.status).toBe(422);
+    expect(res.body).toHaveProperty(
+      'message',
+      'Not enough distinct squares to fill the ticket'
+    );
+    expect(Ticket.create).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: Ticket.create throws
+  // Input: valid request
+  // Expected status code: 500
+  // Expected behavior: the error is handled gracefully
+  // Expected output: server error message
+  test('Returns 500 when the ticket cannot be saved', async () => {
+    jest.spyOn(nhlService, 'getTeamRoster').mockResolvedValue(null);
+    jest
+      .spyOn(Ticket, 'create')
+      .mockRejectedValueOnce(new Error('Forced DB error') as never);
+
+    const res = await request(app)
+      .post('/api/tickets/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ game });
+
+    expect(res.status).toBe(500);
+    expect(res.body).toHaveProperty('message', 'Server error');
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import {
+  ComparisonType,
+  ConditionOperator,
+  EventCategory,
+  EventCondition,
+} from '../../../src/types/tickets.types';
+import { makeEvent } from '../../res/fixtures';
+import { formatEventLabel } from '../../../src/utils/eventLabel.util';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Interface GET /api/tickets/catalogue
+describe('Mocked GET /api/tickets/catalogue', () => {
+  let authToken: string;
+  let testUserId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Input: none
+  // Expected status code: 200
+  // Expected behavior: the catalogue is served without touching the DB (and not treated as a ticket ID)
+  // Expected output: subjects per category with comparisons, ranges and label templates
+  test('Returns the event catalogue', async () => {
+    const findSpy = jest.spyOn(Ticket, 'findById');
+
+    const res = await request(app)
+      .get('/api/tickets/catalogue')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(findSpy).not.toHaveBeenCalled();
+    expect(Object.keys(res.body.categories)).toEqual(
+      Object.values(EventCategory)
+    );
+    const saves = res.body.categories.GOALIE.find(
+      (e: { subject: string }) => e.subject === 'saves'
+    );
+    expect(saves).toMatchObject({
+      label: '{who} saves ({comparison})',
+      minThreshold: 0,
+      periodScoped: true,
+    });
+    expect(saves.comparisons).toContain('GREATER_THAN');
+    expect(res.body.maxPeriod).toBeGreaterThanOrEqual(4);
+  });
+
+  // Input: ticket with an unknown goalie subject, an out-of-range threshold,
+  // a disallowed comparison and a period on a non-period stat
+  // Expected status code: 400
+  // Expected behavior: squares are validated against the catalogue before hitting the DB
+  // Expected output: one validation error per offending square
+  test('Rejects squares that are not in the catalogue', async () => {
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const events: EventCondition[] = Array.from({ length: 9 }, (_, i) =>
+      makeEvent({ id: `e${i}` })
+    );
+    events[0] = makeEvent({
+      category: EventCategory.GOALIE,
+      subject: 'banana',
+    });
+    events[1] = makeEvent({ subject: 'player.goals', threshold: 40 });
+    events[2] = makeEvent({ subject: 'toi', comparison: ComparisonType.EQUAL });
+    events[3] = makeEvent({ subject: 'shifts', period: 2 });
+
+    const res = await request(app)
+      .post('/api/tickets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        userId: testUserId,
+        name: 'Nonsense Card',
+        game: { id: 1, homeTeam: { abbrev: 'HT' }, awayTeam: { abbrev: 'AT' } },
+        events,
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual(
+      expect.arrayContaining([
+        {
+          field: 'events.0.subject',
+          message: 'Unknown subject "banana" for GOALIE',
+        },
+        {
+          field: 'events.1.threshold',
+          message: 'threshold must be between 0 and 5',
+        },
+        {
+          field: 'events.2.comparison',
+          message: 'EQUAL is not allowed for toi',
+        },
+        {
+          field: 'events.3.period',
+          message: 'shifts cannot be limited to a period',
+        },
+      ])
+    );
+    expect(res.body.details).toHaveLength(4);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Input: player, team, "any goalie" and compound squares
+  // Expected behavior: labels are built from the catalogue templates
+  // Expected output: human-readable labels
+  test('Formats labels from catalogue templates', () => {
+    expect(
+      formatEventLabel(
+        makeEvent({ playerName: 'E. Pettersson', threshold: 2, period: 3 })
+      )
+    ).toBe('E. Pettersson goals (2+) in P3');
+    expect(
+      formatEventLabel(
+        makeEvent({
+          category: EventCategory.TEAM,
+          subject: 'sog',
+          teamAbbrev: 'VAN',
+          comparison: ComparisonType.BETWEEN,
+          threshold: 25,
+          upperThreshold: 30,
+        })
+      )
+    ).toBe('VAN total shots (25-30)');
+    expect(
+      formatEventLabel(
+        makeEvent({
+          category: EventCategory.GOALIE,
+          subject: 'saves',
+          threshold: 30,
+          operator: ConditionOperator.OR,
+          conditions: [
+            makeEvent({
+              category: EventCategory.GOALIE,
+              subject: 'goalsAgainst',
+              comparison: ComparisonType.EQUAL,
+              threshold: 0,
+            }),
+          ],
+        })
+      )
+    ).toBe('Any goalie saves (30+) OR Any goalie goals against (exactly 0)');
+  });
+});
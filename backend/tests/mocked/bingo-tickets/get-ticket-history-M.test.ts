@@ -0,0 +1,208 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { ticketHistoryModel } from '../../../src/models/ticketHistory.model';
+import { leaderboardService } from '../../../src/services/leaderboard.service';
+import { challengeModel } from '../../../src/models/challenges.model';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const emptyScore = {
+  noCrossedOff: 0,
+  noRows: 0,
+  noColumns: 0,
+  noCrosses: 0,
+  total: 0,
+  weightedTotal: 0,
+};
+
+// Interface GET /api/tickets/:id/history
+describe('Mocked ticket crossed-off history', () => {
+  let authToken: string;
+  let testUserId: string;
+  const ticketId = new mongoose.Types.ObjectId().toString();
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(challengeModel, 'findByTicket').mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: Ticket.findById and findByIdAndUpdate succeed
+  // Input: crossedOff with squares 0 and 4 newly crossed
+  // Expected status code: 200
+  // Expected behavior: the change is recorded as a manual history entry with scores before and after
+  // Expected output: updated ticket
+  test('PUT crossedOff records a manual history entry', async () => {
+    const before = Array(9).fill(false);
+    const after = [...before];
+    after[0] = true;
+    after[4] = true;
+
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: ticketId,
+      userId: testUserId,
+      gridSize: 3,
+      crossedOff: before,
+      score: emptyScore,
+    } as any);
+    jest
+      .spyOn(Ticket, 'findByIdAndUpdate')
+      .mockResolvedValueOnce({ _id: ticketId, userId: testUserId } as any);
+    jest.spyOn(leaderboardService, 'publishForTicket').mockResolvedValueOnce();
+    const recordSpy = jest
+      .spyOn(ticketHistoryModel, 'record')
+      .mockResolvedValueOnce();
+
+    const res = await request(app)
+      .put(`/api/tickets/crossedOff/${ticketId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ crossedOff: after });
+
+    expect(res.status).toBe(200);
+    expect(recordSpy).toHaveBeenCalledWith(
+      { ticketId, userId: testUserId },
+      {
+        before,
+        after,
+        scoreBefore: emptyScore,
+        scoreAfter: { ...emptyScore, noCrossedOff: 2, total: 2, weightedTotal: 2 },
+        source: 'manual',
+      }
+    );
+  });
+
+  // Input: previous and new crossedOff arrays
+  // Expected behavior: one entry per flipped square, nothing for unchanged squares
+  // Expected output: entries for squares 1 (crossed) and 2 (uncrossed)
+  test('record appends one entry per flipped square', async () => {
+    const HistoryModel = mongoose.model('TicketHistory');
+    const insertSpy = jest
+      .spyOn(HistoryModel, 'insertMany')
+      .mockResolvedValueOnce([] as any);
+    const scoreAfter = { ...emptyScore, noCrossedOff: 2, total: 2, weightedTotal: 2 };
+
+    await ticketHistoryModel.record(
+      { ticketId, userId: testUserId },
+      {
+        before: [true, false, true, false],
+        after: [true, true, false, false],
+        scoreAfter,
+        source: 'evaluator',
+      }
+    );
+
+    const entries = insertSpy.mock.calls[0][0] as any[];
+    expect(entries).toHaveLength(2);
+    expect(entries.map(e => [e.squareIndex, e.crossedOff])).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+    expect(entries[0]).toMatchObject({
+      ticketId,
+      userId: testUserId,
+      source: 'evaluator',
+      scoreBefore: emptyScore,
+      scoreAfter,
+    });
+    expect(entries[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  // Input: update query against the history collection
+  // Expected behavior: history is append-only
+  // Expected output: rejected query
+  test('History entries cannot be modified', async () => {
+    const HistoryModel = mongoose.model('TicketHistory');
+
+    await expect(
+      HistoryModel.updateOne({ ticketId }, { crossedOff: true })
+    ).rejects.toThrow('Ticket history is append-only');
+  });
+
+  // Mocked behavior: ticket exists and has two history entries
+  // Input: ticket ID
+  // Expected status code: 200
+  // Expected behavior: entries are returned oldest first
+  // Expected output: history array
+  test('GET /api/tickets/:id/history returns the timeline', async () => {
+    const entries = [
+      { ticketId, squareIndex: 0, crossedOff: true, source: 'evaluator' },
+      { ticketId, squareIndex: 0, crossedOff: false, source: 'manual' },
+    ];
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce({ _id: ticketId, userId: testUserId } as any);
+    jest
+      .spyOn(ticketHistoryModel, 'findByTicketId')
+      .mockResolvedValueOnce(entries as any);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/history`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(entries);
+    expect(ticketHistoryModel.findByTicketId).toHaveBeenCalledWith(ticketId);
+  });
+
+  // Mocked behavior: Ticket.findById returns null
+  // Input: unknown ticket ID
+  // Expected status code: 404
+  // Expected behavior: history is not queried
+  // Expected output: not found message
+  test('GET /api/tickets/:id/history returns 404 for unknown tickets', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce(null);
+    const historySpy = jest.spyOn(ticketHistoryModel, 'findByTicketId');
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/history`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body).toHaveProperty('message', 'Ticket not found');
+    expect(historySpy).not.toHaveBeenCalled();
+  });
+});
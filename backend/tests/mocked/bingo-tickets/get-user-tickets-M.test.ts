@@ -4,6 +4,7 @@ import {
   test,
   jest,
   beforeAll,
+  beforeEach,
   afterAll,
 } from '@jest/globals';
 import dotenv from 'dotenv';
@@ -14,16 +15,44 @@ import mongoose from 'mongoose';
 import jwt from 'jsonwebtoken';
 import { userModel } from '../../../src/models/user.model';
 import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { boxscoreArchive } from '../../../src/services/boxscoreArchive.service';
 import path from 'path';
 
 // Load test environment variables
 dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
 
+const HOUR = 60 * 60 * 1000;
+
 // Create Express app for testing (same setup as index.ts)
 const app = express();
 app.use(express.json());
 app.use('/api', router);
 
+// Ticket.find(...).sort(...) resolves to the tickets, with or without .limit()
+const mockFindChain = (tickets: object[]) => {
+  const sorted = Object.assign(Promise.resolve(tickets), {
+    limit: jest.fn((n: number) => Promise.resolve(tickets.slice(0, n))),
+  });
+  return { sort: jest.fn(() => sorted) } as any;
+};
+
+const makeTicket = (id: string, createdAt: string, gameId = 2024020001) => ({
+  _id: id,
+  userId: '',
+  name: `Ticket ${id}`,
+  game: {
+    id: gameId,
+    startTimeUTC: '2024-10-10T23:00:00Z',
+    homeTeam: { abbrev: 'BOS' },
+    awayTeam: { abbrev: 'TOR' },
+  },
+  gridSize: 3,
+  events: [],
+  createdAt: new Date(createdAt),
+});
+
 // Interface GET /api/tickets/user/:userId
 describe('Mocked GET /api/tickets/user/:userId', () => {
   let authToken: string;
@@ -53,6 +82,11 @@ describe('Mocked GET /api/tickets/user/:userId', () => {
     });
   });
 
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
   // Restore mocks after tests
   afterAll(() => {
     jest.restoreAllMocks();
@@ -80,4 +114,221 @@ describe('Mocked GET /api/tickets/user/:userId', () => {
     expect(mockFind).toHaveBeenCalledWith({ userId: testUserId });
     expect(res.body).toHaveProperty('message', 'Server error');
   });
+
+  // Mocked behavior: Ticket.find resolves, one challenge holds the user's ticket
+  // Input: gameId, team, date range and inChallenge=true query parameters
+  // Expected status code: 200
+  // Expected behavior: every filter is added to the Mongo query, sorted newest first
+  // Expected output: the matching tickets
+  test('Filters tickets by game, team, date and challenge', async () => {
+    const ticketId = new mongoose.Types.ObjectId().toString();
+    jest
+      .spyOn(challengeModel, 'findWithTicketsFrom')
+      .mockResolvedValueOnce([
+        { ticketIds: { [testUserId]: ticketId } },
+      ] as any);
+    const chain = mockFindChain([makeTicket(ticketId, '2024-10-01')]);
+    const findSpy = jest.spyOn(Ticket, 'find').mockReturnValueOnce(chain);
+
+    const res = await request(app)
+      .get(`/api/tickets/user/${testUserId}`)
+      .query({
+        gameId: '2024020001',
+        team: 'bos',
+        from: '2024-10-01',
+        to: '2024-10-31',
+        inChallenge: 'true',
+      })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.headers['x-next-cursor']).toBeUndefined();
+    expect(findSpy).toHaveBeenCalledWith({
+      userId: testUserId,
+      $and: [
+        { 'game.id': 2024020001 },
+        {
+          $or: [
+            { 'game.homeTeam.abbrev': 'BOS' },
+            { 'game.awayTeam.abbrev': 'BOS' },
+          ],
+        },
+        { 'game.startTimeUTC': { $gte: '2024-10-01' } },
+        { 'game.startTimeUTC': { $lt: '2024-11-01' } },
+        { _id: { $in: [ticketId] } },
+      ],
+    });
+    expect(chain.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+  });
+
+  // Mocked behavior: the first lookup returns the user's games, NHL says one is final
+  // Input: state=finished
+  // Expected status code: 200
+  // Expected behavior: only tickets for games the NHL reports as finished are listed
+  // Expected output: filter restricted to the finished game
+  test('Filters tickets by game state', async () => {
+    jest.spyOn(Ticket, 'find').mockReturnValueOnce({
+      select: () => ({
+        lean: async () => [
+          { game: { id: 1 } },
+          { game: { id: 2 } },
+          { game: { id: 1 } },
+        ],
+      }),
+    } as any);
+    const listSpy = jest
+      .spyOn(Ticket, 'find')
+      .mockReturnValueOnce(mockFindChain([]));
+    jest
+      .spyOn(nhlService, 'getGameStatus')
+      .mockImplementation(async (gameId: string) =>
+        gameId === '2'
+          ? ({ isFinished: true, isLive: false } as any)
+          : ({ isFinished: false, isLive: false } as any)
+      );
+
+    const res = await request(app)
+      .get(`/api/tickets/user/${testUserId}`)
+      .query({ state: 'finished' })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(listSpy).toHaveBeenLastCalledWith({
+      userId: testUserId,
+      $and: [{ 'game.id': { $in: [2] } }],
+    });
+  });
+
+  // Mocked behavior: games finalized, archived, long over, not started yet, and
+  //        one that started an hour ago; the NHL says that one is final
+  // Input: state=finished
+  // Expected status code: 200
+  // Expected behavior: only the recent game is looked up with the NHL API
+  // Expected output: filter restricted to the finished games
+  test('Resolves game state from stored data where it can', async () => {
+    const at = (offsetMs: number) =>
+      new Date(Date.now() + offsetMs).toISOString();
+    jest.spyOn(Ticket, 'find').mockReturnValueOnce({
+      select: () => ({
+        lean: async () => [
+          { game: { id: 1, startTimeUTC: at(-HOUR) }, isFinalized: true },
+          { game: { id: 2 } },
+          { game: { id: 3, startTimeUTC: at(-48 * HOUR) } },
+          { game: { id: 4, startTimeUTC: at(24 * HOUR) } },
+          { game: { id: 5, startTimeUTC: at(-HOUR) } },
+        ],
+      }),
+    } as any);
+    jest
+      .spyOn(boxscoreArchive, 'loadAll')
+      .mockResolvedValueOnce([{ id: 2 }] as any);
+    const listSpy = jest
+      .spyOn(Ticket, 'find')
+      .mockReturnValueOnce(mockFindChain([]));
+    const statusSpy = jest
+      .spyOn(nhlService, 'getGameStatus')
+      .mockResolvedValueOnce({ isFinished: true, isLive: false } as any);
+
+    const res = await request(app)
+      .get(`/api/tickets/user/${testUserId}`)
+      .query({ state: 'finished' })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(statusSpy).toHaveBeenCalledTimes(1);
+    expect(statusSpy).toHaveBeenCalledWith('5');
+    expect(listSpy).toHaveBeenLastCalledWith({
+      userId: testUserId,
+      $and: [{ 'game.id': { $in: [1, 2, 3, 5] } }],
+    });
+  });
+
+  // Mocked behavior: Ticket.find resolves three tickets, then the rest of the list
+  // Input: sort=score&order=asc&limit=2, then the returned cursor
+  // Expected status code: 200
+  // Expected behavior: one page of two with X-Next-Cursor; the cursor continues after
+  //        the last ticket of the page
+  // Expected output: two tickets and a cursor, then a filter starting after it
+  test('Paginates with a cursor', async () => {
+    const ids = [1, 2, 3].map(() => new mongoose.Types.ObjectId().toString());
+    const tickets = ids.map((id, i) => ({
+      ...makeTicket(id, '2024-10-01'),
+      score: { total: i * 3 },
+    }));
+    const firstPage = mockFindChain(tickets);
+    jest.spyOn(Ticket, 'find').mockReturnValueOnce(firstPage);
+
+    const first = await request(app)
+      .get(`/api/tickets/user/${testUserId}`)
+      .query({ sort: 'score', order: 'asc', limit: '2' })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(first.status).toBe(200);
+    expect(first.body.map((t: any) => t._id)).toEqual(ids.slice(0, 2));
+    expect(firstPage.sort).toHaveBeenCalledWith({ 'score.total': 1, _id: 1 });
+    const cursor = first.headers['x-next-cursor'];
+    expect(cursor).toEqual(expect.any(String));
+
+    const nextSpy = jest
+      .spyOn(Ticket, 'find')
+      .mockReturnValueOnce(mockFindChain([tickets[2]]));
+    const next = await request(app)
+      .get(`/api/tickets/user/${testUserId}`)
+      .query({ sort: 'score', order: 'asc', limit: '2', cursor })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(next.status).toBe(200);
+    expect(next.headers['x-next-cursor']).toBeUndefined();
+    expect(nextSpy).toHaveBeenLastCalledWith({
+      userId: testUserId,
+      $and: [
+        {
+          $or: [
+            { 'score.total': { $gt: 3 } },
+            { 'score.total': 3, _id: { $gt: ids[1] } },
+          ],
+        },
+      ],
+    });
+  });
+
+  // Mocked behavior: none
+  // Input: a garbage cursor, a date-sort cursor reused for score, an unknown state
+  // Expected status code: 400
+  // Expected behavior: the request is rejected before any query runs
+  // Expected output: error messages
+  test('Rejects invalid cursors and query parameters', async () => {
+    const findSpy = jest.spyOn(Ticket, 'find');
+    const dateCursor = Buffer.from(
+      JSON.stringify({
+        sort: 'date',
+        value: '2024-10-01T00:00:00.000Z',
+        id: new mongoose.Types.ObjectId().toString(),
+      })
+    ).toString('base64url');
+
+    for (const query of [
+      { cursor: 'not-a-cursor' },
+      { cursor: dateCursor, sort: 'score' },
+    ]) {
+      const res = await request(app)
+        .get(`/api/tickets/user/${testUserId}`)
+        .query(query)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(res.status).toBe(400);
+      expect(res.body).toHaveProperty('message', 'Invalid cursor');
+    }
+
+    const res = await request(app)
+      .get(`/api/tickets/user/${testUserId}`)
+      .query({ state: 'postponed', limit: '500' })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(res.status).toBe(400);
+    expect(res.body.details.map((d: any) => d.field).sort()).toEqual([
+      'limit',
+      'state',
+    ]);
+    expect(findSpy).not.toHaveBeenCalled();
+  });
 });
@@ -15,6 +15,7 @@ import mongoose from 'mongoose';
 import jwt from 'jsonwebtoken';
 import { userModel } from '../../../src/models/user.model';
 import { Ticket } from '../../../src/models/tickets.model';
+import { nhlService } from '../../../src/services/nhl.service';
 import { EventCondition, TicketType } from '../../../src/types/tickets.types';
 import path from 'path';
 
@@ -57,6 +58,7 @@ describe('Mocked POST /api/tickets', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
   });
 
   // Restore mocks after tests
@@ -142,4 +144,241 @@ describe('Mocked POST /api/tickets', () => {
 
     mockParse.mockRestore();
   });
+
+  // Input: 4x4 ticket with only 9 events
+  // Expected status code: 400
+  // Expected behavior: events count is validated against gridSize before hitting the DB
+  // Expected output: validation error on the events field
+  test('Rejects events that do not fill the grid', async () => {
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const events = Array.from({ length: 9 }, (_, i) => ({
+      id: `e${i}`,
+      category: 'FORWARD' as any,
+      subject: 'goals',
+      comparison: 'GREATER_THAN' as any,
+      threshold: 1,
+    }));
+
+    const res = await request(app)
+      .post('/api/tickets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        userId: testUserId,
+        name: 'Big Card',
+        gridSize: 4,
+        game: { id: 1, homeTeam: { abbrev: 'HT' }, awayTeam: { abbrev: 'AT' } },
+        events,
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toContainEqual({
+      field: 'events',
+      message: 'Exactly 16 events required',
+    });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+  // Input: BETWEEN square without upperThreshold and a group square missing its operator
+  // Expected status code: 400
+  // Expected behavior: compound/range squares are validated before hitting the DB
+  // Expected output: validation errors pointing at the offending squares
+  test('Rejects malformed compound and range conditions', async () => {
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const events: any[] = Array.from({ length: 9 }, (_, i) => ({
+      id: `e${i}`,
+      category: 'FORWARD',
+      subject: 'goals',
+      comparison: 'GREATER_THAN',
+      threshold: 1,
+    }));
+    events[0] = { ...events[0], comparison: 'BETWEEN', threshold: 2 };
+    events[1] = {
+      ...events[1],
+      conditions: [{ ...events[2], id: 'sub' }],
+    };
+    events[2] = { ...events[2], period: 9 };
+
+    const res = await request(app)
+      .post('/api/tickets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        userId: testUserId,
+        name: 'Fancy Card',
+        game: { id: 1, homeTeam: { abbrev: 'HT' }, awayTeam: { abbrev: 'AT' } },
+        events,
+      });
+
+    expect(res.status).toBe(400);
+    const fields = res.body.details.map((d: { field: string }) => d.field);
+    expect(fields).toEqual(
+      expect.arrayContaining([
+        'events.0.upperThreshold',
+        'events.1.operator',
+        'events.2.period',
+      ])
+    );
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+  // Mocked behavior: nhlService.getTeamRoster returns VAN and BOS rosters
+  // Input: squares with a team outside the game, a player on neither roster,
+  // a player assigned to the wrong team and a skater entered as a goalie
+  // Expected status code: 400
+  // Expected behavior: ticket is not created
+  // Expected output: one structured error per invalid square
+  test('Rejects teams and players that are not in the game', async () => {
+    const createSpy = jest.spyOn(Ticket, 'create');
+    jest.spyOn(nhlService, 'getTeamRoster').mockImplementation(async team =>
+      team === 'VAN'
+        ? {
+            forwards: [
+              {
+                id: 8480012,
+                firstName: { default: 'Elias' },
+                lastName: { default: 'Pettersson' },
+              },
+            ],
+            defensemen: [],
+            goalies: [],
+          }
+        : { forwards: [], defensemen: [], goalies: [] }
+    );
+
+    const events: any[] = Array.from({ length: 9 }, (_, i) => ({
+      id: `e${i}`,
+      category: 'TEAM',
+      subject: 'goals',
+      comparison: 'GREATER_THAN',
+      threshold: 1,
+      teamAbbrev: 'VAN',
+    }));
+    events[0] = { ...events[0], teamAbbrev: 'TOR' };
+    events[1] = { ...events[1], category: 'FORWARD', playerId: 1 };
+    events[2] = {
+      ...events[2],
+      category: 'FORWARD',
+      playerId: 8480012,
+      teamAbbrev: 'BOS',
+    };
+    events[3] = {
+      ...events[3],
+      category: 'GOALIE',
+      subject: 'saves',
+      playerId: 8480012,
+    };
+
+    const res = await request(app)
+      .post('/api/tickets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        userId: testUserId,
+        name: 'Impossible Card',
+        game: {
+          id: 2024020100,
+          homeTeam: { abbrev: 'BOS' },
+          awayTeam: { abbrev: 'VAN' },
+        },
+        events,
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([
+      {
+        square: 0,
+        field: 'events.0.teamAbbrev',
+        message: 'TOR is not playing in this game (BOS vs VAN)',
+      },
+      {
+        square: 1,
+        field: 'events.1.playerId',
+        message: 'Player 1 is not on the BOS or VAN roster',
+      },
+      {
+        square: 2,
+        field: 'events.2.playerId',
+        message: 'Player 8480012 plays for VAN, not BOS',
+      },
+      {
+        square: 3,
+        field: 'events.3.category',
+        message: 'Player 8480012 is not listed as GOALIE for VAN',
+      },
+    ]);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: nhlService.getTeamRoster returns null (NHL API unavailable)
+  // Input: square with a player ID
+  // Expected status code: 201
+  // Expected behavior: player checks are skipped instead of blocking ticket creation
+  // Expected output: created ticket
+  test('Skips player checks when rosters are unavailable', async () => {
+    jest.spyOn(nhlService, 'getTeamRoster').mockResolvedValue(null);
+    jest
+      .spyOn(Ticket, 'create')
+      .mockResolvedValueOnce({ _id: 'ticket-1' } as any);
+
+    const events = Array.from({ length: 9 }, (_, i) => ({
+      id: `e${i}`,
+      category: 'FORWARD',
+      subject: 'goals',
+      comparison: 'GREATER_THAN',
+      threshold: 1,
+      playerId: 8480012,
+    }));
+
+    const res = await request(app)
+      .post('/api/tickets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        userId: testUserId,
+        name: 'Offline Card',
+        game: {
+          id: 2024020100,
+          homeTeam: { abbrev: 'BOS' },
+          awayTeam: { abbrev: 'VAN' },
+        },
+        events,
+      });
+
+    expect(res.status).toBe(201);
+    expect(nhlService.getTeamRoster).toHaveBeenCalledTimes(2);
+  });
+
+  // Mocked behavior: NHL API unavailable, stored start time has passed
+  // Input: valid ticket for a game that started an hour ago
+  // Expected status code: 409
+  // Expected behavior: ticket is not created, matching the import checks
+  // Expected output: lock error message
+  test('Rejects tickets for games that have started', async () => {
+    jest.spyOn(nhlService, 'getTeamRoster').mockResolvedValue(null);
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const res = await request(app)
+      .post('/api/tickets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        name: 'Late Card',
+        game: {
+          id: 2024020100,
+          startTimeUTC: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+          homeTeam: { abbrev: 'BOS' },
+          awayTeam: { abbrev: 'VAN' },
+        },
+        events: Array.from({ length: 9 }, (_, i) => ({
+          id: `e${i}`,
+          category: 'TEAM',
+          subject: 'goals',
+          comparison: 'GREATER_THAN',
+          threshold: 1,
+          teamAbbrev: 'VAN',
+        })),
+      });
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe(
+      'Ticket events are locked once the game starts'
+    );
+    expect(createSpy).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,194 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Ownership and visibility rules across /api/tickets
+describe('Mocked ticket ownership', () => {
+  let authToken: string;
+  let testUserId: string;
+  const ownerId = new mongoose.Types.ObjectId().toString();
+  const ticketId = new mongoose.Types.ObjectId().toString();
+  const othersTicket = () =>
+    ({
+      _id: ticketId,
+      userId: ownerId,
+      gridSize: 3,
+      crossedOff: Array(9).fill(false),
+      isFinalized: false,
+    }) as any;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: ticket belongs to another user who shares no challenge with the requester
+  // Input: ticket ID
+  // Expected status code: 403
+  // Expected behavior: ticket is not returned
+  // Expected output: forbidden message
+  test('GET /api/tickets/:id rejects unrelated users', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce(othersTicket());
+    jest.spyOn(challengeModel, 'findByTicket').mockResolvedValueOnce([]);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(403);
+    expect(res.body).toHaveProperty(
+      'message',
+      'You do not have access to this ticket'
+    );
+    expect(challengeModel.findByTicket).toHaveBeenCalledWith(ownerId, ticketId);
+  });
+
+  // Mocked behavior: the ticket is entered in a challenge the requester is a member of
+  // Input: ticket ID
+  // Expected status code: 200
+  // Expected behavior: co-members can read the ticket
+  // Expected output: ticket with access=read_only
+  test('GET /api/tickets/:id allows challenge co-members to read', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce(othersTicket());
+    jest
+      .spyOn(challengeModel, 'findByTicket')
+      .mockResolvedValueOnce([{ memberIds: [ownerId, testUserId] }] as any);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ _id: ticketId, access: 'read_only' });
+  });
+
+  // Mocked behavior: ticket belongs to another user
+  // Input: crossedOff update and delete requests
+  // Expected status code: 403
+  // Expected behavior: only the owner can change the ticket, even co-members are read-only
+  // Expected output: forbidden message, no write
+  test('PUT crossedOff and DELETE are owner-only', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValue(othersTicket());
+    const updateSpy = jest.spyOn(Ticket, 'findByIdAndUpdate');
+    const deleteSpy = jest.spyOn(Ticket, 'findByIdAndDelete');
+
+    const put = await request(app)
+      .put(`/api/tickets/crossedOff/${ticketId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ crossedOff: Array(9).fill(true) });
+    const del = await request(app)
+      .delete(`/api/tickets/${ticketId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(put.status).toBe(403);
+    expect(del.status).toBe(403);
+    expect(put.body).toHaveProperty(
+      'message',
+      'Only the ticket owner can change this ticket'
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+    expect(deleteSpy).not.toHaveBeenCalled();
+  });
+
+  // Input: ticket body with someone else's userId
+  // Expected status code: 403
+  // Expected behavior: tickets are always owned by the authenticated user
+  // Expected output: forbidden message, no ticket created
+  test('POST /api/tickets rejects creating tickets for another user', async () => {
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const res = await request(app)
+      .post('/api/tickets')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        userId: ownerId,
+        name: 'Not Mine',
+        game: { id: 1, homeTeam: { abbrev: 'HT' }, awayTeam: { abbrev: 'AT' } },
+        events: Array.from({ length: 9 }, (_, i) => ({
+          id: `e${i}`,
+          category: 'FORWARD',
+          subject: 'goals',
+          comparison: 'GREATER_THAN',
+          threshold: 1,
+        })),
+      });
+
+    expect(res.status).toBe(403);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the two users share one challenge where the owner entered a ticket
+  // Input: another user's ID
+  // Expected status code: 200
+  // Expected behavior: only tickets entered in shared challenges are listed
+  // Expected output: query restricted to the shared ticket IDs
+  test('GET /api/tickets/user/:userId only lists shared tickets for other users', async () => {
+    jest
+      .spyOn(challengeModel, 'findSharedByMembers')
+      .mockResolvedValueOnce([
+        { ticketIds: { [ownerId]: ticketId, [testUserId]: 'mine' } },
+        { ticketIds: { [testUserId]: 'mine-too' } },
+      ] as any);
+    const sortMock = jest.fn(async () => [othersTicket()]);
+    const findSpy = jest
+      .spyOn(Ticket, 'find')
+      .mockReturnValueOnce({ sort: sortMock } as any);
+
+    const res = await request(app)
+      .get(`/api/tickets/user/${ownerId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(findSpy).toHaveBeenCalledWith({
+      userId: ownerId,
+      _id: { $in: [ticketId] },
+    });
+    expect(res.body).toHaveLength(1);
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+const LOGO = 'data:image/svg+xml;base64,PHN2Zy8+';
+
+// Collect a binary response body into a Buffer
+const binary = (
+  res: any,
+  callback: (error: Error | null, body: Buffer) => void
+) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Mocked ticket card images', () => {
+  let authToken: string;
+  let testUserId: string;
+  const ticketId = new mongoose.Types.ObjectId().toString();
+
+  const ticket = (userId: string) => ({
+    _id: ticketId,
+    userId,
+    name: 'Bruins <night> & co',
+    game: {
+      id: 2024020100,
+      homeTeam: { abbrev: 'BOS' },
+      awayTeam: { abbrev: 'VAN' },
+    },
+    gridSize: 3,
+    events: Array.from({ length: 9 }, (_, i) => ({
+      id: `e${i}`,
+      category: 'TEAM',
+      subject: 'goals',
+      comparison: 'GREATER_THAN',
+      threshold: 2,
+      teamAbbrev: i % 2 ? 'VAN' : 'BOS',
+    })),
+    crossedOff: [true, false, false, false, true, false, false, false, false],
+    score: { noCrossedOff: 2, total: 12 },
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: Ticket.findById returns the caller's ticket; the home logo
+  //        loads, the away logo does not
+  // Input: ticket ID
+  // Expected status code: 200
+  // Expected behavior: SVG with the embedded logo, abbreviation fallback,
+  //        square labels, crossed-off squares, escaped name and score
+  // Expected output: image/svg+xml document
+  test('Renders the ticket as SVG', async () => {
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(ticket(testUserId) as any);
+    const logoSpy = jest
+      .spyOn(nhlService, 'getTeamLogo')
+      .mockImplementation(async abbrev => (abbrev === 'BOS' ? LOGO : null));
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/card.svg`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .buffer(true)
+      .parse(binary);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^image\/svg\+xml/);
+    const svg = res.body.toString();
+    expect(logoSpy).toHaveBeenCalledWith('BOS', undefined);
+    expect(svg).toContain(`href="${LOGO}"`);
+    expect(svg).toContain('>VAN @ BOS<');
+    expect(svg).toContain('>BOS goals (2+)<');
+    expect(svg).toContain('Bruins &lt;night&gt; &amp; co');
+    expect(svg.match(/fill="#f2b705"/g)).toHaveLength(2);
+    expect(svg).toContain('>Score: 12<');
+  });
+
+  // Mocked behavior: Ticket.findById returns the caller's ticket, no logos
+  // Input: ticket ID
+  // Expected status code: 200
+  // Expected output: PNG image
+  test('Renders the ticket as PNG', async () => {
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(ticket(testUserId) as any);
+    jest.spyOn(nhlService, 'getTeamLogo').mockResolvedValue(null);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/card.png`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .buffer(true)
+      .parse(binary);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('image/png');
+    expect(res.body.subarray(0, 4)).toEqual(PNG_SIGNATURE);
+  });
+
+  // Mocked behavior: the ticket belongs to someone outside the caller's challenges
+  // Input: ticket ID
+  // Expected status code: 403
+  // Expected output: access error
+  test('Only readers of the ticket can render it', async () => {
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(
+        ticket(new mongoose.Types.ObjectId().toString()) as any
+      );
+    jest.spyOn(challengeModel, 'findByTicket').mockResolvedValueOnce([]);
+    const logoSpy = jest.spyOn(nhlService, 'getTeamLogo');
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/card.svg`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(403);
+    expect(logoSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: Ticket.findById returns null
+  // Input: unknown ticket ID
+  // Expected status code: 404
+  // Expected output: not found message
+  test('Returns 404 for a missing ticket', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce(null);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/card.png`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body).toHaveProperty('message', 'Ticket not found');
+  });
+});
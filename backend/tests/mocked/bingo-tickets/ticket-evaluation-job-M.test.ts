@@ -0,0 +1,82 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Ticket } from '../../../src/models/tickets.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { ticketEvaluatorService } from '../../../src/services/ticketEvaluator.service';
+import { TicketEvaluationJob } from '../../../src/jobs/ticketEvaluation.job';
+import { makeStatus } from '../../res/fixtures';
+
+describe('Mocked TicketEvaluationJob', () => {
+  let job: TicketEvaluationJob;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    job = new TicketEvaluationJob();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: one game started within the window; two more come from
+  //        unfinalized tickets saved without a start time, one of them finished
+  //        and one not started yet
+  // Input: a single evaluation pass
+  // Expected behavior: every live or finished game is evaluated once,
+  //        upcoming games are skipped
+  test('Evaluates recent games and undated tickets once per pass', async () => {
+    const distinctSpy = jest
+      .spyOn(Ticket, 'distinct')
+      .mockResolvedValueOnce([2024020100] as any)
+      .mockResolvedValueOnce([2024020100, 2024020050, 2024020200] as any);
+    jest.spyOn(nhlService, 'getGameStatus').mockImplementation(async gameId =>
+      gameId === '2024020200'
+        ? makeStatus(gameId)
+        : makeStatus(gameId, {
+            isLive: gameId === '2024020100',
+            isFinished: gameId === '2024020050',
+          })
+    );
+    const evaluateSpy = jest
+      .spyOn(ticketEvaluatorService, 'evaluateGame')
+      .mockResolvedValue(1);
+
+    await job.evaluateLiveGames();
+
+    expect(distinctSpy).toHaveBeenCalledWith('game.id', {
+      'game.startTimeUTC': { $exists: false },
+      isFinalized: { $ne: true },
+    });
+    expect(nhlService.getGameStatus).toHaveBeenCalledTimes(3);
+    expect(evaluateSpy.mock.calls.map(([gameId]) => gameId).sort()).toEqual([
+      '2024020050',
+      '2024020100',
+    ]);
+  });
+
+  // Mocked behavior: no tickets in the window and none undated
+  // Input: a single evaluation pass
+  // Expected behavior: the NHL API is not called
+  test('Does nothing when no games need evaluation', async () => {
+    jest
+      .spyOn(Ticket, 'distinct')
+      .mockResolvedValueOnce([] as any)
+      .mockResolvedValueOnce([] as any);
+    const statusSpy = jest.spyOn(nhlService, 'getGameStatus');
+
+    await job.evaluateLiveGames();
+
+    expect(statusSpy).not.toHaveBeenCalled();
+  });
+});
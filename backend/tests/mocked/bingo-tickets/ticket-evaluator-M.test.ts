@@ -0,0 +1,494 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import { Ticket } from '../../../src/models/tickets.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { leaderboardService } from '../../../src/services/leaderboard.service';
+import { ticketHistoryModel } from '../../../src/models/ticketHistory.model';
+import { boxscoreArchive } from '../../../src/services/boxscoreArchive.service';
+import { TicketEvaluatorService } from '../../../src/services/ticketEvaluator.service';
+import {
+  ComparisonType,
+  ConditionOperator,
+  EventCategory,
+} from '../../../src/types/tickets.types';
+import { makeEvent } from '../../res/fixtures';
+import { Boxscore, PlayByPlay } from '../../../src/types/nhl.types';
+
+// Minimal boxscore fixture for a VAN @ BOS game
+const makeBoxscore = (gameState: string): Boxscore => ({
+  id: 2024020100,
+  gameState,
+  awayTeam: { id: 23, abbrev: 'VAN', score: 3, sog: 31 },
+  homeTeam: { id: 6, abbrev: 'BOS', score: 1, sog: 24 },
+  playerByGameStats: {
+    awayTeam: {
+      forwards: [
+        {
+          playerId: 8480012,
+          name: { default: 'E. Pettersson' },
+          position: 'C',
+          goals: 2,
+          assists: 1,
+          points: 3,
+          hits: 1,
+          sog: 5,
+          pim: 2,
+          toi: '19:45',
+        },
+      ],
+      defense: [
+        {
+          playerId: 8480800,
+          name: { default: 'Q. Hughes' },
+          position: 'D',
+          goals: 0,
+          assists: 2,
+          blockedShots: 3,
+          pim: 4,
+          toi: '24:10',
+        },
+      ],
+      goalies: [
+        {
+          playerId: 8478872,
+          name: { default: 'T. Demko' },
+          position: 'G',
+          saves: 23,
+          goalsAgainst: 1,
+          shotsAgainst: 24,
+          toi: '60:00',
+        },
+      ],
+    },
+    homeTeam: {
+      forwards: [],
+      defense: [],
+      goalies: [
+        {
+          playerId: 8471695,
+          name: { default: 'J. Swayman' },
+          position: 'G',
+          saves: 28,
+          goalsAgainst: 3,
+          shotsAgainst: 31,
+          toi: '58:30',
+        },
+        {
+          playerId: 8476999,
+          name: { default: 'J. Korpisalo' },
+          position: 'G',
+          saves: 0,
+          goalsAgainst: 0,
+          shotsAgainst: 0,
+          toi: '00:00',
+        },
+      ],
+    },
+  },
+});
+
+// Play-by-play fixture: VAN (23) scores twice in the 3rd, BOS (6) once in the 1st
+const playByPlay: PlayByPlay = {
+  id: 2024020100,
+  gameState: 'LIVE',
+  awayTeam: { id: 23, abbrev: 'VAN' },
+  homeTeam: { id: 6, abbrev: 'BOS' },
+  plays: [
+    {
+      eventId: 1,
+      periodDescriptor: { number: 1 },
+      typeDescKey: 'goal',
+      details: { eventOwnerTeamId: 6, scoringPlayerId: 8470000 },
+    },
+    {
+      eventId: 2,
+      periodDescriptor: { number: 3 },
+      typeDescKey: 'goal',
+      details: {
+        eventOwnerTeamId: 23,
+        scoringPlayerId: 8480012,
+        assist1PlayerId: 8480800,
+        goalieInNetId: 8471695,
+      },
+    },
+    {
+      eventId: 3,
+      periodDescriptor: { number: 3 },
+      typeDescKey: 'shot-on-goal',
+      details: {
+        eventOwnerTeamId: 23,
+        shootingPlayerId: 8480012,
+        goalieInNetId: 8471695,
+      },
+    },
+    {
+      eventId: 4,
+      periodDescriptor: { number: 3 },
+      typeDescKey: 'goal',
+      details: { eventOwnerTeamId: 23, scoringPlayerId: 8480800 },
+    },
+  ],
+};
+
+describe('Mocked TicketEvaluatorService', () => {
+  let evaluator: TicketEvaluatorService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    evaluator = new TicketEvaluatorService();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Input: player, goalie and team conditions against a live boxscore
+  // Expected behavior: GREATER_THAN is treated as "N+" (value >= threshold)
+  // Expected output: true for reached thresholds, false otherwise
+  test('Evaluates player, goalie and team stats', () => {
+    const boxscore = makeBoxscore('LIVE');
+
+    const playerGoals = makeEvent({ playerId: 8480012, threshold: 2 });
+    const goalieSaves = makeEvent({
+      category: EventCategory.GOALIE,
+      subject: 'saves',
+      playerId: 8478872,
+      threshold: 25,
+    });
+    const teamSog = makeEvent({
+      category: EventCategory.TEAM,
+      subject: 'team.sog',
+      teamAbbrev: 'VAN',
+      threshold: 30,
+    });
+    const teamPim = makeEvent({
+      category: EventCategory.PENALTY,
+      subject: 'penaltyMinutes',
+      teamAbbrev: 'VAN',
+      threshold: 6,
+    });
+    const defenseToi = makeEvent({
+      category: EventCategory.DEFENSE,
+      subject: 'toi',
+      playerId: 8480800,
+      threshold: 24,
+    });
+
+    expect(evaluator.evaluateCondition(playerGoals, boxscore, false)).toBe(
+      true
+    );
+    expect(evaluator.evaluateCondition(goalieSaves, boxscore, false)).toBe(
+      false
+    );
+    expect(evaluator.evaluateCondition(teamSog, boxscore, false)).toBe(true);
+    expect(evaluator.evaluateCondition(teamPim, boxscore, false)).toBe(true);
+    expect(evaluator.evaluateCondition(defenseToi, boxscore, false)).toBe(true);
+  });
+
+  // Input: LESS_THAN / EQUAL conditions during and after the game
+  // Expected behavior: only satisfied once the game is final
+  // Expected output: false while LIVE, true when OFF
+  test('Defers LESS_THAN and EQUAL until the game is final', () => {
+    const events = [
+      makeEvent({
+        category: EventCategory.TEAM,
+        teamAbbrev: 'BOS',
+        comparison: ComparisonType.LESS_THAN,
+        threshold: 2,
+      }),
+      makeEvent({
+        playerId: 8480800,
+        subject: 'assists',
+        comparison: ComparisonType.EQUAL,
+        threshold: 2,
+      }),
+    ];
+
+    expect(evaluator.evaluateTicket(events, makeBoxscore('LIVE'))).toEqual([
+      false,
+      false,
+    ]);
+    expect(evaluator.evaluateTicket(events, makeBoxscore('OFF'))).toEqual([
+      true,
+      true,
+    ]);
+  });
+
+  // Input: unknown player, unknown team and unknown subject
+  // Expected behavior: missing stats never cross off a square
+  // Expected output: false
+  test('Returns false when the stat is not in the boxscore', () => {
+    const boxscore = makeBoxscore('OFF');
+
+    expect(
+      evaluator.evaluateCondition(makeEvent({ playerId: 1 }), boxscore, true)
+    ).toBe(false);
+    expect(
+      evaluator.evaluateCondition(
+        makeEvent({ category: EventCategory.TEAM, teamAbbrev: 'TOR' }),
+        boxscore,
+        true
+      )
+    ).toBe(false);
+    expect(
+      evaluator.evaluateCondition(
+        makeEvent({ playerId: 8480012, subject: 'banana' }),
+        boxscore,
+        true
+      )
+    ).toBe(false);
+  });
+
+  // Input: AT_LEAST and BETWEEN conditions during and after the game
+  // Expected behavior: AT_LEAST is decided immediately, BETWEEN only once final
+  // Expected output: true/false per comparison
+  test('Evaluates AT_LEAST and BETWEEN comparisons', () => {
+    const atLeast = makeEvent({
+      playerId: 8480012,
+      comparison: ComparisonType.AT_LEAST,
+      threshold: 2,
+    });
+    const between = makeEvent({
+      category: EventCategory.TEAM,
+      subject: 'sog',
+      teamAbbrev: 'BOS',
+      comparison: ComparisonType.BETWEEN,
+      threshold: 20,
+      upperThreshold: 25,
+    });
+
+    expect(
+      evaluator.evaluateCondition(atLeast, makeBoxscore('LIVE'), false)
+    ).toBe(true);
+    expect(
+      evaluator.evaluateCondition(between, makeBoxscore('LIVE'), false)
+    ).toBe(false);
+    expect(
+      evaluator.evaluateCondition(between, makeBoxscore('OFF'), true)
+    ).toBe(true);
+    expect(
+      evaluator.evaluateCondition(
+        { ...between, upperThreshold: 23 },
+        makeBoxscore('OFF'),
+        true
+      )
+    ).toBe(false);
+  });
+
+  // Input: "Pettersson goal AND assist" and "any goalie 30+ saves OR shutout"
+  // Expected behavior: sub-conditions are combined with the square's own condition;
+  // "any goalie" ignores goalies who did not play
+  // Expected output: AND true, OR false live and true only for the right team
+  test('Evaluates compound AND/OR squares', () => {
+    const boxscore = makeBoxscore('OFF');
+
+    const goalAndAssist = makeEvent({
+      playerId: 8480012,
+      operator: ConditionOperator.AND,
+      conditions: [makeEvent({ playerId: 8480012, subject: 'assists' })],
+    });
+    const savesOrShutout = makeEvent({
+      category: EventCategory.GOALIE,
+      subject: 'saves',
+      threshold: 30,
+      operator: ConditionOperator.OR,
+      conditions: [
+        makeEvent({
+          category: EventCategory.GOALIE,
+          subject: 'goalsAgainst',
+          comparison: ComparisonType.EQUAL,
+          threshold: 0,
+        }),
+      ],
+    });
+
+    expect(evaluator.evaluateCondition(goalAndAssist, boxscore, true)).toBe(
+      true
+    );
+    expect(
+      evaluator.evaluateCondition(
+        { ...goalAndAssist, operator: ConditionOperator.AND, threshold: 3 },
+        boxscore,
+        true
+      )
+    ).toBe(false);
+    // Korpisalo's 0 goals against in 00:00 TOI must not count as a shutout
+    expect(evaluator.evaluateCondition(savesOrShutout, boxscore, true)).toBe(
+      false
+    );
+    expect(
+      evaluator.evaluateCondition(
+        { ...savesOrShutout, threshold: 28, teamAbbrev: 'BOS' },
+        boxscore,
+        true
+      )
+    ).toBe(true);
+  });
+
+  // Input: period-scoped team and player conditions with a play-by-play feed
+  // Expected behavior: only plays from the condition's period are counted;
+  // LESS_THAN is decided once that period is over
+  // Expected output: true/false per period
+  test('Evaluates period-scoped conditions from the play-by-play', () => {
+    const boxscore = {
+      ...makeBoxscore('LIVE'),
+      periodDescriptor: { number: 3, periodType: 'REG' },
+    };
+    const vanThird = makeEvent({
+      category: EventCategory.TEAM,
+      teamAbbrev: 'VAN',
+      period: 3,
+      threshold: 2,
+    });
+    const hughesPointsThird = makeEvent({
+      category: EventCategory.DEFENSE,
+      subject: 'points',
+      playerId: 8480800,
+      period: 3,
+      threshold: 2,
+    });
+    const bosQuietSecond = makeEvent({
+      category: EventCategory.TEAM,
+      teamAbbrev: 'BOS',
+      period: 2,
+      comparison: ComparisonType.LESS_THAN,
+      threshold: 1,
+    });
+
+    expect(
+      evaluator.evaluateTicket(
+        [
+          vanThird,
+          hughesPointsThird,
+          bosQuietSecond,
+          { ...vanThird, period: 1 },
+        ],
+        boxscore,
+        playByPlay
+      )
+    ).toEqual([true, true, true, false]);
+    // Without a play-by-play, period-scoped squares stay open
+    expect(evaluator.evaluateCondition(vanThird, boxscore, false)).toBe(false);
+  });
+
+  // Mocked behavior: nhlService.getBoxscore returns a boxscore, Ticket.find returns two tickets
+  // Input: game ID
+  // Expected behavior: only the ticket whose squares changed is persisted, with a recomputed score,
+  // its square flips are added to the history and its challenges' leaderboards are republished
+  // Expected output: 1 ticket updated
+  test('evaluateGame persists changed tickets only', async () => {
+    jest
+      .spyOn(nhlService, 'getBoxscore')
+      .mockResolvedValueOnce(makeBoxscore('LIVE'));
+
+    const events = Array.from({ length: 9 }, (_, i) =>
+      makeEvent({ id: `e${i}`, playerId: 8480012, threshold: i < 3 ? 1 : 5 })
+    );
+    const unchanged = [
+      true,
+      true,
+      true,
+      false,
+      false,
+      false,
+      false,
+      false,
+      false,
+    ];
+
+    jest.spyOn(Ticket, 'find').mockResolvedValueOnce([
+      {
+        _id: 'changed',
+        userId: 'u1',
+        events,
+        crossedOff: Array(9).fill(false),
+      },
+      { _id: 'same', userId: 'u2', events, crossedOff: unchanged },
+    ] as any);
+    const updateSpy = jest
+      .spyOn(Ticket, 'findByIdAndUpdate')
+      .mockResolvedValueOnce({ _id: 'changed', userId: 'u1' } as any);
+    const publishSpy = jest
+      .spyOn(leaderboardService, 'publishForTicket')
+      .mockResolvedValueOnce();
+    const historySpy = jest
+      .spyOn(ticketHistoryModel, 'record')
+      .mockResolvedValueOnce();
+
+    const updated = await evaluator.evaluateGame('2024020100');
+
+    expect(updated).toBe(1);
+    expect(Ticket.find).toHaveBeenCalledWith({
+      'game.id': 2024020100,
+      isFinalized: { $ne: true },
+    });
+    expect(updateSpy).toHaveBeenCalledTimes(1);
+    expect(updateSpy).toHaveBeenCalledWith(
+      'changed',
+      {
+        crossedOff: unchanged,
+        score: {
+          noCrossedOff: 3,
+          noRows: 1,
+          noColumns: 0,
+          noCrosses: 0,
+          total: 6,
+          weightedTotal: 6,
+        },
+      },
+      { new: true }
+    );
+    expect(publishSpy).toHaveBeenCalledWith('u1', 'changed');
+    expect(historySpy).toHaveBeenCalledTimes(1);
+    expect(historySpy).toHaveBeenCalledWith(
+      { ticketId: 'changed', userId: 'u1' },
+      expect.objectContaining({
+        before: Array(9).fill(false),
+        after: unchanged,
+        source: 'evaluator',
+      })
+    );
+  });
+
+  // Mocked behavior: nhlService.getBoxscore returns null
+  // Input: game ID
+  // Expected behavior: no tickets are loaded or updated
+  // Expected output: 0
+  test('evaluateGame skips games without a boxscore', async () => {
+    jest.spyOn(nhlService, 'getBoxscore').mockResolvedValueOnce(null);
+    const findSpy = jest.spyOn(Ticket, 'find');
+
+    const updated = await evaluator.evaluateGame('2024020100');
+
+    expect(updated).toBe(0);
+    expect(findSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: nhlService.getBoxscore returns a final boxscore, no tickets
+  // Input: game ID
+  // Expected behavior: the boxscore is added to the archive used for square odds
+  // Expected output: 0
+  test('evaluateGame archives final boxscores', async () => {
+    const boxscore = makeBoxscore('OFF');
+    jest.spyOn(nhlService, 'getBoxscore').mockResolvedValueOnce(boxscore);
+    jest.spyOn(Ticket, 'find').mockResolvedValueOnce([] as any);
+    const saveSpy = jest.spyOn(boxscoreArchive, 'save').mockResolvedValueOnce();
+
+    const updated = await evaluator.evaluateGame('2024020100');
+
+    expect(updated).toBe(0);
+    expect(saveSpy).toHaveBeenCalledWith(boxscore);
+  });
+});
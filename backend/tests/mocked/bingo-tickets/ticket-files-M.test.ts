@@ -0,0 +1,304 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const FUTURE_START = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+const game = {
+  id: 2024020100,
+  startTimeUTC: FUTURE_START,
+  homeTeam: { abbrev: 'BOS' },
+  awayTeam: { abbrev: 'VAN' },
+};
+
+// 3x3 card of team squares; the last one is compound
+const events = (): any[] => {
+  const squares: any[] = Array.from({ length: 9 }, (_, i) => ({
+    id: `e${i}`,
+    category: 'TEAM',
+    subject: 'goals',
+    comparison: 'GREATER_THAN',
+    threshold: 2,
+    teamAbbrev: i % 2 ? 'VAN' : 'BOS',
+  }));
+  squares[8] = {
+    ...squares[8],
+    operator: 'AND',
+    conditions: [
+      {
+        id: 'e8a',
+        category: 'TEAM',
+        subject: 'sog',
+        comparison: 'GREATER_THAN',
+        threshold: 30,
+        teamAbbrev: 'BOS',
+      },
+    ],
+  };
+  return squares;
+};
+
+describe('Mocked ticket import and export', () => {
+  let authToken: string;
+  let testUserId: string;
+  const ticketId = new mongoose.Types.ObjectId().toString();
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const storedTicket = (userId: string) => ({
+    _id: ticketId,
+    userId,
+    name: 'My card',
+    game: { ...game, venue: 'TD Garden' },
+    gridSize: 3,
+    events: events().map(event => ({ ...event, playerName: null })),
+    crossedOff: Array(9).fill(true),
+  });
+
+  // Mocked behavior: Ticket.findById returns the user's ticket
+  // Input: ticket ID, format=json
+  // Expected status code: 200
+  // Expected behavior: the ticket is downloaded as createTicketSchema input
+  // Expected output: name, game, gridSize and events without nulls or progress
+  test('Exports a ticket as JSON', async () => {
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(storedTicket(testUserId) as any);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/export`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-disposition']).toBe(
+      `attachment; filename="ticket-${ticketId}.json"`
+    );
+    expect(res.body).toEqual({
+      name: 'My card',
+      game,
+      gridSize: 3,
+      events: events(),
+    });
+  });
+
+  // Mocked behavior: Ticket.findById returns the user's ticket
+  // Input: ticket ID, format=csv
+  // Expected status code: 200
+  // Expected behavior: a header row, then one row per square
+  // Expected output: CSV with the compound square's conditions as quoted JSON
+  test('Exports a ticket as CSV', async () => {
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(storedTicket(testUserId) as any);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/export`)
+      .query({ format: 'csv' })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/csv/);
+    const lines = res.text.trim().split('\r\n');
+    expect(lines).toHaveLength(10);
+    expect(lines[0]).toMatch(/^ticket,name,gameId,startTimeUTC,/);
+    expect(lines[1]).toBe(
+      `${ticketId},My card,2024020100,${FUTURE_START},BOS,VAN,3,e0,TEAM,goals,GREATER_THAN,2,,,BOS,,,,,`
+    );
+    expect(lines[9]).toContain(',AND,"[{""id"":""e8a""');
+  });
+
+  // Mocked behavior: the ticket belongs to someone with no shared challenge
+  // Input: ticket ID
+  // Expected status code: 403
+  // Expected output: access error
+  test('Does not export tickets the user cannot read', async () => {
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(storedTicket('someone-else') as any);
+    jest.spyOn(challengeModel, 'findByTicket').mockResolvedValueOnce([]);
+
+    const res = await request(app)
+      .get(`/api/tickets/${ticketId}/export`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  // Mocked behavior: Ticket.create echoes its input
+  // Input: a JSON export and the same ticket as CSV
+  // Expected status code: 201
+  // Expected behavior: both import paths create the same ticket for the caller
+  // Expected output: created tickets owned by the caller
+  test('Imports tickets from JSON and CSV', async () => {
+    const createSpy = jest
+      .spyOn(Ticket, 'create')
+      .mockImplementation(async (data: any) => data);
+    const definition = { name: 'My card', game, gridSize: 3, events: events() };
+
+    const fromJson = await request(app)
+      .post('/api/tickets/import')
+      .send({ format: 'json', tickets: [{ ...definition, userId: 'x' }] })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(fromJson.status).toBe(201);
+    expect(fromJson.body).toHaveLength(1);
+    expect(fromJson.body[0].userId).toBe(testUserId);
+
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(storedTicket(testUserId) as any);
+    const exported = await request(app)
+      .get(`/api/tickets/${ticketId}/export`)
+      .query({ format: 'csv' })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    const fromCsv = await request(app)
+      .post('/api/tickets/import')
+      .send({ format: 'csv', csv: exported.text })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(fromCsv.status).toBe(201);
+
+    expect(createSpy).toHaveBeenCalledTimes(2);
+    const [jsonTicket, csvTicket] = createSpy.mock.calls.map(
+      ([data]) => data as any
+    );
+    expect(csvTicket).toEqual(jsonTicket);
+    expect(jsonTicket).toMatchObject({ ...definition, userId: testUserId });
+  });
+
+  // Mocked behavior: none
+  // Input: CSV with a non-numeric threshold, an unknown comparison,
+  //        unparseable conditions and a row without a ticket key
+  // Expected status code: 400
+  // Expected behavior: nothing is created; each error names its CSV line
+  // Expected output: row-level error details
+  test('Reports row-level errors for bad CSV squares', async () => {
+    const createSpy = jest.spyOn(Ticket, 'create');
+    const header =
+      'ticket,name,gameId,startTimeUTC,homeTeam,awayTeam,category,subject,comparison,threshold,conditions';
+    const rows = Array.from(
+      { length: 9 },
+      () =>
+        `t1,Card,2024020100,${FUTURE_START},BOS,VAN,TEAM,goals,GREATER_THAN,2,`
+    );
+    rows[1] = rows[1].replace(',2,', ',abc,');
+    rows[3] = rows[3].replace('GREATER_THAN', 'MOST');
+    rows[5] = rows[5] + '"[not json"';
+    const csv = [header, ...rows, ',Card,1,,BOS,VAN,TEAM,goals,EQUAL,1,'].join(
+      '\n'
+    );
+
+    const res = await request(app)
+      .post('/api/tickets/import')
+      .send({ format: 'csv', csv })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(400);
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(res.body.details).toEqual(
+      expect.arrayContaining([
+        { row: 11, field: 'ticket', message: 'Required' },
+        {
+          ticket: 0,
+          row: 7,
+          field: 'events.5.conditions',
+          message: 'Invalid JSON',
+        },
+        expect.objectContaining({
+          ticket: 0,
+          row: 3,
+          field: 'events.1.threshold',
+        }),
+        expect.objectContaining({
+          ticket: 0,
+          row: 5,
+          field: 'events.3.comparison',
+        }),
+      ])
+    );
+  });
+
+  // Mocked behavior: none
+  // Input: JSON import with a wrong square count and one for a started game
+  // Expected status code: 400
+  // Expected behavior: nothing is created; errors name the ticket's position
+  // Expected output: events count error for ticket 0, lock error for ticket 1
+  test('Rejects JSON imports with invalid or locked tickets', async () => {
+    const createSpy = jest.spyOn(Ticket, 'create');
+    const definition = { name: 'My card', game, gridSize: 3, events: events() };
+
+    const res = await request(app)
+      .post('/api/tickets/import')
+      .send({
+        format: 'json',
+        tickets: [
+          { ...definition, events: events().slice(0, 8) },
+          {
+            ...definition,
+            game: { ...game, startTimeUTC: '2020-01-01T00:00:00Z' },
+          },
+        ],
+      })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(400);
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(res.body.details).toEqual([
+      { ticket: 0, field: 'events', message: 'Exactly 9 events required' },
+      {
+        ticket: 1,
+        field: 'game',
+        message: 'Ticket events are locked once the game starts',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const liveStatus = {
+  gameId: '2024020100',
+  gameState: 'LIVE',
+  gameScheduleState: 'OK',
+  startTimeUTC: '2024-10-31T23:00:00.000Z',
+  isLive: true,
+  isFinished: false,
+  isScheduled: false,
+};
+
+// Ticket events lock at puck drop
+describe('Mocked ticket lock', () => {
+  let authToken: string;
+  let testUserId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: Ticket.findById returns a ticket, game is LIVE
+  // Input: ticket ID
+  // Expected status code: 200
+  // Expected behavior: response carries the lock state
+  // Expected output: ticket with isLocked=true and lockedAt=puck drop
+  test('GET /api/tickets/:id reports lock state', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: 'ticket-1',
+      userId: testUserId,
+      game: { id: 2024020100 },
+    } as any);
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValueOnce(liveStatus);
+
+    const res = await request(app)
+      .get('/api/tickets/ticket-1')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      _id: 'ticket-1',
+      isLocked: true,
+      lockedAt: liveStatus.startTimeUTC,
+    });
+    expect(nhlService.getGameStatus).toHaveBeenCalledWith('2024020100');
+  });
+
+  // Mocked behavior: Ticket.find (used by the update hook) returns a ticket for a LIVE game
+  // Input: update that changes events
+  // Expected behavior: the write is rejected before reaching the database
+  // Expected output: lock error
+  test('Rejects event updates after lock', async () => {
+    jest.spyOn(Ticket, 'find').mockReturnValueOnce({
+      select: async () => [{ game: { id: 2024020100 } }],
+    } as any);
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValueOnce(liveStatus);
+
+    await expect(
+      Ticket.updateOne(
+        { _id: 'ticket-1' },
+        { $set: { 'events.0.threshold': 5 } }
+      )
+    ).rejects.toThrow('Ticket events are locked once the game starts');
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import fs from 'fs';
+import os from 'os';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import {
+  BoxscoreArchiveService,
+  boxscoreArchive,
+} from '../../../src/services/boxscoreArchive.service';
+import { ticketOddsService } from '../../../src/services/ticketOdds.service';
+import {
+  ConditionOperator,
+  EventCategory,
+} from '../../../src/types/tickets.types';
+import { makeEvent } from '../../res/fixtures';
+import { Boxscore } from '../../../src/types/nhl.types';
+import {
+  computeExpectedScore,
+  computeTicketScore,
+} from '../../../src/utils/score.util';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Six final games: BOS plays in the first five, TOR vs VAN in the last
+const FIXTURE_DIR = path.resolve(__dirname, '../../res/boxscores');
+
+describe('Mocked square odds', () => {
+  let games: Boxscore[];
+  let authToken: string;
+  let testUserId: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    games = await new BoxscoreArchiveService(FIXTURE_DIR).loadAll();
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: none (fixture directory and a missing directory)
+  // Input: archive directories
+  // Expected behavior: every stored game is read; a missing directory is empty
+  // Expected output: 6 games, then []
+  test('Loads archived games from disk', async () => {
+    expect(games).toHaveLength(6);
+    const missing = new BoxscoreArchiveService(
+      path.join(os.tmpdir(), 'no-such-archive')
+    );
+    expect(await missing.loadAll()).toEqual([]);
+  });
+
+  // Mocked behavior: none (temporary directory)
+  // Input: the same boxscore saved twice
+  // Expected behavior: first save writes <gameId>.json, second is a no-op
+  // Expected output: one archived game
+  test('Archives each game once', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-'));
+    try {
+      const archive = new BoxscoreArchiveService(dir);
+      await archive.save(games[0]);
+      await archive.save({ ...games[0], gameState: 'CHANGED' });
+
+      const stored = await archive.loadAll();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].gameState).toBe('OFF');
+      expect(fs.readdirSync(dir)).toEqual([`${games[0].id}.json`]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  // Mocked behavior: none
+  // Input: Pastrnak (in 5 archived games, scored in 2) 1+ goals
+  // Expected behavior: estimate uses only games he played, smoothed
+  // Expected output: (2 + 1) / (5 + 2)
+  test('Estimates from games with the same player', () => {
+    const odds = ticketOddsService.estimateSquare(
+      makeEvent({ playerId: 1, teamAbbrev: 'BOS' }),
+      games
+    );
+    expect(odds).toEqual({ probability: 0.429, sampleSize: 5 });
+  });
+
+  // Mocked behavior: none
+  // Input: a player who is not in the archive
+  // Expected behavior: falls back to every forward who played (12 samples, 8 scored)
+  // Expected output: (8 + 1) / (12 + 2)
+  test('Falls back to league-wide rates for unknown players', () => {
+    const odds = ticketOddsService.estimateSquare(
+      makeEvent({ playerId: 99 }),
+      games
+    );
+    expect(odds).toEqual({ probability: 0.643, sampleSize: 12 });
+  });
+
+  // Mocked behavior: none
+  // Input: BOS 1+ goals in the 1st period
+  // Expected behavior: treated as 3+ goals over the game (BOS scored 3+ in 2 of 5)
+  // Expected output: (2 + 1) / (5 + 2)
+  test('Scales period-scoped thresholds to the whole game', () => {
+    const odds = ticketOddsService.estimateSquare(
+      makeEvent({ category: EventCategory.TEAM, teamAbbrev: 'BOS', period: 1 }),
+      games
+    );
+    expect(odds).toEqual({ probability: 0.429, sampleSize: 5 });
+  });
+
+  // Mocked behavior: none
+  // Input: unknown player 1+ goals AND BOS 30+ shots
+  // Expected behavior: no game has both, so the parts are combined as independent
+  // Expected output: 0.643 * 0.429
+  test('Combines compound squares without a direct sample', () => {
+    const odds = ticketOddsService.estimateSquare(
+      makeEvent({
+        playerId: 99,
+        operator: ConditionOperator.AND,
+        conditions: [
+          makeEvent({
+            category: EventCategory.TEAM,
+            subject: 'sog',
+            threshold: 30,
+            teamAbbrev: 'BOS',
+          }),
+        ],
+      }),
+      games
+    );
+    expect(odds).toEqual({ probability: 0.276, sampleSize: 5 });
+  });
+
+  // Mocked behavior: none
+  // Input: a 3x3 ticket and an empty archive
+  // Expected behavior: no estimate can be made
+  // Expected output: null probabilities and expected score
+  test('Reports no odds without archived games', () => {
+    const events = Array.from({ length: 9 }, () => makeEvent({}));
+    const odds = ticketOddsService.estimate(events, 3, []);
+    expect(odds.expectedScore).toBeNull();
+    expect(odds.gamesInDataset).toBe(0);
+    expect(odds.squares[0]).toEqual({ probability: null, sampleSize: 0 });
+  });
+
+  // Mocked behavior: none
+  // Input: square probabilities
+  // Expected behavior: expectation of computeTicketScore with independent squares
+  // Expected output: certain squares match computeTicketScore; coin flips add up
+  test('Computes expected score under the scoring rules', () => {
+    expect(computeExpectedScore(Array(16).fill(1), 4)).toEqual(
+      computeTicketScore(Array(16).fill(true), 4)
+    );
+    expect(computeExpectedScore(Array(9).fill(0.5), 3)).toEqual({
+      noCrossedOff: 4.5,
+      noRows: 0.38,
+      noColumns: 0.38,
+      noCrosses: 0.25,
+      total: 7.52,
+      weightedTotal: 7.52,
+    });
+  });
+
+  // Mocked behavior: archive returns fixtures, then an empty archive
+  // Input: Pastrnak 1+ goals (odds 0.429), an unknown player 5+ goals (rare),
+  //        and a square with an explicit weight
+  // Expected behavior: weights are the rounded inverse odds, capped, unless set;
+  //        squares without an estimate are worth 1
+  // Expected output: [2, 10, 3], then [1, 1, 3]
+  test('Derives square weights from rarity', async () => {
+    const events = [
+      makeEvent({ playerId: 1, teamAbbrev: 'BOS' }),
+      makeEvent({ playerId: 99, threshold: 5 }),
+      makeEvent({ playerId: 1, teamAbbrev: 'BOS', weight: 3 }),
+    ];
+
+    jest.spyOn(boxscoreArchive, 'loadAll').mockResolvedValueOnce(games);
+    expect(await ticketOddsService.squareWeights(events)).toEqual([2, 10, 3]);
+
+    jest.spyOn(boxscoreArchive, 'loadAll').mockResolvedValueOnce([]);
+    expect(await ticketOddsService.squareWeights(events)).toEqual([1, 1, 3]);
+  });
+
+  // Input: a 3x3 card with the top row crossed off and square weights
+  // Expected behavior: weighted total counts each square at its weight; lines unchanged
+  // Expected output: total 6, weightedTotal 2 + 5 + 1 + 3
+  test('Scores crossed squares at their weights', () => {
+    const crossedOff = [
+      true,
+      true,
+      true,
+      false,
+      false,
+      false,
+      false,
+      false,
+      false,
+    ];
+    const score = computeTicketScore(
+      crossedOff,
+      3,
+      undefined,
+      [2, 5, 1, 10, 10, 10, 10, 10, 10]
+    );
+    expect(score.total).toBe(6);
+    expect(score.weightedTotal).toBe(11);
+  });
+
+  // Mocked behavior: Ticket.findById returns the user's ticket, archive returns fixtures
+  // Input: ticket ID
+  // Expected status code: 200
+  // Expected behavior: odds are attached to the ticket response
+  // Expected output: per-square probabilities and expected score
+  test('GET /api/tickets/:id includes odds', async () => {
+    jest.spyOn(boxscoreArchive, 'loadAll').mockResolvedValueOnce(games);
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValueOnce(null);
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: 'ticket-1',
+      userId: testUserId,
+      game: { id: 2024020100 },
+      gridSize: 3,
+      events: Array.from({ length: 9 }, (_, i) =>
+        makeEvent({ id: `e${i}`, playerId: 1, teamAbbrev: 'BOS' })
+      ),
+    } as any);
+
+    const res = await request(app)
+      .get('/api/tickets/ticket-1')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.odds.gamesInDataset).toBe(6);
+    expect(res.body.odds.squares).toHaveLength(9);
+    expect(res.body.odds.squares[0]).toEqual({
+      probability: 0.429,
+      sampleSize: 5,
+    });
+    expect(res.body.odds.expectedScore).toEqual(
+      computeExpectedScore(Array(9).fill(0.429), 3)
+    );
+  });
+
+  // Mocked behavior: archive returns the same fixtures twice, then a new archive
+  // Input: the same ticket three times
+  // Expected behavior: odds are computed once per archive, not per response
+  // Expected output: identical odds each time
+  test('Caches odds until the archive changes', async () => {
+    const ticket = {
+      gridSize: 3,
+      events: Array.from({ length: 9 }, (_, i) =>
+        makeEvent({ id: `c${i}`, playerId: 2, teamAbbrev: 'TOR' })
+      ),
+    };
+    const estimateSpy = jest.spyOn(ticketOddsService, 'estimate');
+    jest
+      .spyOn(boxscoreArchive, 'loadAll')
+      .mockResolvedValueOnce(games)
+      .mockResolvedValueOnce(games)
+      .mockResolvedValueOnce([...games]);
+
+    const [first] = await ticketOddsService.withTicketOdds([ticket]);
+    const [second] = await ticketOddsService.withTicketOdds([{ ...ticket }]);
+    expect(estimateSpy).toHaveBeenCalledTimes(1);
+    expect(second.odds).toEqual(first.odds);
+
+    await ticketOddsService.withTicketOdds([ticket]);
+    expect(estimateSpy).toHaveBeenCalledTimes(2);
+  });
+});
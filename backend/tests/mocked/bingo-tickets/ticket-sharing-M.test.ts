@@ -0,0 +1,324 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// A query result that can be awaited directly or after .select()
+const query = (value: unknown) =>
+  Object.assign(Promise.resolve(value), {
+    select: () => Promise.resolve(value),
+  }) as any;
+
+const game = {
+  id: 2024020100,
+  homeTeam: { abbrev: 'BOS' },
+  awayTeam: { abbrev: 'VAN' },
+};
+
+const otherGame = {
+  id: 2024020200,
+  homeTeam: { abbrev: 'TOR' },
+  awayTeam: { abbrev: 'MTL' },
+};
+
+// 3x3 card of team squares alternating home and away
+const events = (): any[] =>
+  Array.from({ length: 9 }, (_, i) => ({
+    id: `e${i}`,
+    category: 'TEAM',
+    subject: 'goals',
+    comparison: 'GREATER_THAN',
+    threshold: 2,
+    teamAbbrev: i % 2 ? 'VAN' : 'BOS',
+  }));
+
+describe('Mocked ticket sharing', () => {
+  let authToken: string;
+  let testUserId: string;
+  const ownerId = new mongoose.Types.ObjectId().toString();
+  const ticketId = new mongoose.Types.ObjectId().toString();
+
+  const sharedTicket = (userId = ownerId) => ({
+    _id: ticketId,
+    userId,
+    name: 'Bruins night',
+    game,
+    gridSize: 3,
+    events: events(),
+    crossedOff: Array(9).fill(true),
+    score: { noCrossedOff: 9, total: 34 },
+    shareCode: 'abcd1234',
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: the caller's unshared ticket is found and updated
+  // Input: ticket ID
+  // Expected status code: 200
+  // Expected behavior: a new 8-character code is stored on the ticket
+  // Expected output: { shareCode }
+  test('Owner creates a share code', async () => {
+    const unshared = { ...sharedTicket(testUserId), shareCode: undefined };
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockReturnValueOnce(query(unshared))
+      .mockReturnValueOnce(query(unshared));
+    const updateSpy = jest
+      .spyOn(Ticket, 'findOneAndUpdate')
+      .mockImplementationOnce(((_: unknown, update: any) =>
+        query({ shareCode: update.$set.shareCode })) as any);
+
+    const res = await request(app)
+      .post(`/api/tickets/${ticketId}/share`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.shareCode).toMatch(/^[\w-]{8}$/);
+    expect(updateSpy).toHaveBeenCalledWith(
+      { _id: ticketId, shareCode: { $exists: false } },
+      { $set: { shareCode: res.body.shareCode } },
+      { new: true }
+    );
+  });
+
+  // Mocked behavior: the ticket belongs to someone else
+  // Input: ticket ID
+  // Expected status code: 403
+  // Expected behavior: no code is created
+  // Expected output: ownership error
+  test('Only the owner can share a ticket', async () => {
+    jest.spyOn(Ticket, 'findById').mockReturnValueOnce(query(sharedTicket()));
+    const updateSpy = jest.spyOn(Ticket, 'findOneAndUpdate');
+
+    const res = await request(app)
+      .post(`/api/tickets/${ticketId}/share`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(403);
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: Ticket.findOne finds another user's shared ticket
+  // Input: share code
+  // Expected status code: 200
+  // Expected behavior: read-only view with progress and score, code not echoed
+  // Expected output: ticket with access read_only
+  test('Anyone with the code can view the ticket', async () => {
+    const findSpy = jest
+      .spyOn(Ticket, 'findOne')
+      .mockResolvedValueOnce(sharedTicket() as any);
+
+    const res = await request(app)
+      .get('/api/tickets/shared/abcd1234')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(findSpy).toHaveBeenCalledWith({ shareCode: 'abcd1234' });
+    expect(res.body).toMatchObject({
+      name: 'Bruins night',
+      access: 'read_only',
+      crossedOff: Array(9).fill(true),
+      score: { total: 34 },
+    });
+    expect(res.body).not.toHaveProperty('shareCode');
+  });
+
+  // Mocked behavior: Ticket.findById returns another user's shared ticket
+  // Input: ticket ID with the right share code, then a wrong one
+  // Expected status code: 200, then 403
+  // Expected behavior: the share code grants read access to GET /api/tickets/:id
+  // Expected output: read-only ticket, then access error
+  test('GET /api/tickets/:id accepts the share code', async () => {
+    jest
+      .spyOn(Ticket, 'findById')
+      .mockResolvedValueOnce(sharedTicket() as any)
+      .mockResolvedValueOnce(sharedTicket() as any);
+    jest.spyOn(challengeModel, 'findByTicket').mockResolvedValueOnce([]);
+
+    const shared = await request(app)
+      .get(`/api/tickets/${ticketId}`)
+      .query({ shareCode: 'abcd1234' })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(shared.status).toBe(200);
+    expect(shared.body.access).toBe('read_only');
+    expect(shared.body).not.toHaveProperty('shareCode');
+
+    const wrong = await request(app)
+      .get(`/api/tickets/${ticketId}`)
+      .query({ shareCode: 'wrong' })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(wrong.status).toBe(403);
+  });
+
+  // Mocked behavior: Ticket.findOne returns null
+  // Input: unknown share code
+  // Expected status code: 404
+  // Expected output: not found message
+  test('Unknown share codes are not found', async () => {
+    jest.spyOn(Ticket, 'findOne').mockResolvedValueOnce(null);
+
+    const res = await request(app)
+      .post('/api/tickets/shared/nope/clone')
+      .send({})
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body).toHaveProperty('message', 'Shared ticket not found');
+  });
+
+  // Mocked behavior: Ticket.findOne finds the shared ticket, Ticket.create echoes
+  // Input: share code with no body, then with a different game
+  // Expected status code: 201
+  // Expected behavior: the copy belongs to the caller with nothing crossed off;
+  //        for another game, home/away squares follow the new teams
+  // Expected output: created tickets
+  test('Clones a shared ticket for the same or another game', async () => {
+    jest
+      .spyOn(Ticket, 'findOne')
+      .mockResolvedValueOnce(sharedTicket() as any)
+      .mockResolvedValueOnce(sharedTicket() as any);
+    const createSpy = jest
+      .spyOn(Ticket, 'create')
+      .mockImplementation(async (data: any) => data);
+
+    const same = await request(app)
+      .post('/api/tickets/shared/abcd1234/clone')
+      .send({})
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(same.status).toBe(201);
+
+    const other = await request(app)
+      .post('/api/tickets/shared/abcd1234/clone')
+      .send({ name: 'Leafs night', game: otherGame })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(other.status).toBe(201);
+
+    const [sameCopy, otherCopy] = createSpy.mock.calls.map(
+      ([data]) => data as any
+    );
+    expect(sameCopy).toMatchObject({
+      userId: testUserId,
+      name: 'Bruins night',
+      game,
+      events: events(),
+    });
+    expect(sameCopy).not.toHaveProperty('crossedOff');
+    expect(sameCopy).not.toHaveProperty('score');
+    expect(sameCopy).not.toHaveProperty('shareCode');
+    expect(otherCopy.name).toBe('Leafs night');
+    expect(otherCopy.game).toEqual(otherGame);
+    expect(otherCopy.events.map((e: any) => e.teamAbbrev)).toEqual([
+      'TOR',
+      'MTL',
+      'TOR',
+      'MTL',
+      'TOR',
+      'MTL',
+      'TOR',
+      'MTL',
+      'TOR',
+    ]);
+  });
+
+  // Mocked behavior: Ticket.findOne finds the shared ticket
+  // Input: share code and a game whose start has passed
+  // Expected status code: 409
+  // Expected behavior: nothing is created
+  // Expected output: lock error message
+  test('Cannot clone into a game that has started', async () => {
+    jest.spyOn(Ticket, 'findOne').mockResolvedValueOnce(sharedTicket() as any);
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const res = await request(app)
+      .post('/api/tickets/shared/abcd1234/clone')
+      .send({ game: { ...otherGame, startTimeUTC: '2000-01-01T00:00:00Z' } })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(409);
+    expect(res.body).toHaveProperty(
+      'message',
+      'Ticket events are locked once the game starts'
+    );
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the shared ticket has a VAN player square; the new game's
+  //        rosters do not include that player
+  // Input: share code and a different game
+  // Expected status code: 400
+  // Expected behavior: nothing is created
+  // Expected output: square error for the player square
+  test('Rejects clones whose player squares do not fit the new game', async () => {
+    const ticket = sharedTicket();
+    ticket.events[1] = {
+      ...ticket.events[1],
+      category: 'FORWARD',
+      playerId: 8478402,
+    };
+    jest.spyOn(Ticket, 'findOne').mockResolvedValueOnce(ticket as any);
+    jest.spyOn(nhlService, 'getTeamRoster').mockResolvedValue({
+      forwards: [],
+      defensemen: [],
+      goalies: [],
+    });
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const res = await request(app)
+      .post('/api/tickets/shared/abcd1234/clone')
+      .send({ game: otherGame })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(400);
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(res.body.details).toEqual([expect.objectContaining({ square: 1 })]);
+  });
+});
@@ -0,0 +1,389 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { ticketTemplatesModel } from '../../../src/models/ticketTemplates.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { ClubStats, TeamRoster } from '../../../src/types/nhl.types';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const name = (first: string, last: string) => ({
+  firstName: { default: first },
+  lastName: { default: last },
+});
+
+const VAN_STATS: ClubStats = {
+  skaters: [
+    {
+      playerId: 1,
+      ...name('Elias', 'Pettersson'),
+      positionCode: 'C',
+      gamesPlayed: 40,
+      goals: 15,
+      assists: 20,
+      points: 35,
+    },
+    {
+      playerId: 2,
+      ...name('Brock', 'Boeser'),
+      positionCode: 'R',
+      gamesPlayed: 40,
+      goals: 22,
+      assists: 10,
+      points: 32,
+    },
+    {
+      playerId: 3,
+      ...name('Quinn', 'Hughes'),
+      positionCode: 'D',
+      gamesPlayed: 40,
+      goals: 25,
+      assists: 30,
+      points: 55,
+    },
+  ],
+  goalies: [
+    { playerId: 4, ...name('Thatcher', 'Demko'), gamesPlayed: 30 },
+    { playerId: 5, ...name('Kevin', 'Lankinen'), gamesPlayed: 12 },
+  ],
+};
+
+const VAN_ROSTER: TeamRoster = {
+  forwards: [
+    { id: 1, ...name('Elias', 'Pettersson') },
+    { id: 2, ...name('Brock', 'Boeser') },
+  ],
+  defensemen: [{ id: 3, ...name('Quinn', 'Hughes') }],
+  goalies: [
+    { id: 4, ...name('Thatcher', 'Demko') },
+    { id: 5, ...name('Kevin', 'Lankinen') },
+  ],
+};
+
+const EMPTY_ROSTER: TeamRoster = { forwards: [], defensemen: [], goalies: [] };
+
+const game = {
+  id: 2024020100,
+  homeTeam: { abbrev: 'BOS' },
+  awayTeam: { abbrev: 'VAN' },
+};
+
+// 3x3 template: home team goals, away top scorer, away 2nd top scorer,
+// away starting goalie, the rest team shots
+const templateEvents = (): any[] => {
+  const events: any[] = Array.from({ length: 9 }, (_, i) => ({
+    id: `e${i}`,
+    category: 'TEAM',
+    subject: 'sog',
+    comparison: 'GREATER_THAN',
+    threshold: 30,
+    teamRef: 'away',
+  }));
+  events[0] = { ...events[0], subject: 'goals', threshold: 3, teamRef: 'home' };
+  events[1] = {
+    id: 'e1',
+    category: 'FORWARD',
+    subject: 'goals',
+    comparison: 'GREATER_THAN',
+    threshold: 1,
+    playerRef: { team: 'away', role: 'top_scorer', rank: 1 },
+  };
+  events[2] = {
+    ...events[1],
+    id: 'e2',
+    playerRef: { team: 'away', role: 'top_scorer', rank: 2 },
+  };
+  events[3] = {
+    id: 'e3',
+    category: 'GOALIE',
+    subject: 'saves',
+    comparison: 'GREATER_THAN',
+    threshold: 25,
+    playerRef: { team: 'away', role: 'starter', rank: 1 },
+  };
+  return events;
+};
+
+// Interface /api/tickets/templates and POST /api/tickets/from-template
+describe('Mocked ticket templates', () => {
+  let authToken: string;
+  let testUserId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: ticketTemplatesModel.create returns the saved template
+  // Input: valid template with home/away and player references
+  // Expected status code: 201
+  // Expected behavior: template is saved for the requesting user
+  // Expected output: saved template
+  test('Saves a template for the current user', async () => {
+    const createSpy = jest
+      .spyOn(ticketTemplatesModel, 'create')
+      .mockImplementationOnce(
+        async (data, userId) => ({ ...data, userId, _id: 't1' }) as any
+      );
+
+    const res = await request(app)
+      .post('/api/tickets/templates')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Road game', events: templateEvents() });
+
+    expect(res.status).toBe(201);
+    expect(createSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Road game', gridSize: 3 }),
+      testUserId
+    );
+    expect(res.body.events[1].playerRef).toEqual({
+      team: 'away',
+      role: 'top_scorer',
+      rank: 1,
+    });
+  });
+
+  // Mocked behavior: none
+  // Input: template with an unknown player role
+  // Expected status code: 400
+  // Expected behavior: template is not saved
+  // Expected output: validation error for the role
+  test('Rejects templates with unknown references', async () => {
+    const createSpy = jest.spyOn(ticketTemplatesModel, 'create');
+    const events = templateEvents();
+    events[1].playerRef.role = 'enforcer';
+
+    const res = await request(app)
+      .post('/api/tickets/templates')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Bad', events });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ field: 'events.1.playerRef.role' }),
+      ])
+    );
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: ticketTemplatesModel.findByUserId returns one template
+  // Input: GET /api/tickets/templates
+  // Expected status code: 200
+  // Expected behavior: only the current user's templates are requested
+  // Expected output: list of templates
+  test('Lists the current user templates', async () => {
+    const findSpy = jest
+      .spyOn(ticketTemplatesModel, 'findByUserId')
+      .mockResolvedValueOnce([{ name: 'Road game' }] as any);
+
+    const res = await request(app)
+      .get('/api/tickets/templates')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(findSpy).toHaveBeenCalledWith(testUserId);
+    expect(res.body).toEqual([{ name: 'Road game' }]);
+  });
+
+  // Mocked behavior: ticketTemplatesModel.delete finds nothing for this user
+  // Input: DELETE /api/tickets/templates/:id
+  // Expected status code: 404
+  // Expected behavior: nothing is deleted
+  // Expected output: not found message
+  test('Returns 404 when deleting a template the user does not own', async () => {
+    jest.spyOn(ticketTemplatesModel, 'delete').mockResolvedValueOnce(false);
+
+    const res = await request(app)
+      .delete('/api/tickets/templates/abc')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body).toHaveProperty('message', 'Template not found');
+  });
+
+  // Mocked behavior: template found, club stats and rosters for VAN
+  // Input: POST /api/tickets/from-template for a BOS vs VAN game
+  // Expected status code: 201
+  // Expected behavior: references resolve to the game's teams and VAN's stat leaders
+  // Expected output: created ticket
+  test('Creates a ticket by resolving template references', async () => {
+    jest.spyOn(ticketTemplatesModel, 'findById').mockResolvedValueOnce({
+      userId: testUserId,
+      name: 'Road game',
+      gridSize: 3,
+      events: templateEvents(),
+    } as any);
+    const statsSpy = jest
+      .spyOn(nhlService, 'getClubStats')
+      .mockResolvedValue(VAN_STATS);
+    jest
+      .spyOn(nhlService, 'getTeamRoster')
+      .mockImplementation(async team =>
+        team === 'VAN' ? VAN_ROSTER : EMPTY_ROSTER
+      );
+    const createSpy = jest
+      .spyOn(Ticket, 'create')
+      .mockImplementationOnce(async (data: any) => data);
+
+    const res = await request(app)
+      .post('/api/tickets/from-template')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ templateId: 't1', game });
+
+    expect(res.status).toBe(201);
+    expect(statsSpy).toHaveBeenCalledTimes(1);
+    expect(statsSpy).toHaveBeenCalledWith('VAN');
+
+    const created = createSpy.mock.calls[0][0] as any;
+    expect(created.userId).toBe(testUserId);
+    expect(created.name).toBe('Road game');
+    expect(created.events[0]).toMatchObject({ teamAbbrev: 'BOS' });
+    expect(created.events[1]).toMatchObject({
+      teamAbbrev: 'VAN',
+      playerId: 2,
+      playerName: 'Brock Boeser',
+    });
+    // Hughes has more goals but is a defenseman
+    expect(created.events[2]).toMatchObject({ playerId: 1 });
+    expect(created.events[3]).toMatchObject({
+      playerId: 4,
+      playerName: 'Thatcher Demko',
+    });
+    expect(created.events[4]).toMatchObject({ teamAbbrev: 'VAN' });
+    expect(created.events[1]).not.toHaveProperty('playerRef');
+  });
+
+  // Mocked behavior: template found, club stats and rosters for VAN
+  // Input: POST /api/tickets/from-template for a game whose start has passed
+  // Expected status code: 409
+  // Expected behavior: ticket is not created
+  // Expected output: lock error message
+  test('Cannot create a ticket from a template once the game starts', async () => {
+    jest.spyOn(ticketTemplatesModel, 'findById').mockResolvedValueOnce({
+      userId: testUserId,
+      name: 'Road game',
+      gridSize: 3,
+      events: templateEvents(),
+    } as any);
+    jest.spyOn(nhlService, 'getClubStats').mockResolvedValue(VAN_STATS);
+    jest
+      .spyOn(nhlService, 'getTeamRoster')
+      .mockImplementation(async team =>
+        team === 'VAN' ? VAN_ROSTER : EMPTY_ROSTER
+      );
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const res = await request(app)
+      .post('/api/tickets/from-template')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        templateId: 't1',
+        game: { ...game, startTimeUTC: '2000-01-01T00:00:00Z' },
+      });
+
+    expect(res.status).toBe(409);
+    expect(res.body).toHaveProperty(
+      'message',
+      'Ticket events are locked once the game starts'
+    );
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: club stats unavailable
+  // Input: POST /api/tickets/from-template with player references
+  // Expected status code: 400
+  // Expected behavior: ticket is not created
+  // Expected output: one error per unresolved reference
+  test('Returns 400 when references cannot be resolved', async () => {
+    jest.spyOn(ticketTemplatesModel, 'findById').mockResolvedValueOnce({
+      userId: testUserId,
+      name: 'Road game',
+      gridSize: 3,
+      events: templateEvents(),
+    } as any);
+    jest.spyOn(nhlService, 'getClubStats').mockResolvedValue(null);
+    const createSpy = jest.spyOn(Ticket, 'create');
+
+    const res = await request(app)
+      .post('/api/tickets/from-template')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ templateId: 't1', game });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toHaveLength(3);
+    expect(res.body.details[0]).toEqual({
+      square: 1,
+      field: 'events.1.playerRef',
+      message:
+        'Could not resolve away top_scorer #1: stats unavailable for VAN',
+    });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: template belongs to another user
+  // Input: POST /api/tickets/from-template
+  // Expected status code: 404
+  // Expected behavior: template is treated as missing
+  // Expected output: not found message
+  test("Cannot use another user's template", async () => {
+    jest.spyOn(ticketTemplatesModel, 'findById').mockResolvedValueOnce({
+      userId: 'someone-else',
+      name: 'Road game',
+      gridSize: 3,
+      events: templateEvents(),
+    } as any);
+
+    const res = await request(app)
+      .post('/api/tickets/from-template')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ templateId: 't1', game });
+
+    expect(res.status).toBe(404);
+    expect(res.body).toHaveProperty('message', 'Template not found');
+  });
+});
@@ -4,6 +4,7 @@ import {
   test,
   jest,
   beforeAll,
+  beforeEach,
   afterAll,
 } from '@jest/globals';
 import dotenv from 'dotenv';
@@ -14,6 +15,8 @@ import mongoose from 'mongoose';
 import jwt from 'jsonwebtoken';
 import { userModel } from '../../../src/models/user.model';
 import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
 import path from 'path';
 
 // Load test environment variables
@@ -55,6 +58,12 @@ describe('Mocked PUT /api/tickets/crossedOff/:id', () => {
     });
   });
 
+  // Tickets are unlocked and not in a challenge unless a test says otherwise
+  beforeEach(() => {
+    jest.spyOn(challengeModel, 'findByTicket').mockResolvedValue([]);
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
   // Restore mocks after tests
   afterAll(() => {
     jest.restoreAllMocks();
@@ -67,6 +76,11 @@ describe('Mocked PUT /api/tickets/crossedOff/:id', () => {
   // Expected output: Error object with message
   test('Database throws when Ticket.findByIdAndUpdate fails', async () => {
     // Arrange: mock Ticket.findByIdAndUpdate to throw
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      isFinalized: false,
+    } as any);
     jest.spyOn(Ticket, 'findByIdAndUpdate').mockImplementationOnce(() => {
       throw new Error('Forced DB error');
     });
@@ -98,6 +112,7 @@ describe('Mocked PUT /api/tickets/crossedOff/:id', () => {
       noColumns: 0,
       noCrosses: 2,
       total: crossedOff.filter(Boolean).length + 2 * 3,
+      weightedTotal: crossedOff.filter(Boolean).length + 2 * 3,
     };
     expect(Ticket.findByIdAndUpdate).toHaveBeenCalledWith(
       testTicketId,
@@ -107,6 +122,107 @@ describe('Mocked PUT /api/tickets/crossedOff/:id', () => {
     expect(res.body).toHaveProperty('error');
   });
 
+  // Mocked behavior: Ticket.findById returns a finalized ticket
+  // Input: valid ticket id and crossedOff array
+  // Expected status code: 409
+  // Expected behavior: finalized tickets are read-only, no update is made
+  // Expected output: Error message
+  test('Rejects updates to a finalized ticket', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      isFinalized: true,
+    } as any);
+    const updateSpy = jest.spyOn(Ticket, 'findByIdAndUpdate');
+    updateSpy.mockClear();
+
+    const res = await request(app)
+      .put(`/api/tickets/crossedOff/${testTicketId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ crossedOff: Array(9).fill(true) });
+
+    expect(res.status).toBe(409);
+    expect(res.body).toHaveProperty(
+      'message',
+      'Ticket is finalized and cannot be changed'
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: Ticket.findById returns a ticket whose game has started
+  // Input: valid ticket id and crossedOff array
+  // Expected status code: 409
+  // Expected behavior: manual changes stop at puck drop, no update is made
+  // Expected output: Error message
+  test('Rejects manual updates once the game starts', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      isFinalized: false,
+      game: { id: 2024020001, startTimeUTC: '2000-01-01T00:00:00Z' },
+    } as any);
+    const updateSpy = jest.spyOn(Ticket, 'findByIdAndUpdate');
+    updateSpy.mockClear();
+
+    const res = await request(app)
+      .put(`/api/tickets/crossedOff/${testTicketId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ crossedOff: Array(9).fill(true) });
+
+    expect(res.status).toBe(409);
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: challengeModel.findByTicket finds a challenge holding the ticket
+  // Input: valid ticket id and crossedOff array
+  // Expected status code: 409
+  // Expected behavior: challenge tickets are only scored by the evaluator
+  // Expected output: Error message
+  test('Rejects manual updates to a ticket entered in a challenge', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      isFinalized: false,
+    } as any);
+    jest
+      .spyOn(challengeModel, 'findByTicket')
+      .mockResolvedValueOnce([{ _id: 'challenge-1' }] as any);
+    const updateSpy = jest.spyOn(Ticket, 'findByIdAndUpdate');
+    updateSpy.mockClear();
+
+    const res = await request(app)
+      .put(`/api/tickets/crossedOff/${testTicketId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ crossedOff: Array(9).fill(true) });
+
+    expect(res.status).toBe(409);
+    expect(challengeModel.findByTicket).toHaveBeenCalledWith(
+      testUserId,
+      testTicketId
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Input: crossedOff array containing non-boolean entries
+  // Expected status code: 400
+  // Expected behavior: the ticket is never loaded or updated
+  // Expected output: Error message
+  test('Rejects crossedOff entries that are not booleans', async () => {
+    const findSpy = jest.spyOn(Ticket, 'findById');
+    findSpy.mockClear();
+
+    const res = await request(app)
+      .put(`/api/tickets/crossedOff/${testTicketId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        crossedOff: [1, 'yes', null, true, false, true, false, true, 0],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toHaveProperty('message', 'Invalid crossedOff format');
+    expect(findSpy).not.toHaveBeenCalled();
+  });
+
   // Test: computeTicketScore handles non-array input (covers score.util.ts line 22)
   // Input: Non-array value passed to computeTicketScore
   // Expected behavior: normalizeCrossedOff returns array of false
@@ -131,4 +247,63 @@ describe('Mocked PUT /api/tickets/crossedOff/:id', () => {
     expect(result4.noCrossedOff).toBe(0);
     expect(result4.total).toBe(0);
   });
+
+  // Mocked behavior: Ticket.findById returns a 4x4 ticket
+  // Input: crossedOff array sized for a 3x3 grid
+  // Expected status code: 400
+  // Expected behavior: crossedOff length must match the ticket's grid size
+  // Expected output: Error message naming the expected length
+  test('Rejects crossedOff that does not match the grid size', async () => {
+    jest.spyOn(Ticket, 'findById').mockResolvedValueOnce({
+      _id: testTicketId,
+      userId: testUserId,
+      gridSize: 4,
+      isFinalized: false,
+    } as any);
+    const updateSpy = jest.spyOn(Ticket, 'findByIdAndUpdate');
+    updateSpy.mockClear();
+
+    const res = await request(app)
+      .put(`/api/tickets/crossedOff/${testTicketId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ crossedOff: Array(9).fill(true) });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toHaveProperty(
+      'message',
+      'crossedOff must have 16 entries'
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Test: computeTicketScore detects lines on 4x4 and 5x5 grids
+  // Input: crossedOff arrays with a row, a column and both diagonals
+  // Expected output: line counts and full-card bonus sized to the grid
+  test('computeTicketScore supports larger grids', () => {
+    const { computeTicketScore } = require('../../../src/utils/score.util');
+
+    // 4x4: first row + last column
+    const grid4 = Array(16).fill(false);
+    [0, 1, 2, 3, 7, 11, 15].forEach(i => (grid4[i] = true));
+    expect(computeTicketScore(grid4, 4)).toEqual({
+      noCrossedOff: 7,
+      noRows: 1,
+      noColumns: 1,
+      noCrosses: 0,
+      total: 7 + 2 * 3,
+      weightedTotal: 7 + 2 * 3,
+    });
+
+    // 5x5: both diagonals
+    const grid5 = Array(25).fill(false);
+    [0, 6, 12, 18, 24, 4, 8, 16, 20].forEach(i => (grid5[i] = true));
+    const diagonals = computeTicketScore(grid5, 5);
+    expect(diagonals.noCrosses).toBe(2);
+    expect(diagonals.noRows + diagonals.noColumns).toBe(0);
+
+    // Full 4x4 card: 4 rows, 4 columns, 2 diagonals and the bonus
+    expect(computeTicketScore(Array(16).fill(true), 4).total).toBe(
+      16 + 10 * 3 + 10
+    );
+  });
 });
@@ -0,0 +1,194 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import mongoose from 'mongoose';
+import { Ticket } from '../../../src/models/tickets.model';
+import { challengeResultsModel } from '../../../src/models/challengeResults.model';
+import { leaderboardService } from '../../../src/services/leaderboard.service';
+import { ticketEvaluatorService } from '../../../src/services/ticketEvaluator.service';
+import {
+  ChallengeFinalizationService,
+  challengeFinalizationService,
+} from '../../../src/services/challengeFinalization.service';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { challengeStatusService } from '../../../src/services/challengeStatus.service';
+import { GameStatusSyncJob } from '../../../src/jobs/gameStatusSync.job';
+import { LeaderboardEntry } from '../../../src/types/challenges.types';
+
+const makeEntry = (
+  userId: string,
+  rank: number,
+  total: number,
+  ticketId: string | null
+): LeaderboardEntry => ({
+  rank,
+  userId,
+  name: userId,
+  ticketId,
+  score: { noCrossedOff: 0, noRows: 0, noColumns: 0, noCrosses: 0, total },
+  tieBreak: { lines: 0, squares: 0, tied: false },
+});
+
+describe('Mocked ChallengeFinalizationService', () => {
+  const challenge = {
+    id: 'challenge-1',
+    title: 'Friday Night',
+    gameId: '2024020100',
+    memberIds: ['a', 'b', 'c', 'd', 'e'],
+  } as any;
+  let service: ChallengeFinalizationService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    service = new ChallengeFinalizationService();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: no stored result, leaderboard with a tie for 1st and a member without a ticket
+  // Input: finished challenge
+  // Expected behavior: tickets are re-evaluated then locked, co-winners and podium are stored
+  // Expected output: result with two winners and a three-entry podium
+  test('Stores winners, podium and locks member tickets', async () => {
+    const ticketIds = [1, 2, 3, 4].map(() =>
+      new mongoose.Types.ObjectId().toString()
+    );
+    jest
+      .spyOn(challengeResultsModel, 'findByChallengeId')
+      .mockResolvedValueOnce(null);
+    const evaluateSpy = jest
+      .spyOn(ticketEvaluatorService, 'evaluateGame')
+      .mockResolvedValueOnce(0);
+    jest
+      .spyOn(leaderboardService, 'getLeaderboard')
+      .mockResolvedValueOnce([
+        makeEntry('a', 1, 12, ticketIds[0]),
+        makeEntry('b', 1, 12, ticketIds[1]),
+        makeEntry('c', 3, 8, ticketIds[2]),
+        makeEntry('d', 4, 2, ticketIds[3]),
+        makeEntry('e', 5, 0, null),
+      ]);
+    const updateManySpy = jest
+      .spyOn(Ticket, 'updateMany')
+      .mockResolvedValueOnce({} as any);
+    const createSpy = jest
+      .spyOn(challengeResultsModel, 'create')
+      .mockImplementationOnce(async data => data);
+
+    const result = await service.finalize(challenge);
+
+    expect(evaluateSpy).toHaveBeenCalledWith('2024020100');
+    expect(updateManySpy).toHaveBeenCalledWith(
+      { _id: { $in: ticketIds } },
+      { isFinalized: true }
+    );
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(result.winnerIds).toEqual(['a', 'b']);
+    expect(result.podium.map(e => e.userId)).toEqual(['a', 'b', 'c']);
+    expect(result.standings).toHaveLength(5);
+  });
+
+  // Mocked behavior: a result already exists for the challenge
+  // Input: finished challenge
+  // Expected behavior: nothing is recomputed or written
+  // Expected output: the stored result
+  test('Returns the existing result when already finalized', async () => {
+    const stored = {
+      challengeId: 'challenge-1',
+      gameId: '2024020100',
+      standings: [],
+      winnerIds: ['a'],
+      podium: [],
+      finalizedAt: new Date(),
+    };
+    jest
+      .spyOn(challengeResultsModel, 'findByChallengeId')
+      .mockResolvedValueOnce(stored);
+    const createSpy = jest.spyOn(challengeResultsModel, 'create');
+
+    const result = await service.finalize(challenge);
+
+    expect(result).toBe(stored);
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('Mocked finalization retries', () => {
+  const challenge = (id: string) =>
+    ({
+      id,
+      title: 'Friday Night',
+      gameId: '2024020100',
+      status: 'finished',
+      memberIds: ['a'],
+    }) as any;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: the status is written but finalizing throws
+  // Input: live challenge, target 'finished'
+  // Expected behavior: the transition still reports success, leaving the
+  //        result for the sync job to create
+  test('A failed finalize does not undo the finished status', async () => {
+    jest
+      .spyOn(challengeModel, 'updateStatus')
+      .mockResolvedValueOnce(challenge('challenge-1'));
+    jest
+      .spyOn(challengeFinalizationService, 'finalize')
+      .mockRejectedValueOnce(new Error('NHL API down'));
+
+    const result = await challengeStatusService.transition(
+      'challenge-1',
+      'finished'
+    );
+
+    expect(result.success).toBe(true);
+  });
+
+  // Mocked behavior: two finished challenges have no stored result; the
+  //        first one fails to finalize again
+  // Input: a sync job pass over unfinalized challenges
+  // Expected behavior: each one is finalized, one failure does not stop the rest
+  test('The sync job finalizes finished challenges without a result', async () => {
+    jest
+      .spyOn(challengeModel, 'findUnfinalized')
+      .mockResolvedValueOnce([
+        challenge('challenge-1'),
+        challenge('challenge-2'),
+      ]);
+    const finalizeSpy = jest
+      .spyOn(challengeFinalizationService, 'finalize')
+      .mockRejectedValueOnce(new Error('NHL API down'))
+      .mockResolvedValueOnce({} as any);
+
+    await new GameStatusSyncJob().finalizeUnfinalized();
+
+    expect(finalizeSpy.mock.calls.map(([c]) => c.id)).toEqual([
+      'challenge-1',
+      'challenge-2',
+    ]);
+  });
+});
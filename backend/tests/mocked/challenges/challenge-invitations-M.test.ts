@@ -0,0 +1,551 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { challengeInvitationsModel } from '../../../src/models/challengeInvitations.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import SocketEvents from '../../../src/utils/socket.events';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Interface /api/challenges/invitations, /:id/join, /:id/decline and /:id/invitations/:userId
+describe('Mocked challenge invitations', () => {
+  let authToken: string;
+  let testUserId: string;
+  const ownerId = new mongoose.Types.ObjectId().toString();
+  const friendId = new mongoose.Types.ObjectId().toString();
+
+  const challenge = (overrides: object = {}) => ({
+    id: 'challenge-1',
+    title: 'Rivalry night',
+    ownerId,
+    gameId: '2024020100',
+    status: 'pending',
+    memberIds: [ownerId],
+    memberNames: ['Owner'],
+    invitedUserIds: [testUserId],
+    invitedUserNames: ['Mock User'],
+    ticketIds: {},
+    ...overrides,
+  });
+
+  const invitation = (overrides: object = {}) => ({
+    challengeId: 'challenge-1',
+    invitedUserId: testUserId,
+    invitedUserName: 'Mock User',
+    invitedByUserId: ownerId,
+    status: 'pending',
+    expiresAt: new Date(Date.now() + 60000).toISOString(),
+    resendCount: 0,
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        id: id.toString(),
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The ticket is the user's own for the challenge's game
+    jest
+      .spyOn(challengeModel, 'findEntryTicket')
+      .mockResolvedValue({ game: {} as any });
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+    jest.spyOn(challengeInvitationsModel, 'expireStale').mockResolvedValue([]);
+    jest.spyOn(challengeInvitationsModel, 'findOpen').mockResolvedValue(null);
+    jest.spyOn(challengeInvitationsModel, 'findOne').mockResolvedValue(null);
+    // Echo whatever invited users the service mirrors onto the challenge
+    jest
+      .spyOn(challengeModel, 'setInvitedUsers')
+      .mockImplementation(
+        async (_id, invitedUserIds, invitedUserNames) =>
+          challenge({ invitedUserIds, invitedUserNames }) as any
+      );
+    // Once nobody is left to answer, the pending challenge becomes active
+    jest
+      .spyOn(challengeModel, 'updateStatus')
+      .mockImplementation(
+        async (_id, status) =>
+          challenge({ invitedUserIds: [], invitedUserNames: [], status }) as any
+      );
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: one stale invitation is expired first; the user has one open
+  //        and one declined invitation
+  // Input: none
+  // Expected status code: 200
+  // Expected behavior: the expired invitation's challenge is resynced; entries carry
+  //        their challenge, grouped into pending and history
+  // Expected output: { pending, history }
+  test('Lists the inbox with pending invitations and history', async () => {
+    const expireSpy = jest
+      .spyOn(challengeInvitationsModel, 'expireStale')
+      .mockResolvedValueOnce(['challenge-old']);
+    const openSpy = jest
+      .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+      .mockResolvedValueOnce([]);
+    jest
+      .spyOn(challengeInvitationsModel, 'findByUser')
+      .mockResolvedValueOnce([
+        invitation(),
+        invitation({ challengeId: 'challenge-2', status: 'declined' }),
+      ] as any);
+    jest
+      .spyOn(challengeModel, 'findByIds')
+      .mockResolvedValueOnce([challenge()] as any);
+
+    const res = await request(app)
+      .get('/api/challenges/invitations')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(expireSpy).toHaveBeenCalledWith({ userId: testUserId });
+    expect(openSpy).toHaveBeenCalledWith('challenge-old');
+    expect(challengeModel.setInvitedUsers).toHaveBeenCalledWith(
+      'challenge-old',
+      [],
+      []
+    );
+    expect(res.body.total).toBe(2);
+    expect(res.body.data.pending).toEqual([
+      expect.objectContaining({
+        challengeId: 'challenge-1',
+        challenge: expect.objectContaining({ title: 'Rivalry night' }),
+      }),
+    ]);
+    expect(res.body.data.history).toEqual([
+      expect.objectContaining({ status: 'declined', challenge: null }),
+    ]);
+  });
+
+  // Input: unknown status filter
+  // Expected status code: 400
+  // Expected output: validation message
+  test('Rejects an unknown status filter', async () => {
+    const res = await request(app)
+      .get('/api/challenges/invitations')
+      .query({ status: 'maybe' })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Invalid invitation status');
+  });
+
+  // Mocked behavior: the user's invitation is open and is the last one
+  // Input: decline request
+  // Expected status code: 200
+  // Expected behavior: invitation marked declined, invited arrays rebuilt from
+  //        the remaining open invitations, and the challenge becomes active
+  // Expected output: active challenge with no invited users
+  test('Declining closes the invitation and resyncs the challenge', async () => {
+    const respondSpy = jest
+      .spyOn(challengeInvitationsModel, 'respond')
+      .mockResolvedValueOnce(invitation({ status: 'declined' }) as any);
+    jest
+      .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+      .mockResolvedValueOnce([]);
+    const socketSpy = jest.spyOn(SocketEvents, 'invitationDeclined');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/decline')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(respondSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      testUserId,
+      'declined'
+    );
+    expect(res.body.data.invitedUserIds).toEqual([]);
+    expect(challengeModel.updateStatus).toHaveBeenCalledWith(
+      'challenge-1',
+      'active',
+      ['pending'],
+      {}
+    );
+    expect(res.body.data.status).toBe('active');
+    expect(socketSpy).toHaveBeenCalled();
+  });
+
+  // Mocked behavior: no open invitation (never invited, answered or expired)
+  // Input: decline request
+  // Expected status code: 400
+  // Expected behavior: the challenge is not touched
+  test('Cannot decline without an open invitation', async () => {
+    jest
+      .spyOn(challengeInvitationsModel, 'respond')
+      .mockResolvedValueOnce(null);
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/decline')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(400);
+    expect(challengeModel.setInvitedUsers).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the invited user joins with a ticket
+  // Input: join request
+  // Expected status code: 200
+  // Expected behavior: invitation marked accepted and the user leaves the invited list
+  // Expected output: challenge with the user as a member
+  test('Joining accepts the invitation', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    jest
+      .spyOn(challengeInvitationsModel, 'findOpen')
+      .mockResolvedValueOnce(invitation() as any);
+    jest.spyOn(challengeModel, 'joinChallenge').mockResolvedValueOnce(
+      challenge({
+        memberIds: [ownerId, testUserId],
+      }) as any
+    );
+    const respondSpy = jest
+      .spyOn(challengeInvitationsModel, 'respond')
+      .mockResolvedValueOnce(invitation({ status: 'accepted' }) as any);
+    jest
+      .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+      .mockResolvedValueOnce([]);
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/join')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ticketId: 'ticket-1' });
+
+    expect(res.status).toBe(200);
+    expect(respondSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      testUserId,
+      'accepted'
+    );
+    expect(res.body.data.invitedUserIds).toEqual([]);
+  });
+
+  // Mocked behavior: the user is still mirrored as invited to the private
+  //        challenge, but the invitation has expired
+  // Input: join request
+  // Expected status code: 403
+  // Expected behavior: the open invitation is looked up; nobody joins
+  test('An expired invitation does not let the user join', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const joinSpy = jest.spyOn(challengeModel, 'joinChallenge');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/join')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ticketId: 'ticket-1' });
+
+    expect(res.status).toBe(403);
+    expect(challengeInvitationsModel.findOpen).toHaveBeenCalledWith(
+      'challenge-1',
+      testUserId
+    );
+    expect(joinSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the Challenge collection update is captured
+  // Input: the invited user joins
+  // Expected behavior: seats held by other users' open invitations count
+  //        against the limit, the joining user's own invitation does not
+  test('Joining counts seats held by other invitations', async () => {
+    jest
+      .spyOn(mongoose.model('User'), 'findOne')
+      .mockResolvedValueOnce({ name: 'Mock User' });
+    const updateSpy = jest
+      .spyOn(mongoose.model('Challenge'), 'findOneAndUpdate')
+      .mockResolvedValueOnce(challenge() as any);
+
+    await challengeModel.joinChallenge('challenge-1', testUserId, 'ticket-1');
+
+    const filter = updateSpy.mock.calls[0][0] as any;
+    expect(filter.$or[1].$expr).toEqual({
+      $lt: [
+        {
+          $add: [
+            { $size: '$memberIds' },
+            { $size: { $setDifference: ['$invitedUserIds', [testUserId]] } },
+          ],
+        },
+        '$maxMembers',
+      ],
+    });
+  });
+
+  describe('as the challenge owner', () => {
+    let ownerToken: string;
+
+    beforeAll(() => {
+      ownerToken = jwt.sign(
+        { id: ownerId },
+        process.env.JWT_SECRET || 'test-secret'
+      );
+    });
+
+    // Mocked behavior: the friend's invitation expired
+    // Input: resend request
+    // Expected status code: 200
+    // Expected behavior: fresh expiry, invitee notified again and back in the invited list
+    // Expected output: updated challenge
+    test('Resends an expired invitation', async () => {
+      jest
+        .spyOn(challengeModel, 'findById')
+        .mockResolvedValueOnce(challenge({ invitedUserIds: [] }) as any);
+      jest
+        .spyOn(challengeInvitationsModel, 'findOne')
+        .mockResolvedValue(
+          invitation({ invitedUserId: friendId, status: 'expired' }) as any
+        );
+      const reserveSpy = jest
+        .spyOn(challengeModel, 'reserveInvitations')
+        .mockResolvedValueOnce(
+          challenge({ invitedUserIds: [friendId] }) as any
+        );
+      const resendSpy = jest
+        .spyOn(challengeInvitationsModel, 'resend')
+        .mockResolvedValueOnce(
+          invitation({ invitedUserId: friendId, resendCount: 1 }) as any
+        );
+      jest
+        .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+        .mockResolvedValueOnce([
+          invitation({ invitedUserId: friendId, invitedUserName: 'Friend' }),
+        ] as any);
+      const socketSpy = jest.spyOn(SocketEvents, 'usersInvited');
+
+      const res = await request(app)
+        .post(`/api/challenges/challenge-1/invitations/${friendId}/resend`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(res.status).toBe(200);
+      expect(reserveSpy).toHaveBeenCalledWith('challenge-1', [friendId]);
+      expect(resendSpy).toHaveBeenCalledWith('challenge-1', friendId);
+      expect(socketSpy).toHaveBeenCalledWith(
+        'challenge-1',
+        [friendId],
+        expect.anything()
+      );
+      expect(res.body.data).toMatchObject({
+        invitedUserIds: [friendId],
+        invitedUserNames: ['Friend'],
+      });
+    });
+
+    // Mocked behavior: the friend's invitation expired; 2 members and 1 open
+    //        invitation out of 3 seats, then a seat is taken while resending
+    // Input: resend request twice
+    // Expected status code: 400, then 409
+    // Expected behavior: the invitation is not reopened
+    test('Resending an expired invitation needs a free seat', async () => {
+      jest
+        .spyOn(challengeModel, 'findById')
+        .mockResolvedValueOnce(
+          challenge({
+            memberIds: [ownerId, 'member-2'],
+            invitedUserIds: ['invited-1'],
+            maxMembers: 3,
+          }) as any
+        )
+        .mockResolvedValueOnce(
+          challenge({ memberIds: [ownerId], maxMembers: 3 }) as any
+        );
+      jest
+        .spyOn(challengeInvitationsModel, 'findOne')
+        .mockResolvedValue(
+          invitation({ invitedUserId: friendId, status: 'expired' }) as any
+        );
+      const reserveSpy = jest
+        .spyOn(challengeModel, 'reserveInvitations')
+        .mockResolvedValueOnce(null);
+      const resendSpy = jest.spyOn(challengeInvitationsModel, 'resend');
+
+      const full = await request(app)
+        .post(`/api/challenges/challenge-1/invitations/${friendId}/resend`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(full.status).toBe(400);
+      expect(full.body.message).toBe(
+        'Challenge is limited to 3 members, including pending invitations'
+      );
+      expect(reserveSpy).not.toHaveBeenCalled();
+
+      const raced = await request(app)
+        .post(`/api/challenges/challenge-1/invitations/${friendId}/resend`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+      expect(raced.status).toBe(409);
+      expect(reserveSpy).toHaveBeenCalledWith('challenge-1', [friendId]);
+
+      expect(resendSpy).not.toHaveBeenCalled();
+    });
+
+    // Mocked behavior: the friend has an open invitation
+    // Input: revoke request
+    // Expected status code: 200
+    // Expected behavior: invitation marked revoked and the invitee notified
+    // Expected output: challenge without the invitee
+    test('Revokes a pending invitation', async () => {
+      jest
+        .spyOn(challengeModel, 'findById')
+        .mockResolvedValueOnce(
+          challenge({ invitedUserIds: [friendId] }) as any
+        );
+      const respondSpy = jest
+        .spyOn(challengeInvitationsModel, 'respond')
+        .mockResolvedValueOnce(invitation({ status: 'revoked' }) as any);
+      jest
+        .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+        .mockResolvedValueOnce([]);
+      const socketSpy = jest.spyOn(SocketEvents, 'invitationRevoked');
+
+      const res = await request(app)
+        .delete(`/api/challenges/challenge-1/invitations/${friendId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(res.status).toBe(200);
+      expect(respondSpy).toHaveBeenCalledWith(
+        'challenge-1',
+        friendId,
+        'revoked'
+      );
+      expect(socketSpy).toHaveBeenCalledWith(
+        'challenge-1',
+        friendId,
+        expect.anything()
+      );
+      expect(res.body.data.invitedUserIds).toEqual([]);
+    });
+
+    // Mocked behavior: no open invitation for the user
+    // Input: revoke request
+    // Expected status code: 404
+    test('Cannot revoke a missing invitation', async () => {
+      jest
+        .spyOn(challengeModel, 'findById')
+        .mockResolvedValueOnce(challenge() as any);
+      jest
+        .spyOn(challengeInvitationsModel, 'respond')
+        .mockResolvedValueOnce(null);
+
+      const res = await request(app)
+        .delete(`/api/challenges/challenge-1/invitations/${friendId}`)
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(res.status).toBe(404);
+    });
+
+    // Mocked behavior: the pending challenge still has an open invitation
+    // Input: PATCH { status: 'cancelled' }
+    // Expected status code: 200
+    // Expected behavior: every open invitation is revoked and the invited list cleared
+    // Expected output: cancelled challenge with nobody invited
+    test('Cancelling revokes every open invitation', async () => {
+      jest
+        .spyOn(challengeModel, 'findById')
+        .mockResolvedValueOnce(challenge() as any);
+      const closeSpy = jest
+        .spyOn(challengeInvitationsModel, 'closeAll')
+        .mockResolvedValueOnce();
+      jest
+        .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+        .mockResolvedValueOnce([]);
+      jest
+        .spyOn(challengeModel, 'setInvitedUsers')
+        .mockResolvedValueOnce(
+          challenge({ invitedUserIds: [], status: 'cancelled' }) as any
+        );
+
+      const res = await request(app)
+        .patch('/api/challenges/challenge-1/status')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ status: 'cancelled' });
+
+      expect(res.status).toBe(200);
+      expect(closeSpy).toHaveBeenCalledWith('challenge-1', 'revoked');
+      expect(res.body.data.status).toBe('cancelled');
+      expect(res.body.data.invitedUserIds).toEqual([]);
+    });
+
+    // Mocked behavior: the challenge still has an open invitation
+    // Input: DELETE /api/challenges/:id
+    // Expected status code: 200
+    // Expected behavior: the invitation is revoked so it leaves the invitee's inbox
+    test('Deleting revokes every open invitation', async () => {
+      jest
+        .spyOn(challengeModel, 'findById')
+        .mockResolvedValueOnce(challenge() as any);
+      jest.spyOn(challengeModel, 'delete').mockResolvedValueOnce();
+      const closeSpy = jest
+        .spyOn(challengeInvitationsModel, 'closeAll')
+        .mockResolvedValueOnce();
+      jest
+        .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+        .mockResolvedValueOnce([]);
+      jest.spyOn(challengeModel, 'setInvitedUsers').mockResolvedValueOnce(null);
+
+      const res = await request(app)
+        .delete('/api/challenges/challenge-1')
+        .set('Authorization', `Bearer ${ownerToken}`);
+
+      expect(res.status).toBe(200);
+      expect(closeSpy).toHaveBeenCalledWith('challenge-1', 'revoked');
+    });
+  });
+
+  // Mocked behavior: the caller does not own the challenge
+  // Input: resend request
+  // Expected status code: 403
+  test('Only the owner can resend or revoke', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const resendSpy = jest.spyOn(challengeInvitationsModel, 'resend');
+
+    const res = await request(app)
+      .post(`/api/challenges/challenge-1/invitations/${friendId}/resend`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(403);
+    expect(resendSpy).not.toHaveBeenCalled();
+  });
+});
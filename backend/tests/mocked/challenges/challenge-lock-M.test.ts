@@ -0,0 +1,194 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { GameStatus, nhlService } from '../../../src/services/nhl.service';
+import { gameLockService } from '../../../src/services/gameLock.service';
+import { challengeInvitationService } from '../../../src/services/challengeInvitation.service';
+import { makeStatus } from '../../res/fixtures';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const HOUR = 60 * 60 * 1000;
+
+// Status of the challenge's game, starting startOffsetMs from now
+const statusStartingIn = (
+  startOffsetMs: number,
+  overrides: Partial<GameStatus> = {}
+): GameStatus =>
+  makeStatus('2024020100', {
+    startTimeUTC: new Date(Date.now() + startOffsetMs).toISOString(),
+    ...overrides,
+  });
+
+// Interface POST /api/challenges/:id/join and /leave
+describe('Mocked challenge lock at puck drop', () => {
+  let authToken: string;
+  let testUserId: string;
+
+  const challenge = {
+    id: 'challenge-1',
+    ownerId: 'owner-1',
+    gameId: '2024020100',
+    status: 'active',
+    visibility: 'public', // Anyone may join by ID
+    memberIds: ['owner-1'],
+    invitedUserIds: [],
+    ticketIds: { 'owner-1': 'ticket-owner' },
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        id: id.toString(),
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The ticket is the user's own for the challenge's game
+    jest
+      .spyOn(challengeModel, 'findEntryTicket')
+      .mockResolvedValue({ game: {} as any });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: game status is LIVE
+  // Input: join request with a ticket
+  // Expected status code: 409
+  // Expected behavior: membership is not changed
+  // Expected output: lock error message
+  test('Rejects joining once the game is live', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge as any);
+    jest
+      .spyOn(nhlService, 'getGameStatus')
+      .mockResolvedValueOnce(statusStartingIn(-HOUR, { isLive: true }));
+    const joinSpy = jest.spyOn(challengeModel, 'joinChallenge');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/join')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ticketId: 'ticket-1' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe(
+      'Challenge is locked because the game has started'
+    );
+    expect(joinSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: NHL API unavailable, stored start time has passed
+  // Input: leave request
+  // Expected status code: 409
+  // Expected behavior: falls back to the stored start time
+  // Expected output: lock error message
+  test('Rejects leaving after the stored start time', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce({
+      ...challenge,
+      gameStartTime: new Date(Date.now() - 5 * 60 * 1000),
+    } as any);
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValueOnce(null);
+    const leaveSpy = jest.spyOn(challengeModel, 'leaveChallenge');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/leave')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(409);
+    expect(leaveSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: game starts in an hour
+  // Input: join request with a ticket
+  // Expected status code: 200
+  // Expected behavior: user joins and the response carries the lock state
+  // Expected output: challenge with isLocked=false and lockedAt=puck drop
+  test('Allows joining before puck drop and reports lock state', async () => {
+    const status = statusStartingIn(HOUR);
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge as any);
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(status);
+    jest.spyOn(challengeModel, 'joinChallenge').mockResolvedValueOnce({
+      ...challenge,
+      memberIds: ['owner-1', testUserId],
+    } as any);
+    jest
+      .spyOn(challengeInvitationService, 'accept')
+      .mockResolvedValueOnce(null);
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/join')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ticketId: 'ticket-1' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      id: 'challenge-1',
+      isLocked: false,
+      lockedAt: status.startTimeUTC,
+    });
+  });
+
+  // Input: game statuses around puck drop
+  // Expected behavior: locked when live, finished or past the start time
+  // Expected output: lock state per status
+  test('Resolves lock state from game status and start time', () => {
+    expect(
+      gameLockService.resolveLockState(statusStartingIn(HOUR))
+    ).toMatchObject({
+      isLocked: false,
+    });
+    expect(
+      gameLockService.resolveLockState(statusStartingIn(-60000))
+    ).toMatchObject({
+      isLocked: true,
+    });
+    // Live early (e.g. schedule moved up) still locks
+    expect(
+      gameLockService.resolveLockState(statusStartingIn(HOUR, { isLive: true }))
+    ).toMatchObject({ isLocked: true });
+    expect(gameLockService.resolveLockState(null)).toEqual({
+      isLocked: false,
+      lockedAt: null,
+    });
+  });
+});
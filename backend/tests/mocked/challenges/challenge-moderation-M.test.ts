@@ -0,0 +1,232 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import SocketEvents from '../../../src/utils/socket.events';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Interface POST /api/challenges/:id/members/:userId/remove and /transfer-ownership
+describe('Mocked challenge moderation', () => {
+  let authToken: string;
+  let testUserId: string;
+  const memberId = new mongoose.Types.ObjectId().toString();
+
+  const challenge = (overrides: object = {}) => ({
+    id: 'challenge-1',
+    title: 'Rivalry night',
+    ownerId: testUserId,
+    gameId: '2024020100',
+    status: 'active',
+    memberIds: [testUserId, memberId],
+    memberNames: ['Mock User', 'Member'],
+    invitedUserIds: [],
+    invitedUserNames: [],
+    ticketIds: { [testUserId]: 'ticket-owner', [memberId]: 'ticket-member' },
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        id: id.toString(),
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: active challenge before puck drop; removal succeeds
+  // Input: member ID
+  // Expected status code: 200
+  // Expected behavior: member and ticket removed, removed user notified
+  // Expected output: challenge without the member
+  test('Owner removes a member and their ticket', async () => {
+    const updated = challenge({
+      memberIds: [testUserId],
+      memberNames: ['Mock User'],
+      ticketIds: { [testUserId]: 'ticket-owner' },
+    });
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const removeSpy = jest
+      .spyOn(challengeModel, 'removeMember')
+      .mockResolvedValueOnce(updated as any);
+    const socketSpy = jest.spyOn(SocketEvents, 'memberRemoved');
+
+    const res = await request(app)
+      .post(`/api/challenges/challenge-1/members/${memberId}/remove`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(removeSpy).toHaveBeenCalledWith('challenge-1', memberId);
+    expect(socketSpy).toHaveBeenCalledWith('challenge-1', memberId, updated);
+    expect(res.body.data.memberIds).toEqual([testUserId]);
+    expect(res.body.data.ticketIds).not.toHaveProperty(memberId);
+  });
+
+  // Mocked behavior: the challenge is live
+  // Input: member ID
+  // Expected status code: 409
+  // Expected behavior: membership is not changed
+  test('Members cannot be removed once the challenge is live', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ status: 'live' }) as any);
+    const removeSpy = jest.spyOn(challengeModel, 'removeMember');
+
+    const res = await request(app)
+      .post(`/api/challenges/challenge-1/members/${memberId}/remove`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(409);
+    expect(removeSpy).not.toHaveBeenCalled();
+  });
+
+  // Input: the owner's own ID, then someone who is not a member
+  // Expected status code: 400, then 404
+  // Expected behavior: nothing is removed
+  test('Rejects removing the owner or a non-member', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any)
+      .mockResolvedValueOnce(challenge() as any);
+    const removeSpy = jest.spyOn(challengeModel, 'removeMember');
+
+    const self = await request(app)
+      .post(`/api/challenges/challenge-1/members/${testUserId}/remove`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(self.status).toBe(400);
+
+    const stranger = await request(app)
+      .post('/api/challenges/challenge-1/members/someone-else/remove')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(stranger.status).toBe(404);
+
+    expect(removeSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the caller is a member but not the owner
+  // Input: member ID
+  // Expected status code: 403
+  test('Only the owner can remove members', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ ownerId: memberId }) as any);
+
+    const res = await request(app)
+      .post(`/api/challenges/challenge-1/members/${memberId}/remove`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  // Mocked behavior: live challenge; transfer succeeds
+  // Input: { newOwnerId: member }
+  // Expected status code: 200
+  // Expected behavior: the member becomes owner; both users notified
+  // Expected output: challenge with the new owner
+  test('Owner transfers ownership to a member', async () => {
+    const updated = challenge({ status: 'live', ownerId: memberId });
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ status: 'live' }) as any);
+    const transferSpy = jest
+      .spyOn(challengeModel, 'transferOwnership')
+      .mockResolvedValueOnce(updated as any);
+    const socketSpy = jest.spyOn(SocketEvents, 'ownershipTransferred');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/transfer-ownership')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ newOwnerId: memberId });
+
+    expect(res.status).toBe(200);
+    expect(transferSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      testUserId,
+      memberId
+    );
+    expect(socketSpy).toHaveBeenCalledWith('challenge-1', testUserId, updated);
+    expect(res.body.data.ownerId).toBe(memberId);
+  });
+
+  // Input: a non-member, then a finished challenge
+  // Expected status code: 400, then 409
+  // Expected behavior: ownership is not changed
+  test('Rejects transfers to non-members or after the challenge ends', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any)
+      .mockResolvedValueOnce(challenge({ status: 'finished' }) as any);
+    const transferSpy = jest.spyOn(challengeModel, 'transferOwnership');
+
+    const stranger = await request(app)
+      .post('/api/challenges/challenge-1/transfer-ownership')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ newOwnerId: 'someone-else' });
+    expect(stranger.status).toBe(400);
+
+    const finished = await request(app)
+      .post('/api/challenges/challenge-1/transfer-ownership')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ newOwnerId: memberId });
+    expect(finished.status).toBe(409);
+
+    expect(transferSpy).not.toHaveBeenCalled();
+  });
+
+  // Input: empty body
+  // Expected status code: 400
+  // Expected output: validation error
+  test('Validates the transfer body', async () => {
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/transfer-ownership')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation error');
+  });
+});
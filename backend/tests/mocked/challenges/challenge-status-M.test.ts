@@ -0,0 +1,367 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { challengeFinalizationService } from '../../../src/services/challengeFinalization.service';
+import { challengeStatusService } from '../../../src/services/challengeStatus.service';
+import { challengeInvitationService } from '../../../src/services/challengeInvitation.service';
+import SocketEvents from '../../../src/utils/socket.events';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Interface PATCH /api/challenges/:id/status, PUT /api/challenges/:id and ChallengeStatusService
+describe('Mocked challenge status transitions', () => {
+  let authToken: string;
+  let testUserId: string;
+
+  const challenge = (overrides: object = {}) => ({
+    id: 'challenge-1',
+    title: 'Rivalry night',
+    ownerId: testUserId,
+    gameId: '2024020100',
+    status: 'active',
+    memberIds: [testUserId],
+    memberNames: ['Mock User'],
+    invitedUserIds: [],
+    invitedUserNames: [],
+    ticketIds: {},
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        id: id.toString(),
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: the owner's challenge is active and the update matches
+  // Input: { status: 'cancelled' }
+  // Expected status code: 200
+  // Expected behavior: only a pending or active challenge may be cancelled;
+  //        members are notified and open invitations revoked
+  // Expected output: cancelled challenge
+  test('Applies a legal transition', async () => {
+    const cancelled = challenge({ status: 'cancelled' });
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const updateSpy = jest
+      .spyOn(challengeModel, 'updateStatus')
+      .mockResolvedValueOnce(cancelled as any);
+    const finalizeSpy = jest.spyOn(challengeFinalizationService, 'finalize');
+    const socketSpy = jest.spyOn(SocketEvents, 'challengeStatusChanged');
+    const revokeSpy = jest
+      .spyOn(challengeInvitationService, 'revokeAll')
+      .mockResolvedValueOnce(cancelled as any);
+
+    const res = await request(app)
+      .patch('/api/challenges/challenge-1/status')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'cancelled' });
+
+    expect(res.status).toBe(200);
+    expect(updateSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      'cancelled',
+      ['pending', 'active'],
+      {}
+    );
+    expect(socketSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      'cancelled',
+      cancelled
+    );
+    expect(finalizeSpy).not.toHaveBeenCalled();
+    expect(revokeSpy).toHaveBeenCalledWith('challenge-1');
+    expect(res.body.data.status).toBe('cancelled');
+  });
+
+  // Mocked behavior: the challenge has already finished
+  // Input: { status: 'active' }
+  // Expected status code: 409
+  // Expected behavior: status is not changed, nobody is notified
+  // Expected output: message naming both statuses
+  test('Rejects going backwards from finished', async () => {
+    jest.spyOn(challengeModel, 'updateStatus').mockResolvedValueOnce(null);
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValue(challenge({ status: 'finished' }) as any);
+    const socketSpy = jest.spyOn(SocketEvents, 'challengeStatusChanged');
+
+    const res = await request(app)
+      .patch('/api/challenges/challenge-1/status')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'active' });
+
+    expect(res.status).toBe(409);
+    expect(res.body).toEqual({
+      error: 'Conflict',
+      message: 'Cannot change challenge status from finished to active',
+    });
+    expect(socketSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the challenge is live
+  // Input: { status: 'cancelled' }
+  // Expected status code: 409
+  // Expected behavior: cancelling is only allowed before the game starts
+  test('Cannot cancel a live challenge', async () => {
+    const updateSpy = jest
+      .spyOn(challengeModel, 'updateStatus')
+      .mockResolvedValueOnce(null);
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValue(challenge({ status: 'live' }) as any);
+
+    const res = await request(app)
+      .patch('/api/challenges/challenge-1/status')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'cancelled' });
+
+    expect(res.status).toBe(409);
+    expect(updateSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      'cancelled',
+      ['pending', 'active'],
+      {}
+    );
+  });
+
+  // Input: unknown status, then a missing challenge
+  // Expected status code: 400, then 404
+  test('Validates the status and the challenge', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce(null);
+    const updateSpy = jest.spyOn(challengeModel, 'updateStatus');
+
+    const invalid = await request(app)
+      .patch('/api/challenges/challenge-1/status')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'paused' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.message).toBe('Invalid status value');
+
+    const missing = await request(app)
+      .patch('/api/challenges/missing/status')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'cancelled' });
+    expect(missing.status).toBe(404);
+
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the challenge belongs to someone else
+  // Input: { status: 'cancelled' }, then no token
+  // Expected status code: 403, then 401
+  // Expected behavior: status is not changed
+  test('Only the owner can change the status', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ ownerId: 'owner-2' }) as any);
+    const updateSpy = jest.spyOn(challengeModel, 'updateStatus');
+
+    const res = await request(app)
+      .patch('/api/challenges/challenge-1/status')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'cancelled' });
+    expect(res.status).toBe(403);
+    expect(res.body.message).toBe('Only challenge owner can change its status');
+
+    const anonymous = await request(app)
+      .patch('/api/challenges/challenge-1/status')
+      .send({ status: 'cancelled' });
+    expect(anonymous.status).toBe(401);
+
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the owner's challenge is live
+  // Input: PATCH { status: 'finished' }, then PUT { title, status: 'live' }
+  // Expected status code: 403
+  // Expected behavior: live and finished are left to the game status sync job,
+  //        and the other fields are left untouched
+  test('Owners cannot set live or finished by hand', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValue(challenge({ status: 'live' }) as any);
+    const statusSpy = jest.spyOn(challengeModel, 'updateStatus');
+    const updateSpy = jest.spyOn(challengeModel, 'update');
+
+    const finished = await request(app)
+      .patch('/api/challenges/challenge-1/status')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'finished' });
+    expect(finished.status).toBe(403);
+
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValue(challenge() as any);
+    const live = await request(app)
+      .put('/api/challenges/challenge-1')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Renamed', status: 'live' });
+    expect(live.status).toBe(403);
+
+    expect(statusSpy).not.toHaveBeenCalled();
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the owner edits a live challenge
+  // Input: { title, status: 'cancelled' }
+  // Expected status code: 409
+  // Expected behavior: PUT follows the transition table, and the other
+  //        fields are left untouched
+  test('PUT goes through the same transition table', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValue(challenge({ status: 'live' }) as any);
+    jest.spyOn(challengeModel, 'updateStatus').mockResolvedValueOnce(null);
+    const updateSpy = jest.spyOn(challengeModel, 'update');
+
+    const res = await request(app)
+      .put('/api/challenges/challenge-1')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Renamed', status: 'cancelled' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe(
+      'Cannot change challenge status from live to cancelled'
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the owner edits an active challenge and the update matches
+  // Input: { title, status: 'cancelled' }
+  // Expected status code: 200
+  // Expected behavior: the status and the other fields are written in one query
+  // Expected output: cancelled, renamed challenge
+  test('PUT writes the status and other fields together', async () => {
+    const cancelled = challenge({ title: 'Renamed', status: 'cancelled' });
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const statusSpy = jest
+      .spyOn(challengeModel, 'updateStatus')
+      .mockResolvedValueOnce(cancelled as any);
+    const updateSpy = jest.spyOn(challengeModel, 'update');
+    jest
+      .spyOn(challengeInvitationService, 'revokeAll')
+      .mockResolvedValueOnce(cancelled as any);
+
+    const res = await request(app)
+      .put('/api/challenges/challenge-1')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ title: 'Renamed', status: 'cancelled' });
+
+    expect(res.status).toBe(200);
+    expect(statusSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      'cancelled',
+      ['pending', 'active'],
+      { title: 'Renamed' }
+    );
+    expect(updateSpy).not.toHaveBeenCalled();
+    expect(res.body.data).toMatchObject({
+      title: 'Renamed',
+      status: 'cancelled',
+    });
+  });
+
+  // Mocked behavior: the game ended and the update matches
+  // Input: live challenge, target 'finished'
+  // Expected behavior: only a live challenge may be finished; members are
+  //        notified and the challenge is finalized
+  // Expected output: finished challenge
+  test('Finishing a live challenge finalizes it', async () => {
+    const finished = challenge({ status: 'finished' });
+    const updateSpy = jest
+      .spyOn(challengeModel, 'updateStatus')
+      .mockResolvedValueOnce(finished as any);
+    const finalizeSpy = jest
+      .spyOn(challengeFinalizationService, 'finalize')
+      .mockResolvedValueOnce({} as any);
+    const socketSpy = jest.spyOn(SocketEvents, 'challengeStatusChanged');
+
+    const result = await challengeStatusService.transition(
+      'challenge-1',
+      'finished'
+    );
+
+    expect(result.success).toBe(true);
+    expect(updateSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      'finished',
+      ['live'],
+      {}
+    );
+    expect(socketSpy).toHaveBeenCalledWith('challenge-1', 'finished', finished);
+    expect(finalizeSpy).toHaveBeenCalledWith(finished);
+  });
+
+  // Mocked behavior: the game went live while invitations were still open
+  // Input: pending challenge, target 'live'
+  // Expected behavior: the sync job walks pending → active → live
+  // Expected output: live challenge
+  test('advanceTo steps through each status in order', async () => {
+    const updateSpy = jest
+      .spyOn(challengeModel, 'updateStatus')
+      .mockImplementation(async (_id, status) => challenge({ status }) as any);
+
+    const result = await challengeStatusService.advanceTo(
+      challenge({ status: 'pending' }) as any,
+      'live'
+    );
+
+    expect(updateSpy.mock.calls).toEqual([
+      ['challenge-1', 'active', ['pending'], {}],
+      ['challenge-1', 'live', ['active'], {}],
+    ]);
+    expect(result).toMatchObject({
+      success: true,
+      challenge: { status: 'live' },
+    });
+  });
+});
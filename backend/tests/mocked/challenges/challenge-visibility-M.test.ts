@@ -0,0 +1,450 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { challengeInvitationsModel } from '../../../src/models/challengeInvitations.model';
+import { friendModel } from '../../../src/models/friends.model';
+import { challengeResultsModel } from '../../../src/models/challengeResults.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { challengeInvitationService } from '../../../src/services/challengeInvitation.service';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Interface GET /api/challenges, /discover, /:id, /:id/result, /game/:gameId, POST /join-by-code and /:id/join
+describe('Mocked challenge visibility and discovery', () => {
+  let authToken: string;
+  let testUserId: string;
+  const ownerId = new mongoose.Types.ObjectId().toString();
+
+  const challenge = (overrides: object = {}) => ({
+    id: 'challenge-1',
+    title: 'Rivalry night',
+    ownerId,
+    gameId: '2024020100',
+    status: 'active',
+    visibility: 'private',
+    joinCode: 'K7PQ2M',
+    teamAbbrevs: ['TOR', 'MTL'],
+    memberIds: [ownerId],
+    memberNames: ['Owner'],
+    invitedUserIds: [],
+    invitedUserNames: [],
+    maxMembers: 10,
+    ticketIds: {},
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        id: id.toString(),
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The ticket is the user's own for the challenge's game
+    jest
+      .spyOn(challengeModel, 'findEntryTicket')
+      .mockResolvedValue({ game: {} as any });
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+    jest.spyOn(friendModel, 'getFriendIds').mockResolvedValue([]);
+    jest.spyOn(challengeInvitationService, 'accept').mockResolvedValue(null);
+    jest.spyOn(challengeInvitationsModel, 'findOpen').mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: the user has one friend
+  // Input: page 2
+  // Expected status code: 200
+  // Expected behavior: the listing is limited to what the user can see
+  // Expected output: paginated challenges
+  test('Lists only challenges visible to the user', async () => {
+    jest.spyOn(friendModel, 'getFriendIds').mockResolvedValueOnce([ownerId]);
+    const findAllSpy = jest
+      .spyOn(challengeModel, 'findAll')
+      .mockResolvedValueOnce({
+        challenges: [challenge({ visibility: 'friends_only' })],
+        total: 11,
+      } as any);
+
+    const res = await request(app)
+      .get('/api/challenges')
+      .query({ page: 2 })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(findAllSpy).toHaveBeenCalledWith(2, 10, {
+      userId: testUserId,
+      friendIds: [ownerId],
+    });
+    expect(res.body.data[0]).not.toHaveProperty('joinCode');
+    expect(res.body.pagination).toEqual({
+      page: 2,
+      limit: 10,
+      total: 11,
+      pages: 2,
+    });
+  });
+
+  // Mocked behavior: a private challenge the user has nothing to do with, then
+  //        a friends-only challenge owned by the user's friend
+  // Input: challenge ID
+  // Expected status code: 404, then 200
+  // Expected behavior: the private challenge is reported as missing; the
+  //        friend's challenge is shown without its join code
+  test('Shows a challenge only to users who can see it', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any)
+      .mockResolvedValueOnce(challenge({ visibility: 'friends_only' }) as any);
+    jest.spyOn(friendModel, 'getFriendIds').mockResolvedValue([ownerId]);
+
+    const hidden = await request(app)
+      .get('/api/challenges/challenge-1')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(hidden.status).toBe(404);
+
+    const shown = await request(app)
+      .get('/api/challenges/challenge-1')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(shown.status).toBe(200);
+    expect(shown.body.data.id).toBe('challenge-1');
+    expect(shown.body.data).not.toHaveProperty('joinCode');
+    expect(friendModel.getFriendIds).toHaveBeenCalledWith(testUserId);
+  });
+
+  // Mocked behavior: a finished private challenge the user has nothing to do
+  //        with, then a finished public one
+  // Input: challenge ID
+  // Expected status code: 404, then 200
+  // Expected behavior: the stored result is only read for a visible challenge
+  test('Shows a final result only to users who can see the challenge', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ status: 'finished' }) as any)
+      .mockResolvedValueOnce(
+        challenge({ status: 'finished', visibility: 'public' }) as any
+      );
+    const resultSpy = jest
+      .spyOn(challengeResultsModel, 'findByChallengeId')
+      .mockResolvedValueOnce({
+        challengeId: 'challenge-1',
+        winnerIds: [ownerId],
+      } as any);
+
+    const hidden = await request(app)
+      .get('/api/challenges/challenge-1/result')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(hidden.status).toBe(404);
+    expect(resultSpy).not.toHaveBeenCalled();
+
+    const shown = await request(app)
+      .get('/api/challenges/challenge-1/result')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(shown.status).toBe(200);
+    expect(shown.body.data.winnerIds).toEqual([ownerId]);
+  });
+
+  // Mocked behavior: the user is a member of the private challenge
+  // Input: challenge ID
+  // Expected status code: 200
+  // Expected output: challenge with its join code
+  test('Members see the join code', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(
+        challenge({ memberIds: [ownerId, testUserId] }) as any
+      );
+
+    const res = await request(app)
+      .get('/api/challenges/challenge-1')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.joinCode).toBe('K7PQ2M');
+  });
+
+  // Mocked behavior: the user has one friend; their friends-only challenge and
+  //        one private challenge the user was invited to are on this game
+  // Input: game ID
+  // Expected status code: 200
+  // Expected behavior: only visible challenges are queried; join codes are
+  //        hidden from non-members
+  test('Lists the challenges on a game that the user can see', async () => {
+    jest.spyOn(friendModel, 'getFriendIds').mockResolvedValueOnce([ownerId]);
+    const findSpy = jest
+      .spyOn(challengeModel, 'findByGameId')
+      .mockResolvedValueOnce([
+        challenge({ visibility: 'friends_only', joinCode: undefined }),
+        challenge({ invitedUserIds: [testUserId] }),
+      ] as any);
+
+    const res = await request(app)
+      .get('/api/challenges/game/2024020100')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(findSpy).toHaveBeenCalledWith('2024020100', {
+      userId: testUserId,
+      friendIds: [ownerId],
+    });
+    expect(res.body.total).toBe(2);
+    res.body.data.forEach((c: object) =>
+      expect(c).not.toHaveProperty('joinCode')
+    );
+  });
+
+  // Mocked behavior: one public challenge matches
+  // Input: team in lower case, date, open seats and scoring mode
+  // Expected status code: 200
+  // Expected behavior: filters are parsed and passed on with paging defaults
+  // Expected output: matching challenges
+  test('Discovers public challenges by team, date, seats and scoring', async () => {
+    const discoverSpy = jest
+      .spyOn(challengeModel, 'discover')
+      .mockResolvedValueOnce({
+        challenges: [challenge({ visibility: 'public', joinCode: undefined })],
+        total: 1,
+      } as any);
+
+    const res = await request(app)
+      .get('/api/challenges/discover')
+      .query({
+        team: 'tor',
+        date: '2024-10-12',
+        openSeats: '2',
+        scoring: 'weighted',
+      })
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(discoverSpy).toHaveBeenCalledWith({
+      team: 'TOR',
+      date: '2024-10-12',
+      openSeats: 2,
+      scoring: 'weighted',
+      page: 1,
+      limit: 10,
+    });
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.pagination.total).toBe(1);
+  });
+
+  // Input: malformed date, then an unknown scoring mode
+  // Expected status code: 400
+  // Expected output: validation error
+  test('Validates the discovery filters', async () => {
+    const discoverSpy = jest.spyOn(challengeModel, 'discover');
+
+    const badDate = await request(app)
+      .get('/api/challenges/discover')
+      .query({ date: '12/10/2024' })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(badDate.status).toBe(400);
+    expect(badDate.body.error).toBe('Validation error');
+
+    const badScoring = await request(app)
+      .get('/api/challenges/discover')
+      .query({ scoring: 'fastest' })
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(badScoring.status).toBe(400);
+
+    expect(discoverSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the code belongs to a private challenge the user wasn't invited to
+  // Input: join code in lower case and a ticket
+  // Expected status code: 200
+  // Expected behavior: the code is matched case-insensitively and the user joins
+  // Expected output: challenge with the user as a member
+  test('Joins a private challenge with its join code', async () => {
+    const findSpy = jest
+      .spyOn(challengeModel, 'findByJoinCode')
+      .mockResolvedValueOnce(challenge() as any);
+    const joinSpy = jest
+      .spyOn(challengeModel, 'joinChallenge')
+      .mockResolvedValueOnce(
+        challenge({ memberIds: [ownerId, testUserId] }) as any
+      );
+
+    const res = await request(app)
+      .post('/api/challenges/join-by-code')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ joinCode: 'k7pq2m', ticketId: 'ticket-1' });
+
+    expect(res.status).toBe(200);
+    expect(findSpy).toHaveBeenCalledWith('K7PQ2M');
+    expect(joinSpy).toHaveBeenCalledWith('challenge-1', testUserId, 'ticket-1');
+    expect(res.body.data.memberIds).toContain(testUserId);
+  });
+
+  // Mocked behavior: the code belongs to a challenge that has finished
+  // Input: join code and a ticket
+  // Expected status code: 409
+  // Expected behavior: membership is not changed
+  test('Cannot join a challenge that is no longer open', async () => {
+    jest
+      .spyOn(challengeModel, 'findByJoinCode')
+      .mockResolvedValueOnce(challenge({ status: 'finished' }) as any);
+    const joinSpy = jest.spyOn(challengeModel, 'joinChallenge');
+
+    const res = await request(app)
+      .post('/api/challenges/join-by-code')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ joinCode: 'K7PQ2M', ticketId: 'ticket-1' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe('Cannot join a challenge that is finished');
+    expect(joinSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the ticket belongs to someone else or another game
+  // Input: join code and a ticket, then a new challenge with the same ticket
+  // Expected status code: 400
+  // Expected behavior: nobody joins and no challenge is created
+  test("Only the user's own ticket for the game can be entered", async () => {
+    jest
+      .spyOn(challengeModel, 'findByJoinCode')
+      .mockResolvedValueOnce(challenge() as any);
+    const ticketSpy = jest
+      .spyOn(challengeModel, 'findEntryTicket')
+      .mockResolvedValue(null);
+    const joinSpy = jest.spyOn(challengeModel, 'joinChallenge');
+    const createSpy = jest.spyOn(challengeModel, 'create');
+
+    const join = await request(app)
+      .post('/api/challenges/join-by-code')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ joinCode: 'K7PQ2M', ticketId: 'ticket-1' });
+    expect(join.status).toBe(400);
+    expect(join.body.message).toBe('Ticket not found for this game');
+    expect(ticketSpy).toHaveBeenCalledWith(
+      'ticket-1',
+      testUserId,
+      '2024020100'
+    );
+
+    const create = await request(app)
+      .post('/api/challenges')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        title: 'Rivalry night',
+        description: 'Leafs vs Habs',
+        gameId: '2024020100',
+        ticketId: 'ticket-1',
+      });
+    expect(create.status).toBe(400);
+
+    expect(joinSpy).not.toHaveBeenCalled();
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: no challenge has the code
+  // Input: unknown join code, then a code of the wrong length
+  // Expected status code: 404, then 400
+  test('Rejects unknown or malformed join codes', async () => {
+    jest.spyOn(challengeModel, 'findByJoinCode').mockResolvedValueOnce(null);
+    const joinSpy = jest.spyOn(challengeModel, 'joinChallenge');
+
+    const unknown = await request(app)
+      .post('/api/challenges/join-by-code')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ joinCode: 'ZZZZZZ', ticketId: 'ticket-1' });
+    expect(unknown.status).toBe(404);
+
+    const malformed = await request(app)
+      .post('/api/challenges/join-by-code')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ joinCode: 'ABC', ticketId: 'ticket-1' });
+    expect(malformed.status).toBe(400);
+
+    expect(joinSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: a private challenge without an invitation, then a
+  //        friends-only challenge whose owner is not the user's friend
+  // Input: join by ID with a ticket
+  // Expected status code: 403
+  // Expected behavior: membership is not changed
+  test('Joining by ID respects visibility', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any)
+      .mockResolvedValueOnce(challenge({ visibility: 'friends_only' }) as any);
+    const joinSpy = jest.spyOn(challengeModel, 'joinChallenge');
+
+    const privateRes = await request(app)
+      .post('/api/challenges/challenge-1/join')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ticketId: 'ticket-1' });
+    expect(privateRes.status).toBe(403);
+
+    const friendsRes = await request(app)
+      .post('/api/challenges/challenge-1/join')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ticketId: 'ticket-1' });
+    expect(friendsRes.status).toBe(403);
+    expect(friendModel.getFriendIds).toHaveBeenCalledWith(ownerId);
+
+    expect(joinSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: friends-only challenge owned by the user's friend
+  // Input: join by ID with a ticket
+  // Expected status code: 200
+  test("The owner's friends can join a friends-only challenge", async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ visibility: 'friends_only' }) as any);
+    jest.spyOn(friendModel, 'getFriendIds').mockResolvedValueOnce([testUserId]);
+    jest
+      .spyOn(challengeModel, 'joinChallenge')
+      .mockResolvedValueOnce(
+        challenge({ memberIds: [ownerId, testUserId] }) as any
+      );
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/join')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ ticketId: 'ticket-1' });
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,306 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { leaderboardService } from '../../../src/services/leaderboard.service';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+const makeScore = (total: number, lines: number, squares: number) => ({
+  noCrossedOff: squares,
+  noRows: lines,
+  noColumns: 0,
+  noCrosses: 0,
+  total,
+  weightedTotal: total,
+});
+
+const ownerTicketId = new mongoose.Types.ObjectId().toString();
+const memberTicketId = new mongoose.Types.ObjectId().toString();
+// 4 squares, no lines
+const ownerSquares = [
+  true,
+  false,
+  true,
+  false,
+  false,
+  true,
+  false,
+  true,
+  false,
+];
+// 5 squares including the top row
+const memberSquares = [
+  true,
+  true,
+  true,
+  true,
+  false,
+  false,
+  false,
+  false,
+  true,
+];
+
+// Interface GET /api/challenges/:id/leaderboard
+describe('Mocked GET /api/challenges/:id/leaderboard', () => {
+  let authToken: string;
+  let testUserId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    // Ensure userModel.findById returns a fake user so authenticateToken passes
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        id: id.toString(),
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Input: members with equal totals, differing lines/squares, and one without a ticket
+  // Expected behavior: tie-breaks on lines, then squares; identical scores share a rank
+  // Expected output: ranks 1, 2, 2, 4 with tieBreak info
+  test('rankEntries applies tie-break rules', () => {
+    const ranked = leaderboardService.rankEntries([
+      { userId: 'a', name: 'A', ticketId: 't1', score: makeScore(10, 1, 7) },
+      { userId: 'b', name: 'B', ticketId: 't2', score: makeScore(10, 2, 4) },
+      { userId: 'c', name: 'C', ticketId: null, score: makeScore(0, 0, 0) },
+      { userId: 'd', name: 'D', ticketId: 't3', score: makeScore(10, 1, 7) },
+    ]);
+
+    expect(ranked.map(e => [e.userId, e.rank])).toEqual([
+      ['b', 1],
+      ['a', 2],
+      ['d', 2],
+      ['c', 4],
+    ]);
+    expect(ranked[0].tieBreak).toEqual({ lines: 2, squares: 4, tied: false });
+    expect(ranked[1].tieBreak).toEqual({ lines: 1, squares: 7, tied: true });
+  });
+
+  // Mocked behavior: challenge, tickets and users are returned from mocked models
+  // Input: existing challenge ID without a scoring profile
+  // Expected status code: 200
+  // Expected behavior: member tickets are joined, scored with classic rules and ranked
+  // Expected output: leaderboard entries with names and scores
+  test('Returns ranked leaderboard for a challenge', async () => {
+    const ownerId = new mongoose.Types.ObjectId().toString();
+    const memberId = new mongoose.Types.ObjectId().toString();
+
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce({
+      id: 'challenge-1',
+      visibility: 'public',
+      memberIds: [ownerId, memberId],
+      memberNames: ['Owner', 'Member'],
+      ticketIds: new Map([
+        [ownerId, ownerTicketId],
+        [memberId, memberTicketId],
+      ]),
+    } as any);
+    jest.spyOn(Ticket, 'find').mockResolvedValueOnce([
+      { _id: ownerTicketId, crossedOff: ownerSquares },
+      { _id: memberTicketId, crossedOff: memberSquares },
+    ] as any);
+    jest.spyOn(mongoose.model('User'), 'find').mockResolvedValueOnce([
+      { _id: ownerId, name: 'Owner' },
+      { _id: memberId, name: 'Member' },
+    ] as any);
+
+    const res = await request(app)
+      .get('/api/challenges/challenge-1/leaderboard')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.data).toHaveLength(2);
+    expect(res.body.data[0]).toMatchObject({
+      rank: 1,
+      userId: memberId,
+      name: 'Member',
+      ticketId: memberTicketId,
+      score: { noCrossedOff: 5, noRows: 1, total: 8 },
+    });
+    expect(res.body.data[1]).toMatchObject({
+      rank: 2,
+      userId: ownerId,
+      score: { total: 4 },
+    });
+  });
+
+  // Mocked behavior: same tickets as above, challenge uses the lines_only profile
+  // Input: existing challenge ID
+  // Expected status code: 200
+  // Expected behavior: scores are recomputed with the challenge's weights
+  // Expected output: only completed lines score
+  test('Scores tickets with the challenge scoring profile', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce({
+      id: 'challenge-2',
+      visibility: 'public',
+      memberIds: ['owner', 'member'],
+      memberNames: ['Owner', 'Member'],
+      ticketIds: { owner: ownerTicketId, member: memberTicketId },
+      scoring: {
+        profile: 'lines_only',
+        weights: { perSquare: 0, perLine: 3, fullCardBonus: 0 },
+      },
+    } as any);
+    jest.spyOn(Ticket, 'find').mockResolvedValueOnce([
+      { _id: ownerTicketId, crossedOff: ownerSquares },
+      { _id: memberTicketId, crossedOff: memberSquares },
+    ] as any);
+    jest.spyOn(mongoose.model('User'), 'find').mockResolvedValueOnce([]);
+
+    const res = await request(app)
+      .get('/api/challenges/challenge-2/leaderboard')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(
+      res.body.data.map((e: any) => [e.userId, e.name, e.score.total])
+    ).toEqual([
+      ['member', 'Member', 3],
+      ['owner', 'Owner', 0],
+    ]);
+  });
+
+  // Mocked behavior: same squares as above, owner's first square is worth 10
+  // Input: challenge ID with the weighted profile
+  // Expected status code: 200
+  // Expected behavior: members are ranked by weightedTotal instead of total
+  // Expected output: owner (10 + 3 squares) ahead of member (5 squares + a row)
+  test('Ranks the weighted profile by weighted total', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce({
+      id: 'challenge-3',
+      visibility: 'public',
+      memberIds: ['owner', 'member'],
+      memberNames: ['Owner', 'Member'],
+      ticketIds: { owner: ownerTicketId, member: memberTicketId },
+      scoring: {
+        profile: 'weighted',
+        weights: { perSquare: 1, perLine: 3, fullCardBonus: 10 },
+      },
+    } as any);
+    jest.spyOn(Ticket, 'find').mockResolvedValueOnce([
+      {
+        _id: ownerTicketId,
+        crossedOff: ownerSquares,
+        squareWeights: [10, 1, 1, 1, 1, 1, 1, 1, 1],
+      },
+      { _id: memberTicketId, crossedOff: memberSquares },
+    ] as any);
+    jest.spyOn(mongoose.model('User'), 'find').mockResolvedValueOnce([]);
+
+    const res = await request(app)
+      .get('/api/challenges/challenge-3/leaderboard')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(200);
+    expect(
+      res.body.data.map((e: any) => [
+        e.userId,
+        e.rank,
+        e.score.total,
+        e.score.weightedTotal,
+      ])
+    ).toEqual([
+      ['owner', 1, 4, 13],
+      ['member', 2, 8, 8],
+    ]);
+  });
+
+  // Mocked behavior: a private challenge the user is not part of
+  // Input: challenge ID
+  // Expected status code: 404
+  // Expected behavior: no tickets are loaded
+  test('Hides the leaderboard of challenges the user cannot see', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce({
+      id: 'challenge-1',
+      ownerId: 'owner-1',
+      visibility: 'private',
+      memberIds: ['owner-1'],
+      memberNames: ['Owner'],
+      invitedUserIds: [],
+      ticketIds: new Map([['owner-1', ownerTicketId]]),
+    } as any);
+    const findSpy = jest.spyOn(Ticket, 'find');
+
+    const res = await request(app)
+      .get('/api/challenges/challenge-1/leaderboard')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(404);
+    expect(findSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: challengeModel.findById returns null
+  // Input: unknown challenge ID
+  // Expected status code: 404
+  // Expected output: Not Found error
+  test('Returns 404 when challenge does not exist', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce(null);
+
+    const res = await request(app)
+      .get('/api/challenges/missing/leaderboard')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body).toHaveProperty('message', 'Challenge not found');
+  });
+
+  // Mocked behavior: challengeModel.findById throws
+  // Input: challenge ID
+  // Expected status code: 500
+  // Expected output: Internal Server Error
+  test('Returns 500 when the database fails', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockRejectedValueOnce(new Error('Forced DB error'));
+
+    const res = await request(app)
+      .get('/api/challenges/challenge-1/leaderboard')
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(res.status).toBe(500);
+    expect(res.body).toHaveProperty('error', 'Internal Server Error');
+  });
+});
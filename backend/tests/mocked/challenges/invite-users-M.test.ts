@@ -0,0 +1,316 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { challengeInvitationsModel } from '../../../src/models/challengeInvitations.model';
+import { friendModel } from '../../../src/models/friends.model';
+import { nhlService } from '../../../src/services/nhl.service';
+import { challengeInvitationService } from '../../../src/services/challengeInvitation.service';
+import SocketEvents from '../../../src/utils/socket.events';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing (same setup as index.ts)
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Interface POST /api/challenges/:id/invite
+describe('Mocked POST /api/challenges/:id/invite', () => {
+  let authToken: string;
+  let testUserId: string;
+  const friendA = new mongoose.Types.ObjectId().toString();
+  const friendB = new mongoose.Types.ObjectId().toString();
+  const stranger = new mongoose.Types.ObjectId().toString();
+
+  const challenge = (overrides: object = {}) => ({
+    id: 'challenge-1',
+    title: 'Rivalry night',
+    ownerId: testUserId,
+    gameId: '2024020100',
+    status: 'pending',
+    memberIds: [testUserId],
+    memberNames: ['Mock User'],
+    invitedUserIds: [] as string[],
+    invitedUserNames: [] as string[],
+    maxMembers: 4,
+    ticketIds: {},
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        id: id.toString(),
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(nhlService, 'getGameStatus').mockResolvedValue(null);
+    jest
+      .spyOn(friendModel, 'getFriendIds')
+      .mockResolvedValue([friendA, friendB]);
+    jest.spyOn(challengeInvitationsModel, 'expireStale').mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: the owner's pending challenge has room; both invitees are friends
+  // Input: two friend IDs (one repeated)
+  // Expected status code: 200
+  // Expected behavior: each friend is invited once and notified over the socket
+  // Expected output: updated challenge
+  test('Owner invites friends', async () => {
+    const updated = challenge({
+      invitedUserIds: [friendA, friendB],
+      invitedUserNames: ['Friend A', 'Friend B'],
+    });
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const inviteSpy = jest
+      .spyOn(challengeInvitationService, 'invite')
+      .mockResolvedValueOnce(updated as any);
+    const socketSpy = jest.spyOn(SocketEvents, 'usersInvited');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA, friendB, friendA] });
+
+    expect(res.status).toBe(200);
+    expect(inviteSpy).toHaveBeenCalledWith('challenge-1', testUserId, [
+      friendA,
+      friendB,
+    ]);
+    expect(socketSpy).toHaveBeenCalledWith(
+      'challenge-1',
+      [friendA, friendB],
+      updated
+    );
+    expect(res.body.data).toMatchObject({
+      invitedUserIds: [friendA, friendB],
+      invitedUserNames: ['Friend A', 'Friend B'],
+    });
+  });
+
+  // Mocked behavior: one invitee is not in the owner's friend list
+  // Input: a friend and a stranger
+  // Expected status code: 400
+  // Expected behavior: nobody is invited
+  // Expected output: the non-friend IDs
+  test('Rejects invitees who are not friends', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const inviteSpy = jest.spyOn(challengeInvitationService, 'invite');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA, stranger] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('You can only invite your friends');
+    expect(res.body.userIds).toEqual([stranger]);
+    expect(inviteSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: 2 members and 1 pending invitation out of 4 seats
+  // Input: two more friends
+  // Expected status code: 400
+  // Expected behavior: nobody is invited
+  // Expected output: member limit message
+  test('Respects maxMembers including pending invitations', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce(
+      challenge({
+        memberIds: [testUserId, 'member-2'],
+        invitedUserIds: ['invited-1'],
+      }) as any
+    );
+    const inviteSpy = jest.spyOn(challengeInvitationService, 'invite');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA, friendB] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe(
+      'Challenge is limited to 4 members, including pending invitations'
+    );
+    expect(inviteSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: 2 members and 2 invitations out of 4 seats, but one
+  //        invitation has run out without the invitee opening their inbox
+  // Input: one more friend
+  // Expected status code: 200
+  // Expected behavior: the stale invitation is expired and its seat reused
+  test('Expired invitations no longer hold a seat', async () => {
+    jest.spyOn(challengeModel, 'findById').mockResolvedValueOnce(
+      challenge({
+        memberIds: [testUserId, 'member-2'],
+        invitedUserIds: ['invited-1', 'invited-2'],
+        invitedUserNames: ['Invited 1', 'Invited 2'],
+      }) as any
+    );
+    const expireSpy = jest
+      .spyOn(challengeInvitationsModel, 'expireStale')
+      .mockResolvedValueOnce(['challenge-1']);
+    jest
+      .spyOn(challengeInvitationsModel, 'findOpenByChallenge')
+      .mockResolvedValueOnce([
+        { invitedUserId: 'invited-1', invitedUserName: 'Invited 1' },
+      ] as any);
+    jest.spyOn(challengeModel, 'setInvitedUsers').mockResolvedValueOnce(
+      challenge({
+        memberIds: [testUserId, 'member-2'],
+        invitedUserIds: ['invited-1'],
+        invitedUserNames: ['Invited 1'],
+      }) as any
+    );
+    const inviteSpy = jest
+      .spyOn(challengeInvitationService, 'invite')
+      .mockResolvedValueOnce(challenge() as any);
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA] });
+
+    expect(res.status).toBe(200);
+    expect(expireSpy).toHaveBeenCalledWith({ challengeId: 'challenge-1' });
+    expect(challengeModel.setInvitedUsers).toHaveBeenCalledWith(
+      'challenge-1',
+      ['invited-1'],
+      ['Invited 1']
+    );
+    expect(inviteSpy).toHaveBeenCalledWith('challenge-1', testUserId, [
+      friendA,
+    ]);
+  });
+
+  // Mocked behavior: the last seats were taken between the check and the invite
+  // Input: a friend ID
+  // Expected status code: 409
+  // Expected behavior: nobody is notified
+  test('Reports invitations that lost the race for seats', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge() as any);
+    const reserveSpy = jest
+      .spyOn(challengeModel, 'reserveInvitations')
+      .mockResolvedValueOnce(null);
+    const createSpy = jest.spyOn(challengeInvitationsModel, 'invite');
+    const socketSpy = jest.spyOn(SocketEvents, 'usersInvited');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA] });
+
+    expect(res.status).toBe(409);
+    expect(reserveSpy).toHaveBeenCalledWith('challenge-1', [friendA]);
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(socketSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: friendA is already invited
+  // Input: friendA
+  // Expected status code: 400
+  // Expected output: the duplicate IDs
+  test('Rejects users who are already invited', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ invitedUserIds: [friendA] }) as any);
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.userIds).toEqual([friendA]);
+  });
+
+  // Mocked behavior: the challenge belongs to someone else
+  // Input: a friend ID
+  // Expected status code: 403
+  // Expected output: ownership error
+  test('Only the owner can invite', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ ownerId: 'owner-2' }) as any);
+    const friendsSpy = jest.spyOn(friendModel, 'getFriendIds');
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA] });
+
+    expect(res.status).toBe(403);
+    expect(friendsSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the challenge is already live
+  // Input: a friend ID
+  // Expected status code: 409
+  // Expected output: lock message
+  test('Rejects invitations once the challenge is live', async () => {
+    jest
+      .spyOn(challengeModel, 'findById')
+      .mockResolvedValueOnce(challenge({ status: 'live' }) as any);
+
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [friendA] });
+
+    expect(res.status).toBe(409);
+  });
+
+  // Input: empty userIds
+  // Expected status code: 400
+  // Expected output: validation error
+  test('Validates the request body', async () => {
+    const res = await request(app)
+      .post('/api/challenges/challenge-1/invite')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ userIds: [] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation error');
+  });
+});
@@ -0,0 +1,245 @@
+import {
+  describe,
+  expect,
+  test,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import dotenv from 'dotenv';
+import request from 'supertest';
+import express from 'express';
+import router from '../../../src/routes/routes';
+import mongoose from 'mongoose';
+import jwt from 'jsonwebtoken';
+import { userModel } from '../../../src/models/user.model';
+import { Ticket } from '../../../src/models/tickets.model';
+import { challengeModel } from '../../../src/models/challenges.model';
+import { challengeResultsModel } from '../../../src/models/challengeResults.model';
+import path from 'path';
+
+// Load test environment variables
+dotenv.config({ path: path.resolve(__dirname, '../../../.env.test') });
+
+// Create Express app for testing
+const app = express();
+app.use(express.json());
+app.use('/api', router);
+
+// Ticket.find(...).select(...).lean() resolving to the given tickets
+const ticketQuery = (tickets: unknown[]) =>
+  ({
+    select: () => ({ lean: () => Promise.resolve(tickets) }),
+  }) as any;
+
+const square = (extra: object) => ({
+  id: 'e',
+  category: 'TEAM',
+  subject: 'goals',
+  comparison: 'GREATER_THAN',
+  threshold: 1,
+  ...extra,
+});
+
+const score = (
+  noCrossedOff: number,
+  lines: [number, number, number],
+  total: number
+) => ({
+  noCrossedOff,
+  noRows: lines[0],
+  noColumns: lines[1],
+  noCrosses: lines[2],
+  total,
+  weightedTotal: total,
+});
+
+// Interface GET /api/user/:id/stats
+describe('Mocked GET /api/user/:id/stats', () => {
+  let authToken: string;
+  let testUserId: string;
+  let targetUserId: string;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    testUserId = new mongoose.Types.ObjectId().toString();
+    targetUserId = new mongoose.Types.ObjectId().toString();
+
+    authToken = jwt.sign(
+      { id: testUserId },
+      process.env.JWT_SECRET || 'test-secret'
+    );
+
+    // Mock userModel.findById for auth middleware
+    jest.spyOn(userModel, 'findById').mockImplementation(async (id: any) => {
+      return {
+        _id: id,
+        googleId: 'mock-google-id',
+        email: 'mock@example.com',
+        name: 'Mock User',
+        friendCode: 'MOCK123456',
+      } as any;
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(userModel, 'findUserInfoById').mockResolvedValue({
+      _id: new mongoose.Types.ObjectId(targetUserId),
+      name: 'Target User',
+      friendCode: 'TARGET1234',
+    });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Mocked behavior: the user has a blackout 3x3 ticket, a 4x4 ticket with one
+  //        row, and an empty ticket; two finished challenges, one won
+  // Input: user ID
+  // Expected status code: 200
+  // Expected behavior: totals and averages over all tickets, favourites counted
+  //        per square including compound parts
+  // Expected output: stats object
+  test('Aggregates ticket and challenge statistics', async () => {
+    const findSpy = jest.spyOn(Ticket, 'find').mockReturnValueOnce(
+      ticketQuery([
+        {
+          gridSize: 3,
+          events: [
+            square({ teamAbbrev: 'VAN' }),
+            square({ teamAbbrev: 'VAN' }),
+            square({
+              category: 'FORWARD',
+              playerId: 8478402,
+              playerName: 'Elias Pettersson',
+            }),
+          ],
+          score: score(9, [3, 3, 2], 42),
+        },
+        {
+          gridSize: 4,
+          events: [
+            square({ teamAbbrev: 'BOS' }),
+            square({
+              operator: 'AND',
+              teamAbbrev: 'VAN',
+              conditions: [
+                square({ category: 'FORWARD', playerId: 8478402 }),
+                square({ category: 'FORWARD', playerId: 8477956 }),
+              ],
+            }),
+          ],
+          score: score(5, [1, 0, 0], 8),
+        },
+        { gridSize: 3, events: [], score: score(0, [0, 0, 0], 0) },
+      ])
+    );
+    jest
+      .spyOn(challengeModel, 'findFinishedByMember')
+      .mockResolvedValueOnce([{ id: 'c1' }, { id: 'c2' }] as any);
+    const resultsSpy = jest
+      .spyOn(challengeResultsModel, 'findByChallengeIds')
+      .mockResolvedValueOnce([
+        { challengeId: 'c1', winnerIds: [targetUserId, testUserId] },
+        { challengeId: 'c2', winnerIds: [testUserId] },
+      ] as any);
+
+    const response = await request(app)
+      .get(`/api/user/${targetUserId}/stats`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(response.status).toBe(200);
+    expect(findSpy).toHaveBeenCalledWith({ userId: targetUserId });
+    expect(resultsSpy).toHaveBeenCalledWith(['c1', 'c2']);
+    expect(response.body.data.stats).toEqual({
+      ticketsCreated: 3,
+      averageScore: 16.67,
+      totalBingos: 9,
+      blackouts: 1,
+      challengesPlayed: 2,
+      challengesWon: 1,
+      winRate: 0.5,
+      favouriteTeams: [
+        { teamAbbrev: 'VAN', squares: 3 },
+        { teamAbbrev: 'BOS', squares: 1 },
+      ],
+      favouritePlayers: [
+        { playerId: 8478402, playerName: 'Elias Pettersson', squares: 2 },
+        { playerId: 8477956, squares: 1 },
+      ],
+    });
+  });
+
+  // Mocked behavior: no tickets and no finished challenges
+  // Input: user ID
+  // Expected status code: 200
+  // Expected output: zeroed stats, no division by zero
+  test('Returns zeroed stats for a new user', async () => {
+    jest.spyOn(Ticket, 'find').mockReturnValueOnce(ticketQuery([]));
+    jest
+      .spyOn(challengeModel, 'findFinishedByMember')
+      .mockResolvedValueOnce([]);
+    jest
+      .spyOn(challengeResultsModel, 'findByChallengeIds')
+      .mockResolvedValueOnce([]);
+
+    const response = await request(app)
+      .get(`/api/user/${targetUserId}/stats`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.stats).toMatchObject({
+      ticketsCreated: 0,
+      averageScore: 0,
+      challengesPlayed: 0,
+      winRate: 0,
+      favouriteTeams: [],
+      favouritePlayers: [],
+    });
+  });
+
+  // Mocked behavior: userModel.findUserInfoById returns null
+  // Input: unknown user ID
+  // Expected status code: 404
+  // Expected behavior: no stats are aggregated
+  // Expected output: not found message
+  test('Returns 404 for an unknown user', async () => {
+    jest.spyOn(userModel, 'findUserInfoById').mockResolvedValueOnce(null);
+    const findSpy = jest.spyOn(Ticket, 'find');
+
+    const response = await request(app)
+      .get(`/api/user/${targetUserId}/stats`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(response.status).toBe(404);
+    expect(response.body).toHaveProperty('message', 'User not found');
+    expect(findSpy).not.toHaveBeenCalled();
+  });
+
+  // Mocked behavior: the challenge lookup fails
+  // Input: user ID
+  // Expected status code: 500
+  // Expected output: error message
+  test('Returns 500 when the stats cannot be aggregated', async () => {
+    jest.spyOn(Ticket, 'find').mockReturnValueOnce(ticketQuery([]));
+    jest
+      .spyOn(challengeModel, 'findFinishedByMember')
+      .mockRejectedValueOnce(
+        new Error('Failed to find finished challenges by member')
+      );
+
+    const response = await request(app)
+      .get(`/api/user/${targetUserId}/stats`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(response.status).toBe(500);
+    expect(response.body).toHaveProperty(
+      'message',
+      'Failed to find finished challenges by member'
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { GameStatus } from '../../src/services/nhl.service';
+import {
+  ComparisonType,
+  EventCategory,
+  EventCondition,
+} from '../../src/types/tickets.types';
+
+// Shared builders for mocked tests
+
+// A "forward scores 1+" square, with whatever fields the test needs changed
+export const makeEvent = (
+  overrides: Partial<EventCondition>
+): EventCondition => ({
+  id: 'e',
+  category: EventCategory.FORWARD,
+  subject: 'goals',
+  comparison: ComparisonType.GREATER_THAN,
+  threshold: 1,
+  ...overrides,
+});
+
+// NHL status of a scheduled game starting in an hour
+export const makeStatus = (
+  gameId: string,
+  overrides: Partial<GameStatus> = {}
+): GameStatus => ({
+  gameId,
+  gameState: 'FUT',
+  gameScheduleState: 'OK',
+  startTimeUTC: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  isLive: false,
+  isFinished: false,
+  isScheduled: true,
+  ...overrides,
+});